@@ -1,6 +1,6 @@
 
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { Transaction, StockSummary, PortfolioStats, CurrencyStats } from './types';
+import { Transaction, PriceProviderSettings, PriceHistory, BaseCurrency, FxRateHistory, Account, ContributionPlan, ContributionRoomSettings, Benchmark, AllocationModel, ProposedOrder, AlertState, SyncState, SyncConflict, ChangeLog, ChangeSource } from './types';
 import StatsCards from './components/StatsCards';
 import TransactionForm from './components/TransactionForm';
 import PortfolioTable from './components/PortfolioTable';
@@ -8,44 +8,114 @@ import FileImportModal from './components/FileImportModal';
 import LoginModal from './components/LoginModal';
 import UserMenu from './components/UserMenu';
 import DataManagementModal from './components/DataManagementModal';
+import CapitalGainsModal from './components/CapitalGainsModal';
+import IncomeReportModal from './components/IncomeReportModal';
+import FeeReportModal from './components/FeeReportModal';
+import DuplicateFinderModal from './components/DuplicateFinderModal';
+import PriceSourceModal from './components/PriceSourceModal';
+import ValueHistoryChart from './components/ValueHistoryChart';
+import FxRatesModal from './components/FxRatesModal';
+import CashBalances from './components/CashBalances';
+import AccountsModal from './components/AccountsModal';
+import AccountFilter from './components/AccountFilter';
+import AccountSummaryTable from './components/AccountSummaryTable';
+import ContributionRoomModal from './components/ContributionRoomModal';
+import LedgerIssuesPanel from './components/LedgerIssuesPanel';
+import ReturnsModal from './components/ReturnsModal';
+import RebalanceModal from './components/RebalanceModal';
+import WatchlistPanel from './components/WatchlistPanel';
+import AlertsModal from './components/AlertsModal';
+import SyncConflictsModal from './components/SyncConflictsModal';
+import ActivityModal from './components/ActivityModal';
 import { useAuth } from './contexts/AuthContext';
-import { fetchCurrentPrices } from './services/geminiService';
+import { buildLedger, buildSymbolSuccessors, resolveSymbol, isCashEntry } from './services/ledgerEngine';
+import { createPriceProvider, loadPriceSettings, savePriceSettings } from './services/priceProviders';
+import { recordPrices, mergePriceHistory, todayISO } from './services/priceHistory';
+import { loadBaseCurrency, saveBaseCurrency, latestFxRate, convertAmount, consolidateStats, setFxRate, removeFxRate, fetchFxRate } from './services/fxRates';
+import { normalizeImportedTransaction } from './services/importStaging';
+import { buildCashLedger } from './services/cashLedger';
+import { validateLedger, issuesByTransaction } from './services/ledgerValidation';
+import { buildAccountSummaries, canonicalAccountName, filterByAccounts, listAccountNames, renameAccount } from './services/accounts';
+import { emptyAlertState, alertSymbols, evaluateAlerts, addNotifications, mergeAlertState, showBrowserNotifications } from './services/alerts';
+import { emptyAllocationModel, modelSymbols, orderToTransaction } from './services/rebalance';
+import { diffTransactions, openRepository, PortfolioRepository } from './services/storage';
+import { canRedo, canUndo, changeLogUpdate, describeTransaction, emptyChangeLog, loadHistoryRetention, mergeChangeLog, pruneChangeLog, recordChanges, redoLast, revertBatch, saveHistoryRetention, undoLast, ReplayResult } from './services/changeLog';
+import { holdSyncLeadership, onPriceCooldown, openTabChannel, priceCooldownRemaining, SharedStateKey, SHARED_STATE_KEYS, startPriceCooldown, TabChannel, withPriceRefreshLock } from './services/tabSync';
+import { applySyncPatch, createHttpSyncApi, emptySyncState, fetchDevToken, isOfflineError, isSyncEnabled, pendingChangeCount, syncConfig, syncLedger, SyncStatus, SYNC_DEBOUNCE_MS, SYNC_INTERVAL_MS } from './services/syncClient';
+import { downloadBackup, mergeTransactions, RestoreMode } from './services/backupService';
 import { PieChart as RechartsPieChart, Pie, Cell, Tooltip, ResponsiveContainer } from 'recharts';
-import { Plus, Database, TrendingUp, Upload, Loader2, ArrowRight, Sparkles, RefreshCw, ExternalLink, ShieldCheck, Cloud, CloudOff, Clock, HardDrive, PieChart as PieChartIcon, AlertCircle } from 'lucide-react';
+import { Plus, Database, TrendingUp, Upload, Loader2, ArrowRight, Sparkles, RefreshCw, ExternalLink, ShieldCheck, Cloud, CloudOff, Clock, HardDrive, PieChart as PieChartIcon, AlertCircle, Landmark, SlidersHorizontal, Coins, Receipt, PiggyBank, Percent, Scale, Bell, GitMerge, History, Undo2, Redo2 } from 'lucide-react';
 
 const COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#6366f1'];
 
-const emptyCurrencyStats = (): CurrencyStats => ({
-  totalValue: 0,
-  totalCostBasis: 0,
-  totalRealizedPL: 0,
-  totalUnrealizedPL: 0,
-});
-
 const App: React.FC = () => {
-  const { user, isLoading: isAuthLoading } = useAuth();
+  const { user, isLoading: isAuthLoading, getAccessToken } = useAuth();
   
   // State for data
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [currentPrices, setCurrentPrices] = useState<Record<string, number>>({});
+  const [priceHistory, setPriceHistory] = useState<PriceHistory>({});
+  const [fxRates, setFxRates] = useState<FxRateHistory>({});
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [selectedAccounts, setSelectedAccounts] = useState<string[]>([]);
+  const [benchmarks, setBenchmarks] = useState<Benchmark[]>([]);
+  const [allocationModel, setAllocationModel] = useState<AllocationModel>(emptyAllocationModel());
+  const [alertState, setAlertState] = useState<AlertState>(emptyAlertState());
+  const [syncState, setSyncState] = useState<SyncState>(() => emptySyncState());
+  const [changeLog, setChangeLog] = useState<ChangeLog>(emptyChangeLog());
+  const [historyRetention, setHistoryRetention] = useState(loadHistoryRetention); // Days of change history kept
+  const [historyNotice, setHistoryNotice] = useState<string | null>(null);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>(isSyncEnabled() ? 'idle' : 'disabled');
+  const [syncRequest, setSyncRequest] = useState(0); // Bumped to ask for a sync
+  const [reloadRequest, setReloadRequest] = useState(0); // Bumped when another tab replaced the saved data
+  const [lastSynced, setLastSynced] = useState<Date | null>(null);
+  const [isSyncLeader, setIsSyncLeader] = useState(false); // Only one tab per user talks to the server
+  const [roomSettings, setRoomSettings] = useState<Partial<Record<ContributionPlan, ContributionRoomSettings>>>({});
+  const [baseCurrency, setBaseCurrency] = useState<BaseCurrency>(() => loadBaseCurrency());
   const [priceSources, setPriceSources] = useState<any[]>([]);
   const [isGuestMode, setIsGuestMode] = useState(false);
   const [isDataLoaded, setIsDataLoaded] = useState(false);
   const [isRefreshingPrices, setIsRefreshingPrices] = useState(false);
-  const [priceError, setPriceError] = useState<string | null>(null);
-  const [cooldownRemaining, setCooldownRemaining] = useState<number>(0);
+  const [isFetchingHistory, setIsFetchingHistory] = useState(false);
+  const [priceError, setPriceError] = useState<string | null>(() => priceCooldownRemaining() > 0 ? "Quota Limit - Waiting" : null);
+  const [cooldownRemaining, setCooldownRemaining] = useState<number>(() => priceCooldownRemaining());
   const [lastSaved, setLastSaved] = useState<Date | null>(null);
+  const [storageError, setStorageError] = useState<string | null>(null);
   const [lastPriceUpdate, setLastPriceUpdate] = useState<Date | null>(null);
+  const [priceSettings, setPriceSettings] = useState<PriceProviderSettings>(() => loadPriceSettings());
 
   // UI state
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
+  const [formPrefill, setFormPrefill] = useState<Partial<Omit<Transaction, 'id'>> | undefined>(undefined);
   const [isImportOpen, setIsImportOpen] = useState(false);
   const [isLoginOpen, setIsLoginOpen] = useState(false);
   const [isDataMgmtOpen, setIsDataMgmtOpen] = useState(false);
+  const [isTaxReportOpen, setIsTaxReportOpen] = useState(false);
+  const [isIncomeReportOpen, setIsIncomeReportOpen] = useState(false);
+  const [isFeeReportOpen, setIsFeeReportOpen] = useState(false);
+  const [isDuplicatesOpen, setIsDuplicatesOpen] = useState(false);
+  const [isPriceSourceOpen, setIsPriceSourceOpen] = useState(false);
+  const [isFxOpen, setIsFxOpen] = useState(false);
+  const [isAccountsOpen, setIsAccountsOpen] = useState(false);
+  const [isRoomOpen, setIsRoomOpen] = useState(false);
+  const [isReturnsOpen, setIsReturnsOpen] = useState(false);
+  const [isRebalanceOpen, setIsRebalanceOpen] = useState(false);
+  const [isConflictsOpen, setIsConflictsOpen] = useState(false);
+  const [isActivityOpen, setIsActivityOpen] = useState(false);
+  const [alertsSymbol, setAlertsSymbol] = useState<string | null>(null); // Open when not null; '' for no symbol
+  const [focusRequest, setFocusRequest] = useState<{ id: string } | null>(null);
 
   // Refs for tracking and concurrency control
   const isFetchingRef = useRef(false);
+  const tabChannelRef = useRef<TabChannel | null>(null);
+  // What the other tabs already know about, so only this tab's own changes are announced
+  const tabKnownRef = useRef<{ generation: number; transactions: Transaction[]; changeLog: ChangeLog; values: Partial<Record<SharedStateKey, unknown>> } | null>(null);
+  const repositoryRef = useRef<PortfolioRepository | null>(null);
+  const isSyncingRef = useRef(false);
+  const isSyncQueuedRef = useRef(false);
+  // Changes whenever the loaded data is replaced, so a sync that started before does not apply its result
+  const dataGenerationRef = useRef(0);
   // Track which symbols have been refreshed during the current session
   const sessionUpdatedSymbols = useRef<Set<string>>(new Set());
 
@@ -63,11 +133,22 @@ const App: React.FC = () => {
   useEffect(() => {
     if (isAuthLoading) return;
     setIsDataLoaded(false);
+    setSelectedAccounts([]);
+    dataGenerationRef.current++;
 
     if (!user) {
       if (!isGuestMode) {
         setTransactions([]);
         setCurrentPrices({});
+        setPriceHistory({});
+        setFxRates({});
+        setAccounts([]);
+        setRoomSettings({});
+        setBenchmarks([]);
+        setAllocationModel(emptyAllocationModel());
+        setAlertState(emptyAlertState());
+        setSyncState(emptySyncState());
+        setChangeLog(emptyChangeLog());
         setPriceSources([]);
         sessionUpdatedSymbols.current.clear();
       }
@@ -75,68 +156,126 @@ const App: React.FC = () => {
       return;
     }
 
-    const txKey = `transactions_${user.id}`;
-    const pricesKey = `prices_${user.id}`;
-    const savedTx = localStorage.getItem(txKey);
-    const savedPrices = localStorage.getItem(pricesKey);
+    repositoryRef.current = null;
+    let cancelled = false;
 
-    if (savedTx) setTransactions(JSON.parse(savedTx));
-    else setTransactions([]);
+    const load = async () => {
+      const repository = await openRepository(user.id);
+      const [savedTx, savedPrices, savedHistory, savedFx, savedAccounts, savedRoom, savedBenchmarks, savedAllocation, savedAlerts, savedSync, savedChangeLog] = await Promise.all([
+        repository.loadTransactions(),
+        repository.loadPrices(),
+        repository.loadSetting<PriceHistory>('priceHistory'),
+        repository.loadSetting<FxRateHistory>('fxRates'),
+        repository.loadSetting<Account[]>('accounts'),
+        repository.loadSetting<Partial<Record<ContributionPlan, ContributionRoomSettings>>>('contributionRoom'),
+        repository.loadSetting<Benchmark[]>('benchmarks'),
+        repository.loadSetting<AllocationModel>('allocationModel'),
+        repository.loadSetting<AlertState>('alerts'),
+        repository.loadSetting<SyncState>('sync'),
+        repository.loadChangeLog(),
+      ]);
+      if (cancelled) return;
 
-    if (savedPrices) {
-        const parsed = JSON.parse(savedPrices);
-        setCurrentPrices(parsed);
-        // Note: We don't mark these as session-updated because they are from cache
-    }
-    
-    setIsDataLoaded(true);
-  }, [user, isAuthLoading, isGuestMode]);
+      repositoryRef.current = repository;
+      setTransactions(savedTx);
+      // Note: We don't mark these as session-updated because they are from cache
+      setCurrentPrices(savedPrices);
+      setPriceHistory(savedHistory || {});
+      setFxRates(savedFx || {});
+      setAccounts(savedAccounts || []);
+      setRoomSettings(savedRoom || {});
+      setBenchmarks(savedBenchmarks || []);
+      setAllocationModel(savedAllocation || emptyAllocationModel());
+      setAlertState(savedAlerts ? { ...emptyAlertState(), ...savedAlerts } : emptyAlertState());
+      setSyncState(savedSync || emptySyncState());
+      setChangeLog(pruneChangeLog(savedChangeLog || emptyChangeLog(), historyRetention));
+      setStorageError(null);
+      setIsDataLoaded(true);
+    };
+
+    // Data stays unloaded on failure, so nothing empty is saved over it
+    load().catch(err => {
+      console.error("Loading saved data failed", err);
+      if (!cancelled) setStorageError("Could not load saved data");
+    });
+    return () => { cancelled = true; };
+  }, [user, isAuthLoading, isGuestMode, reloadRequest]);
 
   // 2. Market Price Fetching
   const portfolioSymbols = useMemo(() => {
-    const symbols = new Set(transactions.map(t => (t.symbol || 'UNKNOWN').toUpperCase().trim()));
+    // Former tickers are quoted under the symbol they were renamed or merged into
+    const successors = buildSymbolSuccessors(transactions);
+    const symbols = new Set(transactions.filter(t => !isCashEntry(t)).map(t => resolveSymbol(t.symbol, successors)));
+    // Rebalancing targets may not be held yet but still need a price
+    modelSymbols(allocationModel).forEach(symbol => symbols.add(symbol));
+    // Watched symbols are quoted for the watchlist and alerts
+    alertSymbols(alertState).forEach(symbol => symbols.add(symbol));
     return Array.from(symbols);
-  }, [transactions]);
+  }, [transactions, allocationModel, alertState.watchlist, alertState.rules]);
+
+  const priceProvider = useMemo(() => createPriceProvider(priceSettings), [priceSettings]);
 
   const updateMarketPrices = async (symbolsToFetch: string[], isManual = false) => {
     if (isFetchingRef.current || symbolsToFetch.length === 0 || cooldownRemaining > 0) return;
-    
-    // Logic: Fetch if manual OR if the symbol hasn't been updated in THIS browser session.
-    // This ensures that when the app opens, it fetches fresh prices even if old ones are in localStorage.
-    const filtered = isManual 
-      ? symbolsToFetch 
-      : symbolsToFetch.filter(s => !sessionUpdatedSymbols.current.has(s));
-
-    if (filtered.length === 0) return;
-
     isFetchingRef.current = true;
-    setIsRefreshingPrices(true);
-    setPriceError(null);
-    
+
     try {
-      const { prices, sources } = await fetchCurrentPrices(filtered);
-      
-      setCurrentPrices(prev => ({ ...prev, ...prices }));
-      setPriceSources(sources);
-      setLastPriceUpdate(new Date());
-
-      // Mark these symbols as updated for the current session
-      filtered.forEach(s => {
-        if (prices[s]) sessionUpdatedSymbols.current.add(s);
-      });
+      // One tab refreshes at a time; a tab that waited only fetches what the other one did not
+      await withPriceRefreshLock(async () => {
+        if (priceCooldownRemaining() > 0) return;
 
-    } catch (err: any) {
-      console.error("Market data fetch failed", err);
-      const msg = err?.message || JSON.stringify(err);
-      
-      if (msg.includes("429") || msg.includes("quota") || msg.includes("RESOURCE_EXHAUSTED")) {
-        setPriceError("Quota Limit - Waiting 60s");
-        setCooldownRemaining(60); 
-      } else {
-        setPriceError("Price fetch failed");
-      }
+        // Logic: Fetch if manual OR if the symbol hasn't been updated in THIS browser session.
+        // This ensures that when the app opens, it fetches fresh prices even if old ones are in storage.
+        const filtered = isManual 
+          ? symbolsToFetch 
+          : symbolsToFetch.filter(s => !sessionUpdatedSymbols.current.has(s));
+
+        if (filtered.length === 0) return;
+
+        setIsRefreshingPrices(true);
+        setPriceError(null);
+        
+        try {
+          const { prices, sources } = await priceProvider.fetchPrices(filtered);
+          
+          setCurrentPrices(prev => ({ ...prev, ...prices }));
+          setPriceHistory(prev => recordPrices(prev, prices));
+          setPriceSources(sources);
+          setLastPriceUpdate(new Date());
+
+          const latest = alertInputsRef.current;
+          const evaluated = evaluateAlerts(latest.alertState.rules, latest.currentPrices, prices, latest.holdings);
+          if (evaluated.notifications.length > 0 || evaluated.rules.some((r, i) => r !== latest.alertState.rules[i])) {
+            setAlertState(prev => ({
+              ...prev,
+              rules: prev.rules.map(r => evaluated.rules.find(e => e.id === r.id) || r),
+              notifications: addNotifications(prev.notifications, evaluated.notifications),
+            }));
+            if (latest.alertState.browserNotifications) showBrowserNotifications(evaluated.notifications);
+          }
+
+          // Mark these symbols as updated for the current session
+          const updated = filtered.filter(s => prices[s]);
+          updated.forEach(s => sessionUpdatedSymbols.current.add(s));
+          tabChannelRef.current?.post({ type: 'pricesRefreshed', symbols: updated, sources, at: new Date().toISOString() });
+
+        } catch (err: any) {
+          console.error("Market data fetch failed", err);
+          const msg = err?.message || JSON.stringify(err);
+          
+          if (msg.includes("429") || msg.includes("quota") || msg.includes("RESOURCE_EXHAUSTED")) {
+            setPriceError("Quota Limit - Waiting 60s");
+            setCooldownRemaining(60); 
+            // Other tabs share the quota, so they wait too
+            startPriceCooldown(60);
+          } else {
+            setPriceError("Price fetch failed");
+          }
+        } finally {
+          setIsRefreshingPrices(false);
+        }
+      });
     } finally {
-      setIsRefreshingPrices(false);
       isFetchingRef.current = false;
     }
   };
@@ -146,138 +285,474 @@ const App: React.FC = () => {
     if (isDataLoaded && portfolioSymbols.length > 0) {
         updateMarketPrices(portfolioSymbols);
     }
-  }, [portfolioSymbols, isDataLoaded]);
+  }, [portfolioSymbols, isDataLoaded, priceProvider]);
 
   // 3. User-Specific Auto-Save
+  // Each piece is saved on its own, so a price refresh does not rewrite the ledger
+  const persist = (save: (repository: PortfolioRepository) => Promise<void>) => {
+    const repository = repositoryRef.current;
+    if (!isDataLoaded || isAuthLoading || !user || !repository) return;
+    save(repository)
+      .then(() => setLastSaved(new Date()))
+      .catch(err => {
+        console.error("Save failed", err);
+        setStorageError("Save failed");
+      });
+  };
+
+  useEffect(() => persist(r => r.saveTransactions(transactions)), [transactions, isDataLoaded]);
+  useEffect(() => persist(r => r.savePrices(currentPrices)), [currentPrices, isDataLoaded]);
+  useEffect(() => persist(r => r.saveSetting('priceHistory', priceHistory)), [priceHistory, isDataLoaded]);
+  useEffect(() => persist(r => r.saveSetting('fxRates', fxRates)), [fxRates, isDataLoaded]);
+  useEffect(() => persist(r => r.saveSetting('accounts', accounts)), [accounts, isDataLoaded]);
+  useEffect(() => persist(r => r.saveSetting('contributionRoom', roomSettings)), [roomSettings, isDataLoaded]);
+  useEffect(() => persist(r => r.saveSetting('benchmarks', benchmarks)), [benchmarks, isDataLoaded]);
+  useEffect(() => persist(r => r.saveSetting('allocationModel', allocationModel)), [allocationModel, isDataLoaded]);
+  useEffect(() => persist(r => r.saveSetting('alerts', alertState)), [alertState, isDataLoaded]);
+  useEffect(() => persist(r => r.saveSetting('sync', syncState)), [syncState, isDataLoaded]);
+  useEffect(() => persist(r => r.saveChangeLog(changeLog)), [changeLog, isDataLoaded]);
+
+  // 4. Server Sync
+  // The ledger is saved locally first and synced in the background, so it keeps working offline
+  const runSync = async () => {
+    if (!user || !isDataLoaded || !isSyncEnabled() || !isSyncLeader) return;
+    if (isSyncingRef.current) {
+      isSyncQueuedRef.current = true;
+      return;
+    }
+    isSyncingRef.current = true;
+    const generation = dataGenerationRef.current;
+    const { url, devAuth } = syncConfig();
+    const api = createHttpSyncApi(url, devAuth ? () => fetchDevToken(url, user.id) : getAccessToken);
+    setSyncStatus('syncing');
+
+    try {
+      const result = await syncLedger(transactions, syncState, api);
+      if (generation !== dataGenerationRef.current) {
+        setSyncStatus('idle');
+        return;
+      }
+      setTransactions(prev => applySyncPatch(prev, result.patch));
+      setSyncState(result.state);
+      setLastSynced(new Date());
+      setSyncStatus('idle');
+      if (result.retry) setSyncRequest(n => n + 1);
+    } catch (err) {
+      console.error("Sync failed", err);
+      if (generation === dataGenerationRef.current) setSyncStatus(isOfflineError(err) ? 'offline' : 'error');
+    } finally {
+      isSyncingRef.current = false;
+      // Changes made while this sync ran get their own
+      if (isSyncQueuedRef.current) {
+        isSyncQueuedRef.current = false;
+        setSyncRequest(n => n + 1);
+      }
+    }
+  };
+
+  useEffect(() => {
+    if (!user || !isDataLoaded || !isSyncEnabled() || !isSyncLeader) return;
+    const timer = setTimeout(runSync, SYNC_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [transactions, syncRequest, isDataLoaded, user, isSyncLeader]);
+
+  useEffect(() => {
+    if (!user || !isSyncEnabled() || !isSyncLeader) return;
+    const requestSync = () => setSyncRequest(n => n + 1);
+    const interval = setInterval(requestSync, SYNC_INTERVAL_MS);
+    window.addEventListener('online', requestSync);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('online', requestSync);
+    };
+  }, [user, isSyncLeader]);
+
+  // Every tab shares one device id, so only the tab holding the lock syncs
+  useEffect(() => {
+    if (!user || !isSyncEnabled()) return;
+    const release = holdSyncLeadership(user.id, () => setIsSyncLeader(true));
+    return () => {
+      release();
+      setIsSyncLeader(false);
+    };
+  }, [user]);
+
   useEffect(() => {
-    if (!isDataLoaded || isAuthLoading || !user) return;
-    const txKey = `transactions_${user.id}`;
-    const pricesKey = `prices_${user.id}`;
-    localStorage.setItem(txKey, JSON.stringify(transactions));
-    localStorage.setItem(pricesKey, JSON.stringify(currentPrices));
-    setLastSaved(new Date());
-  }, [transactions, currentPrices, user, isDataLoaded, isAuthLoading]);
+    if (!isSyncLeader) return;
+    tabChannelRef.current?.post({ type: 'syncStatus', status: syncStatus, lastSynced: lastSynced ? lastSynced.toISOString() : null });
+  }, [isSyncLeader, syncStatus, lastSynced]);
+
+  const requestSync = () => {
+    if (isSyncLeader) setSyncRequest(n => n + 1);
+    else tabChannelRef.current?.post({ type: 'syncRequest' });
+  };
+
+  const pendingSyncCount = useMemo(() => pendingChangeCount(transactions, syncState), [transactions, syncState]);
+
+  // 5. Other Tabs
+  useEffect(() => {
+    if (!user) return;
+    const channel = openTabChannel(user.id);
+    tabChannelRef.current = channel;
+
+    const setters: Record<SharedStateKey, (value: any) => void> = {
+      prices: setCurrentPrices,
+      priceHistory: setPriceHistory,
+      fxRates: setFxRates,
+      accounts: setAccounts,
+      contributionRoom: setRoomSettings,
+      benchmarks: setBenchmarks,
+      allocationModel: setAllocationModel,
+      alerts: setAlertState,
+      sync: setSyncState,
+    };
+    // Notifications are merged rather than replaced, so ones this tab has not announced yet survive
+    const mergers: Partial<Record<SharedStateKey, (current: any, incoming: any, announced: any) => unknown>> = {
+      alerts: mergeAlertState,
+    };
+
+    const unsubscribe = channel.subscribe(message => {
+      const known = tabKnownRef.current;
+      if (message.type === 'reload') {
+        setReloadRequest(n => n + 1);
+      } else if (message.type === 'pricesRefreshed') {
+        message.symbols.forEach(s => sessionUpdatedSymbols.current.add(s));
+        setPriceSources(message.sources);
+        setLastPriceUpdate(new Date(message.at));
+      } else if (message.type === 'syncStatus') {
+        setSyncStatus(message.status);
+        setLastSynced(message.lastSynced ? new Date(message.lastSynced) : null);
+      } else if (message.type === 'syncRequest') {
+        setSyncRequest(n => n + 1);
+      } else if (known) {
+        // Record it as known before applying, so it is not announced back
+        if (message.type === 'transactions') {
+          known.transactions = applySyncPatch(known.transactions, message.patch);
+          setTransactions(prev => applySyncPatch(prev, message.patch));
+        } else if (message.type === 'changeLog') {
+          const announced = known.changeLog;
+          known.changeLog = mergeChangeLog(announced, message.update, announced);
+          setChangeLog(prev => mergeChangeLog(prev, message.update, announced));
+        } else {
+          const announced = known.values[message.key];
+          const merge = mergers[message.key];
+          known.values[message.key] = message.value;
+          setters[message.key](merge ? (current: unknown) => merge(current, message.value, announced) : message.value);
+        }
+      }
+    });
+    const stopCooldown = onPriceCooldown(seconds => {
+      setPriceError(`Quota Limit - Waiting ${seconds}s`);
+      setCooldownRemaining(seconds);
+    });
+
+    return () => {
+      unsubscribe();
+      stopCooldown();
+      channel.close();
+      tabChannelRef.current = null;
+    };
+  }, [user]);
+
+  useEffect(() => {
+    const channel = tabChannelRef.current;
+    if (!isDataLoaded || !user || !channel) return;
+    const values: Record<SharedStateKey, unknown> = {
+      prices: currentPrices,
+      priceHistory,
+      fxRates,
+      accounts,
+      contributionRoom: roomSettings,
+      benchmarks,
+      allocationModel,
+      alerts: alertState,
+      sync: syncState,
+    };
+
+    // Freshly loaded data came from storage, which the other tabs share
+    const known = tabKnownRef.current;
+    if (!known || known.generation !== dataGenerationRef.current) {
+      tabKnownRef.current = { generation: dataGenerationRef.current, transactions, changeLog, values };
+      return;
+    }
+
+    const changes = diffTransactions(known.transactions, transactions);
+    if (changes.upserts.length > 0 || changes.deletes.length > 0) {
+      channel.post({ type: 'transactions', patch: { upserts: changes.upserts, deletes: changes.deletes } });
+    }
+    // Only the batches added since, never the whole history
+    const update = changeLogUpdate(known.changeLog, changeLog);
+    if (update) channel.post({ type: 'changeLog', update });
+    SHARED_STATE_KEYS.forEach(key => {
+      if (values[key] !== known.values[key]) channel.post({ type: 'state', key, value: values[key] });
+    });
+    tabKnownRef.current = { ...known, transactions, changeLog, values };
+  }, [isDataLoaded, user, transactions, currentPrices, priceHistory, fxRates, accounts, roomSettings, benchmarks, allocationModel, alertState, syncState, changeLog]);
 
   // --- Handlers ---
 
+  // Every edit the user makes to the ledger goes through here, so it lands in the change log
+  const commitLedger = (next: Transaction[], source: ChangeSource, label: string) => {
+    setChangeLog(log => pruneChangeLog(recordChanges(log, transactions, next, source, label), historyRetention));
+    setTransactions(next);
+  };
+
+  const applyReplay = (result: ReplayResult | null) => {
+    if (!result) return;
+    setChangeLog(pruneChangeLog(result.log, historyRetention));
+    setTransactions(result.transactions);
+    setHistoryNotice(result.skipped.length > 0
+      ? `${result.skipped.length} transaction${result.skipped.length === 1 ? ' was' : 's were'} changed since and left as ${result.skipped.length === 1 ? 'it is' : 'they are'}.`
+      : null);
+  };
+
+  const handleHistoryRetentionChange = (days: number) => {
+    setHistoryRetention(days);
+    saveHistoryRetention(days);
+    setChangeLog(log => pruneChangeLog(log, days));
+  };
+
+  const handleUndo = () => applyReplay(undoLast(changeLog, transactions));
+  const handleRedo = () => applyReplay(redoLast(changeLog, transactions));
+  const handleRevertBatch = (batchId: string) => applyReplay(revertBatch(changeLog, transactions, batchId));
+
+  useEffect(() => {
+    if (!historyNotice) return;
+    const timer = setTimeout(() => setHistoryNotice(null), 6000);
+    return () => clearTimeout(timer);
+  }, [historyNotice]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on a Mac), except while typing in a field
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [changeLog, transactions]);
+
+  const handleDeleteTransaction = (id: string) => {
+    const transaction = transactions.find(t => t.id === id);
+    if (!transaction) return;
+    if (!window.confirm(`Delete ${describeTransaction(transaction)}? You can undo this from the activity history.`)) return;
+    commitLedger(transactions.filter(t => t.id !== id), 'manual', `Deleted ${describeTransaction(transaction)}`);
+  };
+
   const handleSaveTransaction = (transactionData: Transaction | Omit<Transaction, 'id'>) => {
     const normalizedData = {
         ...transactionData,
         symbol: (transactionData.symbol || 'UNKNOWN').toUpperCase().trim(),
         exchange: (transactionData.exchange || 'UNKNOWN').toUpperCase().trim(),
-        type: (transactionData.type || 'BUY').toString().toUpperCase().trim() as 'BUY' | 'SELL',
+        // The form rejects types it does not know, so none is guessed here
+        type: transactionData.type,
+        ...(transactionData.newSymbol ? { newSymbol: transactionData.newSymbol.toUpperCase().trim() } : {}),
+        // Registry spelling, so "tfsa" does not become a second TFSA
+        account: canonicalAccountName(transactionData.account, accounts),
         currency: (transactionData.currency || 'USD').toUpperCase()
     };
 
     if ('id' in normalizedData) {
-      setTransactions(prev => prev.map(t => t.id === normalizedData.id ? normalizedData as Transaction : t));
+      const updated = normalizedData as Transaction;
+      commitLedger(transactions.map(t => t.id === updated.id ? updated : t), 'manual', `Edited ${describeTransaction(updated)}`);
     } else {
       const newTransaction = { ...normalizedData, id: Math.random().toString(36).substr(2, 9) };
-      setTransactions(prev => [...prev, newTransaction]);
+      commitLedger([...transactions, newTransaction], 'manual', `Added ${describeTransaction(newTransaction)}`);
     }
     setIsFormOpen(false);
     setEditingTransaction(null);
+    setFormPrefill(undefined);
+  };
+
+  const handleCloseAlerts = () => {
+    setAlertsSymbol(null);
+    setAlertState(prev => ({ ...prev, notifications: prev.notifications.map(n => (n.read ? n : { ...n, read: true })) }));
+  };
+
+  const handleRecordOrder = (order: ProposedOrder) => {
+    setEditingTransaction(null);
+    setFormPrefill(orderToTransaction(order));
+    setIsFormOpen(true);
+  };
+
+  const fetchPriceHistory = async () => {
+    if (!priceProvider.fetchHistory || transactions.length === 0) return;
+    const from = transactions.reduce((min, t) => (t.date && t.date < min ? t.date : min), todayISO());
+    setIsFetchingHistory(true);
+    try {
+      // Benchmarks are compared from the first trade, so they need the same span
+      const symbols = Array.from(new Set([...portfolioSymbols, ...benchmarks.map(b => b.symbol)]));
+      const history = await priceProvider.fetchHistory(symbols, from, todayISO());
+      setPriceHistory(prev => mergePriceHistory(prev, history));
+    } catch (err) {
+      console.error("Price history fetch failed", err);
+      setPriceError("History fetch failed");
+    } finally {
+      setIsFetchingHistory(false);
+    }
+  };
+
+  const handleBaseCurrencyChange = (currency: BaseCurrency) => {
+    saveBaseCurrency(currency);
+    setBaseCurrency(currency);
+  };
+
+  const handleFetchFxRate = async () => {
+    const result = await fetchFxRate(priceProvider);
+    if (!result) throw new Error('No USD/CAD rate returned');
+    setFxRates(prev => setFxRate(prev, result.date, result.rate));
+  };
+
+  const handleSavePriceSettings = (settings: PriceProviderSettings) => {
+    savePriceSettings(settings);
+    // Prices from the previous source should be replaced on the next refresh
+    sessionUpdatedSymbols.current.clear();
+    setPriceSources([]);
+    setPriceSettings(settings);
+  };
+
+  const dismissConflict = (id: string) => {
+    setSyncState(prev => ({ ...prev, conflicts: prev.conflicts.filter(c => c.id !== id) }));
+  };
+
+  // The other device's version becomes a local change and is pushed on the next sync
+  const handleUseRemoteVersion = (conflict: SyncConflict) => {
+    const row = conflict.remote || conflict.local;
+    commitLedger(
+      applySyncPatch(transactions, conflict.remote ? { upserts: [conflict.remote], deletes: [] } : { upserts: [], deletes: [conflict.id] }),
+      'manual',
+      `Used the other device's version of ${row ? describeTransaction(row) : 'a transaction'}`
+    );
+    dismissConflict(conflict.id);
   };
 
   const clearUserCache = () => {
     if (!user) return;
-    localStorage.removeItem(`transactions_${user.id}`);
-    localStorage.removeItem(`prices_${user.id}`);
+    repositoryRef.current?.clear()
+      .then(() => tabChannelRef.current?.post({ type: 'reload' }))
+      .catch(err => console.error("Clearing saved data failed", err));
+    // Forget what was synced too, so the next sync downloads the ledger again instead of deleting it on the server
+    dataGenerationRef.current++;
+    setSyncState(emptySyncState());
+    setChangeLog(emptyChangeLog());
     setTransactions([]);
     setCurrentPrices({});
+    setPriceHistory({});
+    setFxRates({});
+    setAccounts([]);
+    setSelectedAccounts([]);
+    setRoomSettings({});
+    setBenchmarks([]);
+    setAllocationModel(emptyAllocationModel());
+    setAlertState(emptyAlertState());
     sessionUpdatedSymbols.current.clear();
     setIsDataMgmtOpen(false);
   };
 
-  const handleBulkImport = (newTransactions: Omit<Transaction, 'id'>[]) => {
-      const transactionsWithIds = newTransactions.map(t => ({
-          ...t,
-          type: (t.type?.toString().toUpperCase().includes('SELL') ? 'SELL' : 'BUY') as 'BUY' | 'SELL',
-          symbol: (t.symbol || 'UNKNOWN').toUpperCase().trim(),
-          exchange: (t.exchange || 'UNKNOWN').toUpperCase().trim(),
-          currency: (t.currency || 'USD').toUpperCase(),
-          id: Math.random().toString(36).substr(2, 9)
-      }));
-      setTransactions(prev => [...prev, ...transactionsWithIds]);
+  const handleBulkImport = (newTransactions: Omit<Transaction, 'id'>[], source: ChangeSource) => {
+      const transactionsWithIds = newTransactions.map(t => {
+          const normalized = normalizeImportedTransaction(t);
+          return {
+              ...normalized,
+              type: t.type, // Only rows with a known type get past the review
+              account: canonicalAccountName(normalized.account, accounts),
+              id: Math.random().toString(36).substr(2, 9)
+          };
+      });
+      const label = `${source === 'ai-parse' ? 'AI import' : 'Imported'} ${transactionsWithIds.length} transaction${transactionsWithIds.length === 1 ? '' : 's'}`;
+      commitLedger([...transactions, ...transactionsWithIds], source, label);
   };
 
-  // --- Calculations ---
+  const handleRestore = (restored: Transaction[], mode: RestoreMode) => {
+      if (mode === 'replace') {
+          commitLedger(restored, 'restore', `Replaced ledger from backup (${restored.length} transactions)`);
+          return { added: restored.length, skipped: 0 };
+      }
+      const result = mergeTransactions(transactions, restored);
+      commitLedger(result.transactions, 'restore', `Merged ${result.added} transactions from backup`);
+      return { added: result.added, skipped: result.skipped };
+  };
 
-  const { portfolio, stats } = useMemo(() => {
-    const groups: Record<string, Transaction[]> = {};
-    transactions.forEach(t => {
-      const symbolKey = `${(t.symbol || 'UNKNOWN').toUpperCase().trim()}_${(t.currency || 'USD').toUpperCase()}`;
-      if (!groups[symbolKey]) groups[symbolKey] = [];
-      groups[symbolKey].push(t);
-    });
+  const handleSaveAccount = (account: Account) => {
+      const previous = accounts.find(a => a.id === account.id);
+      if (previous && previous.name !== account.name) {
+          commitLedger(renameAccount(transactions, previous.name, account.name), 'cleanup', `Renamed account ${previous.name} to ${account.name}`);
+          setSelectedAccounts(prev => prev.map(name => (name === previous.name ? account.name : name)));
+      }
+      setAccounts(prev => (previous ? prev.map(a => (a.id === account.id ? account : a)) : [...prev, account]));
+  };
 
-    const stockSummaries: StockSummary[] = [];
-    const portfolioStats: PortfolioStats = {
-      USD: emptyCurrencyStats(),
-      CAD: emptyCurrencyStats(),
-    };
+  const handleSaveRoomSettings = (plan: ContributionPlan, settings: ContributionRoomSettings | null) => {
+      setRoomSettings(prev => {
+          const next = { ...prev };
+          if (settings) next[plan] = settings;
+          else delete next[plan];
+          return next;
+      });
+  };
 
-    Object.entries(groups).forEach(([groupKey, txs]) => {
-      txs.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-      const symbol = txs[0].symbol;
-      const currency = txs[0].currency as 'USD' | 'CAD';
-      const statsRef = portfolioStats[currency] || portfolioStats.USD;
+  const handleJumpToTransaction = (id: string) => {
+      // A row hidden by the account filter cannot be shown
+      if (!visibleTransactions.some(t => t.id === id)) setSelectedAccounts([]);
+      setFocusRequest({ id });
+  };
 
-      let sharesHeld = 0, totalCost = 0, realizedPL = 0;
+  const handleMergeAccount = (from: string, to: string) => {
+      commitLedger(renameAccount(transactions, from, to), 'cleanup', `Merged account ${from} into ${to}`);
+      setSelectedAccounts(prev => prev.filter(name => name !== from));
+  };
 
-      txs.forEach(t => {
-        const shares = Number(t.shares), price = Number(t.price);
-        if (isNaN(shares) || isNaN(price)) return;
-        if (t.type === 'BUY') {
-          sharesHeld += shares;
-          totalCost += shares * price;
-        } else {
-          const avg = sharesHeld > 0 ? totalCost / sharesHeld : 0;
-          realizedPL += (shares * price - (shares * avg));
-          sharesHeld -= shares;
-          totalCost -= (shares * avg);
-        }
-      });
+  // --- Calculations ---
 
-      if (sharesHeld < 0.000001) { sharesHeld = 0; totalCost = 0; }
-      const currentPrice = currentPrices[symbol] || null;
-      
-      statsRef.totalRealizedPL += realizedPL;
-      statsRef.totalCostBasis += totalCost;
-      
-      if (currentPrice !== null && sharesHeld > 0) {
-          const marketVal = sharesHeld * currentPrice;
-          statsRef.totalValue += marketVal;
-          statsRef.totalUnrealizedPL += (marketVal - totalCost);
-      } else { 
-          statsRef.totalValue += totalCost; 
-      }
+  // Holdings, stats, cash and history follow the account filter; tax and
+  // income reports always cover every account.
+  const visibleTransactions = useMemo(() => filterByAccounts(transactions, selectedAccounts), [transactions, selectedAccounts]);
+  const accountNames = useMemo(() => listAccountNames(transactions, accounts), [transactions, accounts]);
+  const accountSummaries = useMemo(() => buildAccountSummaries(transactions, currentPrices, accounts), [transactions, currentPrices, accounts]);
 
-      stockSummaries.push({
-        symbol,
-        currency,
-        name: txs[0]?.name || symbol,
-        totalShares: sharesHeld,
-        avgCost: sharesHeld > 0 ? totalCost / sharesHeld : 0,
-        currentPrice,
-        totalInvested: totalCost,
-        realizedPL,
-        transactions: txs
-      });
-    });
+  // Cost-based alerts look at every account, whatever the filter shows
+  const alertHoldings = useMemo(() => buildLedger(transactions, {}, []).holdings, [transactions]);
+  // A price refresh may wait on another tab's lock, so it reads these as they are when prices arrive
+  const alertInputsRef = useRef({ alertState, currentPrices, holdings: alertHoldings });
+  alertInputsRef.current = { alertState, currentPrices, holdings: alertHoldings };
+  const unreadAlerts = alertState.notifications.filter(n => !n.read).length;
 
-    return { 
-        portfolio: stockSummaries.sort((a, b) => a.symbol.localeCompare(b.symbol)), 
-        stats: portfolioStats 
-    };
-  }, [transactions, currentPrices]);
+  const ledgerIssues = useMemo(() => validateLedger(transactions, accounts), [transactions, accounts]);
+  const issuesById = useMemo(() => issuesByTransaction(ledgerIssues), [ledgerIssues]);
 
+  const cashLedger = useMemo(() => buildCashLedger(visibleTransactions), [visibleTransactions]);
+  const { holdings: portfolio, stats } = useMemo(
+    () => buildLedger(visibleTransactions, currentPrices, cashLedger.balances),
+    [visibleTransactions, currentPrices, cashLedger]
+  );
+
+  const usdCad = latestFxRate(fxRates);
+  const consolidatedStats = useMemo(() => consolidateStats(stats, baseCurrency, usdCad), [stats, baseCurrency, usdCad]);
+  const baseSymbol = baseCurrency === 'CAD' ? 'C$' : '$';
+
+  // Values are converted to the base currency so slices are comparable;
+  // without a rate, foreign holdings fall back to their native amount.
   const allocationData = portfolio
     .filter(s => s.totalShares > 0 && s.currentPrice)
-    .map(s => ({ 
-        name: `${s.symbol} (${s.currency})`, 
-        value: (s.currentPrice || 0) * s.totalShares 
-    }));
+    .map(s => {
+        const nativeValue = (s.currentPrice || 0) * s.totalShares;
+        const converted = convertAmount(nativeValue, s.currency, baseCurrency, usdCad);
+        return { 
+            name: `${s.symbol} (${s.currency})`, 
+            value: converted ?? nativeValue,
+            isConverted: converted !== null
+        };
+    });
+  const hasUnconvertedAllocation = allocationData.some(e => !e.isConverted);
 
   if (isAuthLoading) {
       return (
@@ -325,7 +800,22 @@ const App: React.FC = () => {
             </div>
             {user && (
               <div className="flex items-center gap-2 bg-slate-50 border border-slate-200 px-3 py-1 rounded-full text-[10px] text-slate-500 font-bold uppercase tracking-widest">
-                <Cloud size={12} className="text-indigo-400" /> Auto-Sync: {lastSaved ? lastSaved.toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'}) : '--'}
+                {storageError ? (
+                  <span className="flex items-center gap-2 text-rose-500"><CloudOff size={12} /> {storageError}</span>
+                ) : syncStatus === 'disabled' ? (
+                  <span className="flex items-center gap-2" title="Sync is not configured; data stays in this browser"><HardDrive size={12} className="text-slate-400" /> Saved in browser: {lastSaved ? lastSaved.toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'}) : '--'}</span>
+                ) : syncStatus === 'syncing' ? (
+                  <><RefreshCw size={12} className="text-indigo-400 animate-spin" /> Syncing</>
+                ) : syncStatus === 'offline' ? (
+                  <span className="flex items-center gap-2 text-amber-600"><CloudOff size={12} /> Offline{pendingSyncCount > 0 ? ` · ${pendingSyncCount} pending` : ''}</span>
+                ) : syncStatus === 'error' ? (
+                  <button onClick={requestSync} className="flex items-center gap-2 text-rose-500 uppercase" title="Retry"><CloudOff size={12} /> Sync failed{pendingSyncCount > 0 ? ` · ${pendingSyncCount} pending` : ''}</button>
+                ) : (
+                  <><Cloud size={12} className="text-indigo-400" /> Synced: {lastSynced ? lastSynced.toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'}) : '--'}</>
+                )}
+                {syncState.conflicts.length > 0 && (
+                  <button onClick={() => setIsConflictsOpen(true)} className="flex items-center gap-1 text-amber-600 uppercase border-l border-slate-200 pl-2"><GitMerge size={12} /> {syncState.conflicts.length} Conflicts</button>
+                )}
               </div>
             )}
           </div>
@@ -349,6 +839,42 @@ const App: React.FC = () => {
                    <RefreshCw size={18} className={isRefreshingPrices ? 'animate-spin' : ''} />
                 </button>
               </div>
+              {historyNotice && !isActivityOpen && <span className="text-[9px] text-amber-600 font-bold uppercase max-w-[160px] text-right">{historyNotice}</span>}
+              <button onClick={handleUndo} disabled={!canUndo(changeLog)} className="p-2 hover:bg-slate-100 rounded-lg text-slate-500 transition-colors disabled:opacity-30" title="Undo (Ctrl+Z)">
+                 <Undo2 size={18} />
+              </button>
+              <button onClick={handleRedo} disabled={!canRedo(changeLog)} className="p-2 hover:bg-slate-100 rounded-lg text-slate-500 transition-colors disabled:opacity-30" title="Redo (Ctrl+Shift+Z)">
+                 <Redo2 size={18} />
+              </button>
+              <button onClick={() => setIsActivityOpen(true)} className="p-2 hover:bg-slate-100 rounded-lg text-slate-500 transition-colors" title="Activity">
+                 <History size={18} />
+              </button>
+              <button onClick={() => setAlertsSymbol('')} className="relative p-2 hover:bg-slate-100 rounded-lg text-slate-500 transition-colors" title="Price Alerts">
+                 <Bell size={18} />
+                 {unreadAlerts > 0 && <span className="absolute -top-0.5 -right-0.5 min-w-[16px] h-4 px-1 rounded-full bg-rose-500 text-white text-[9px] font-black flex items-center justify-center">{unreadAlerts}</span>}
+              </button>
+              <button 
+                onClick={() => setIsPriceSourceOpen(true)} 
+                className="p-2 hover:bg-slate-100 rounded-lg text-slate-500 transition-colors" 
+                title="Market Data Source"
+              >
+                 <SlidersHorizontal size={18} />
+              </button>
+              <button onClick={() => setIsReturnsOpen(true)} className="hidden sm:flex items-center gap-2 bg-white border border-slate-300 px-3.5 py-1.5 rounded-xl font-medium text-xs">
+                <Percent size={14} /> Returns
+              </button>
+              <button onClick={() => setIsTaxReportOpen(true)} className="hidden sm:flex items-center gap-2 bg-white border border-slate-300 px-3.5 py-1.5 rounded-xl font-medium text-xs">
+                <Landmark size={14} /> ACB
+              </button>
+              <button onClick={() => setIsIncomeReportOpen(true)} className="hidden sm:flex items-center gap-2 bg-white border border-slate-300 px-3.5 py-1.5 rounded-xl font-medium text-xs">
+                <Coins size={14} /> Income
+              </button>
+              <button onClick={() => setIsFeeReportOpen(true)} className="hidden sm:flex items-center gap-2 bg-white border border-slate-300 px-3.5 py-1.5 rounded-xl font-medium text-xs">
+                <Receipt size={14} /> Fees
+              </button>
+              <button onClick={() => setIsRoomOpen(true)} className="hidden sm:flex items-center gap-2 bg-white border border-slate-300 px-3.5 py-1.5 rounded-xl font-medium text-xs">
+                <PiggyBank size={14} /> Room
+              </button>
               <button onClick={() => setIsImportOpen(true)} className="hidden sm:flex items-center gap-2 bg-white border border-slate-300 px-3.5 py-1.5 rounded-xl font-medium text-xs">
                 <Upload size={14} /> Import
               </button>
@@ -361,16 +887,48 @@ const App: React.FC = () => {
       </header>
 
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
-        <StatsCards stats={stats} />
+        <AccountFilter
+          accountNames={accountNames}
+          accounts={accounts}
+          selected={selectedAccounts}
+          onChange={setSelectedAccounts}
+          onManage={() => setIsAccountsOpen(true)}
+        />
+
+        {ledgerIssues.length > 0 && <LedgerIssuesPanel issues={ledgerIssues} transactions={transactions} onJump={handleJumpToTransaction} />}
+
+        <StatsCards stats={stats} baseCurrency={baseCurrency} consolidated={consolidatedStats} />
 
         <div className="w-full">
             <div className="flex items-center justify-between mb-4 px-2">
               <h2 className="text-sm font-black text-slate-400 uppercase tracking-[0.2em] flex items-center gap-2">Holdings</h2>
-              <div className="flex items-center gap-2 text-[10px] text-indigo-400 bg-indigo-50/50 px-2.5 py-1 rounded-full font-bold">
-                 <ShieldCheck size={12} /> Multi-Currency Analysis Enabled
+              <button onClick={() => setIsFxOpen(true)} className="flex items-center gap-2 text-[10px] text-indigo-400 bg-indigo-50/50 hover:bg-indigo-100/60 px-2.5 py-1 rounded-full font-bold transition-colors" title="Base currency and FX rates">
+                 <ShieldCheck size={12} /> Base {baseCurrency}{usdCad ? ` · USD/CAD ${usdCad.toFixed(4)}` : ' · No FX Rate'}
+              </button>
+            </div>
+            <PortfolioTable portfolio={portfolio} cashRunning={cashLedger.running} issues={issuesById} focusRequest={focusRequest} onDelete={handleDeleteTransaction} onEdit={t => { setEditingTransaction(t); setIsFormOpen(true); }} />
+            {cashLedger.balances.length > 0 && <div className="mt-4"><CashBalances balances={cashLedger.balances} /></div>}
+            {accountSummaries.length > 1 && (
+              <div className="mt-4">
+                <AccountSummaryTable
+                  summaries={accountSummaries}
+                  baseCurrency={baseCurrency}
+                  usdCad={usdCad}
+                  selected={selectedAccounts}
+                  onSelect={name => setSelectedAccounts(prev => (prev.includes(name) ? prev : [...prev, name]))}
+                />
               </div>
+            )}
+            <div className="mt-4">
+              <WatchlistPanel
+                watchlist={alertState.watchlist}
+                rules={alertState.rules}
+                currentPrices={currentPrices}
+                onAdd={symbol => setAlertState(prev => ({ ...prev, watchlist: [...prev.watchlist, symbol] }))}
+                onRemove={symbol => setAlertState(prev => ({ ...prev, watchlist: prev.watchlist.filter(s => s !== symbol) }))}
+                onOpenAlerts={symbol => setAlertsSymbol(symbol || '')}
+              />
             </div>
-            <PortfolioTable portfolio={portfolio} onDelete={id => setTransactions(t => t.filter(x => x.id !== id))} onEdit={t => { setEditingTransaction(t); setIsFormOpen(true); }} />
             
             {priceSources.length > 0 && (
               <div className="mt-4 px-2 py-3 bg-slate-100/50 rounded-xl border border-slate-200/60">
@@ -396,10 +954,26 @@ const App: React.FC = () => {
             )}
         </div>
 
+        <ValueHistoryChart
+          transactions={visibleTransactions}
+          priceHistory={priceHistory}
+          onImportHistory={history => setPriceHistory(prev => mergePriceHistory(prev, history))}
+          onFetchHistory={priceProvider.fetchHistory ? fetchPriceHistory : undefined}
+          isFetchingHistory={isFetchingHistory}
+          benchmarks={benchmarks}
+          onBenchmarksChange={setBenchmarks}
+          currentPrices={currentPrices}
+          fxRates={fxRates}
+        />
+
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
             <div className="lg:col-span-2 bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
                 <h3 className="text-slate-800 text-xs font-black uppercase tracking-widest mb-6 flex items-center gap-2">
-                    <PieChartIcon size={14} className="text-indigo-500" /> Allocation
+                    <PieChartIcon size={14} className="text-indigo-500" /> Allocation <span className="text-slate-400">({baseCurrency})</span>
+                    {hasUnconvertedAllocation && <span className="ml-auto text-[9px] text-amber-600 normal-case tracking-normal font-bold">Add a USD/CAD rate for accurate weights</span>}
+                    <button onClick={() => setIsRebalanceOpen(true)} className={`${hasUnconvertedAllocation ? '' : 'ml-auto '}flex items-center gap-1 text-[10px] font-bold text-indigo-600 hover:bg-indigo-50 px-2 py-1 rounded-lg normal-case tracking-normal`}>
+                        <Scale size={12} /> Rebalance
+                    </button>
                 </h3>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-8 items-center h-64">
                     {allocationData.length > 0 ? (
@@ -409,7 +983,7 @@ const App: React.FC = () => {
                                 <Pie data={allocationData} cx="50%" cy="50%" innerRadius={55} outerRadius={80} paddingAngle={8} dataKey="value" stroke="none">
                                     {allocationData.map((_, index) => <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />)}
                                 </Pie>
-                                <Tooltip formatter={(v: number, name: string) => [`$${v.toLocaleString()}`, name]} contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }} />
+                                <Tooltip formatter={(v: number, name: string) => [`${baseSymbol}${v.toLocaleString(undefined, { maximumFractionDigits: 2 })}`, name]} contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }} />
                             </RechartsPieChart>
                         </ResponsiveContainer>
                         <div className="space-y-2 max-h-full overflow-y-auto pr-2">
@@ -419,7 +993,7 @@ const App: React.FC = () => {
                                         <div className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: COLORS[i % COLORS.length] }}></div>
                                         <span className="text-slate-700 font-bold">{e.name}</span>
                                     </div>
-                                    <span className="text-slate-900 font-medium">${e.value.toLocaleString()}</span>
+                                    <span className={`font-medium ${e.isConverted ? 'text-slate-900' : 'text-amber-600'}`} title={e.isConverted ? undefined : 'Not converted: no USD/CAD rate'}>{baseSymbol}{e.value.toLocaleString(undefined, { maximumFractionDigits: 2 })}</span>
                                 </div>
                             ))}
                         </div>
@@ -433,23 +1007,34 @@ const App: React.FC = () => {
                 <div className="absolute -top-10 -right-10 opacity-5"><HardDrive size={200} /></div>
                 <div>
                     <h4 className="text-xl font-black uppercase tracking-widest mb-4">Secure Vault</h4>
-                    <p className="text-indigo-100 text-sm leading-relaxed mb-6">Your trade data is persisted locally to your Auth0 profile ID. Export or wipe your data anytime in the Management panel.</p>
+                    <p className="text-indigo-100 text-sm leading-relaxed mb-6">
+                      {isSyncEnabled()
+                        ? 'Your trade data is saved in this browser and synced to your account, so it follows you to other devices. Export or wipe your data anytime in the Management panel.'
+                        : 'Your trade data is saved in this browser only, under your Auth0 profile ID. Export a backup to move it to another device, or wipe it anytime in the Management panel.'}
+                    </p>
                 </div>
                 <button onClick={() => setIsDataMgmtOpen(true)} className="w-full py-3 bg-white/10 hover:bg-white/20 text-white rounded-xl text-xs font-bold transition-colors backdrop-blur-sm border border-white/10">Open Data Manager</button>
             </div>
         </div>
       </main>
 
-      {isFormOpen && <TransactionForm onSave={handleSaveTransaction} onClose={() => setIsFormOpen(false)} initialData={editingTransaction || undefined} />}
-      {isImportOpen && <FileImportModal onImport={handleBulkImport} onClose={() => setIsImportOpen(false)} />}
+      {alertsSymbol !== null && <AlertsModal state={alertState} onChange={setAlertState} symbols={Array.from(new Set([...alertState.watchlist, ...portfolioSymbols]))} initialSymbol={alertsSymbol} onClose={handleCloseAlerts} />}
+      {isActivityOpen && <ActivityModal log={changeLog} notice={historyNotice} retentionDays={historyRetention} onRetentionChange={handleHistoryRetentionChange} onUndo={handleUndo} onRedo={handleRedo} onRevert={handleRevertBatch} onJumpToTransaction={id => { setIsActivityOpen(false); handleJumpToTransaction(id); }} onClose={() => setIsActivityOpen(false)} />}
+      {isConflictsOpen && <SyncConflictsModal conflicts={syncState.conflicts} disabled={syncStatus === 'syncing'} onKeepLocal={c => dismissConflict(c.id)} onUseRemote={handleUseRemoteVersion} onClose={() => setIsConflictsOpen(false)} />}
+      {isRebalanceOpen && <RebalanceModal portfolio={portfolio} model={allocationModel} onModelChange={setAllocationModel} currentPrices={currentPrices} baseCurrency={baseCurrency} usdCad={usdCad} accountNames={accountNames} onRecordOrder={handleRecordOrder} onClose={() => setIsRebalanceOpen(false)} />}
+      {isFormOpen && <TransactionForm onSave={handleSaveTransaction} existingTransactions={transactions} accounts={accounts} onClose={() => { setIsFormOpen(false); setFormPrefill(undefined); }} initialData={editingTransaction || undefined} prefill={formPrefill} />}
+      {isImportOpen && <FileImportModal existingTransactions={transactions} onImport={handleBulkImport} onClose={() => setIsImportOpen(false)} />}
       {isLoginOpen && <LoginModal onClose={() => setIsLoginOpen(false)} />}
-      {isDataMgmtOpen && <DataManagementModal transactionsCount={transactions.length} onClearCache={clearUserCache} onExport={() => {
-          const blob = new Blob([JSON.stringify(transactions, null, 2)], { type: 'application/json' });
-          const url = URL.createObjectURL(blob);
-          const a = document.createElement('a');
-          a.href = url; a.download = 'tradetrack_backup.json';
-          a.click();
-      }} onClose={() => setIsDataMgmtOpen(false)} />}
+      {isPriceSourceOpen && <PriceSourceModal settings={priceSettings} onSave={handleSavePriceSettings} onClose={() => setIsPriceSourceOpen(false)} />}
+      {isFxOpen && <FxRatesModal baseCurrency={baseCurrency} rates={fxRates} onBaseCurrencyChange={handleBaseCurrencyChange} onSetRate={(date, rate) => setFxRates(prev => setFxRate(prev, date, rate))} onRemoveRate={date => setFxRates(prev => removeFxRate(prev, date))} onFetchRate={handleFetchFxRate} onClose={() => setIsFxOpen(false)} />}
+      {isTaxReportOpen && <CapitalGainsModal transactions={transactions} accounts={accounts} onClose={() => setIsTaxReportOpen(false)} />}
+      {isIncomeReportOpen && <IncomeReportModal transactions={transactions} onClose={() => setIsIncomeReportOpen(false)} />}
+      {isFeeReportOpen && <FeeReportModal transactions={transactions} onClose={() => setIsFeeReportOpen(false)} />}
+      {isDataMgmtOpen && <DataManagementModal transactionsCount={transactions.length} onClearCache={clearUserCache} onExport={() => downloadBackup(transactions)} onRestore={handleRestore} onFindDuplicates={() => { setIsDataMgmtOpen(false); setIsDuplicatesOpen(true); }} onClose={() => setIsDataMgmtOpen(false)} />}
+      {isReturnsOpen && <ReturnsModal transactions={visibleTransactions} priceHistory={priceHistory} currentPrices={currentPrices} accounts={accounts} baseCurrency={baseCurrency} fxRates={fxRates} isFiltered={selectedAccounts.length > 0} onClose={() => setIsReturnsOpen(false)} />}
+      {isRoomOpen && <ContributionRoomModal transactions={transactions} accounts={accounts} fxRates={fxRates} settings={roomSettings} onSaveSettings={handleSaveRoomSettings} onClose={() => setIsRoomOpen(false)} />}
+      {isAccountsOpen && <AccountsModal accounts={accounts} transactions={transactions} onSaveAccount={handleSaveAccount} onDeleteAccount={id => setAccounts(prev => prev.filter(a => a.id !== id))} onMergeAccount={handleMergeAccount} onClose={() => setIsAccountsOpen(false)} />}
+      {isDuplicatesOpen && <DuplicateFinderModal transactions={transactions} onResolve={resolved => commitLedger(resolved, 'cleanup', `Resolved duplicates (${transactions.length - resolved.length} removed)`)} onClose={() => setIsDuplicatesOpen(false)} />}
     </div>
   );
 };
@@ -0,0 +1,47 @@
+import React from 'react';
+import { Filter } from 'lucide-react';
+import { Account, AccountType } from '../types';
+import { ACCOUNT_TYPE_LABELS, accountMatchKey } from '../services/accounts';
+
+interface AccountFilterProps {
+  accountNames: string[];
+  accounts: Account[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+  onManage: () => void;
+}
+
+const AccountFilter: React.FC<AccountFilterProps> = ({ accountNames, accounts, selected, onChange, onManage }) => {
+  const selectedKeys = new Set(selected.map(accountMatchKey));
+  const types = Array.from(new Set(accounts.map(a => a.type))) as AccountType[];
+
+  const toggle = (name: string) => {
+    onChange(selectedKeys.has(accountMatchKey(name))
+      ? selected.filter(s => accountMatchKey(s) !== accountMatchKey(name))
+      : [...selected, name]);
+  };
+
+  const chipClass = (active: boolean) =>
+    `px-2.5 py-1 rounded-full text-[10px] font-bold transition-colors ${active ? 'bg-indigo-600 text-white' : 'bg-white border border-slate-200 text-slate-500 hover:bg-slate-50'}`;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 px-2">
+      <Filter size={12} className="text-slate-400" />
+      <button onClick={() => onChange([])} className={chipClass(selected.length === 0)}>All Accounts</button>
+      {accountNames.map(name => (
+        <button key={name} onClick={() => toggle(name)} className={chipClass(selectedKeys.has(accountMatchKey(name)))}>
+          {name || '(blank)'}
+        </button>
+      ))}
+      {types.length > 1 && <span className="w-px h-4 bg-slate-200" />}
+      {types.length > 1 && types.map(type => (
+        <button key={type} onClick={() => onChange(accounts.filter(a => a.type === type).map(a => a.name))} className="px-2 py-1 rounded-full text-[10px] font-bold text-slate-400 hover:text-indigo-600" title={`Show every ${ACCOUNT_TYPE_LABELS[type]} account`}>
+          All {ACCOUNT_TYPE_LABELS[type]}
+        </button>
+      ))}
+      <button onClick={onManage} className="ml-auto text-[10px] font-bold text-indigo-500 hover:text-indigo-700">Manage Accounts</button>
+    </div>
+  );
+};
+
+export default AccountFilter;
@@ -0,0 +1,80 @@
+import React from 'react';
+import { Wallet, AlertTriangle } from 'lucide-react';
+import { AccountSummary, BaseCurrency } from '../types';
+import { ACCOUNT_TYPE_LABELS, accountMatchKey } from '../services/accounts';
+import { consolidateStats } from '../services/fxRates';
+
+interface AccountSummaryTableProps {
+  summaries: AccountSummary[];
+  baseCurrency: BaseCurrency;
+  usdCad: number | null;
+  selected: string[];
+  onSelect: (name: string) => void;
+}
+
+const formatMoney = (value: number, currency: string) => {
+  const symbol = currency === 'CAD' ? 'C$' : '$';
+  return `${value < 0 ? '-' : ''}${symbol}${Math.abs(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+};
+
+const AccountSummaryTable: React.FC<AccountSummaryTableProps> = ({ summaries, baseCurrency, usdCad, selected, onSelect }) => {
+  const selectedKeys = new Set(selected.map(accountMatchKey));
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
+      <h3 className="text-slate-800 text-xs font-black uppercase tracking-widest mb-4 flex items-center gap-2">
+        <Wallet size={14} className="text-indigo-500" /> Accounts <span className="text-slate-400">({baseCurrency})</span>
+      </h3>
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs text-left">
+          <thead className="text-slate-400 uppercase tracking-wider text-[10px]">
+            <tr>
+              <th className="px-3 py-2">Account</th>
+              <th className="px-3 py-2">Type</th>
+              <th className="px-3 py-2 text-right">Positions</th>
+              <th className="px-3 py-2 text-right">Cost Basis</th>
+              <th className="px-3 py-2 text-right">Value</th>
+              <th className="px-3 py-2 text-right">Unrealized</th>
+              <th className="px-3 py-2 text-right">Realized</th>
+              <th className="px-3 py-2 text-right">Income</th>
+              <th className="px-3 py-2 text-right">Cash</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {summaries.map(s => {
+              const total = consolidateStats(s.stats, baseCurrency, usdCad);
+              const money = (value: number) => (total ? formatMoney(value, baseCurrency) : '-');
+              return (
+                <tr
+                  key={s.name}
+                  onClick={() => onSelect(s.name)}
+                  className={`cursor-pointer hover:bg-slate-50 ${selectedKeys.has(accountMatchKey(s.name)) ? 'bg-indigo-50/60' : ''}`}
+                >
+                  <td className="px-3 py-2 font-bold text-slate-700">
+                    {s.name || '(blank)'}
+                    {s.account?.institution && <span className="block text-[10px] font-medium text-slate-400">{s.account.institution}</span>}
+                  </td>
+                  <td className="px-3 py-2 text-slate-500">
+                    {s.account ? ACCOUNT_TYPE_LABELS[s.account.type] : (
+                      <span className="flex items-center gap-1 text-amber-600 font-bold" title="Not in the account registry"><AlertTriangle size={12} /> Unregistered</span>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-right text-slate-600">{s.openPositions}</td>
+                  <td className="px-3 py-2 text-right text-slate-600">{total ? money(total.totalCostBasis) : <span className="text-amber-600" title="Add a USD/CAD rate to convert">No FX rate</span>}</td>
+                  <td className="px-3 py-2 text-right font-bold text-slate-900">{money(total?.totalValue || 0)}</td>
+                  <td className={`px-3 py-2 text-right font-bold ${(total?.totalUnrealizedPL || 0) >= 0 ? 'text-emerald-600' : 'text-rose-600'}`}>{money(total?.totalUnrealizedPL || 0)}</td>
+                  <td className={`px-3 py-2 text-right ${(total?.totalRealizedPL || 0) >= 0 ? 'text-emerald-600' : 'text-rose-600'}`}>{money(total?.totalRealizedPL || 0)}</td>
+                  <td className="px-3 py-2 text-right text-slate-600">{money(total?.totalIncome || 0)}</td>
+                  <td className="px-3 py-2 text-right text-slate-600">{money(total?.totalCash || 0)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-[10px] text-slate-400 mt-3">Click an account to add it to the filter.</p>
+    </div>
+  );
+};
+
+export default AccountSummaryTable;
@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { X, Wallet, Trash2, Plus, AlertTriangle, Check } from 'lucide-react';
+import { Account, AccountType, Transaction } from '../types';
+import { ACCOUNT_TYPES, ACCOUNT_TYPE_LABELS, createAccount, findAccount, findUnregisteredAccounts, guessAccountType } from '../services/accounts';
+
+interface AccountsModalProps {
+  accounts: Account[];
+  transactions: Transaction[];
+  onSaveAccount: (account: Account) => void;
+  onDeleteAccount: (id: string) => void;
+  onMergeAccount: (from: string, to: string) => void;
+  onClose: () => void;
+}
+
+const emptyDraft = { name: '', type: 'TFSA' as AccountType, institution: '', currency: 'CAD' };
+
+const AccountsModal: React.FC<AccountsModalProps> = ({ accounts, transactions, onSaveAccount, onDeleteAccount, onMergeAccount, onClose }) => {
+  const [draft, setDraft] = useState(emptyDraft);
+  const [error, setError] = useState<string | null>(null);
+
+  const unregistered = findUnregisteredAccounts(transactions, accounts);
+  const countFor = (account: Account) => transactions.filter(t => findAccount(t.account, [account])).length;
+
+  const addAccount = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.name.trim()) return;
+    if (findAccount(draft.name, accounts)) {
+      setError(`"${draft.name.trim()}" matches an existing account.`);
+      return;
+    }
+    onSaveAccount(createAccount(draft.name, draft));
+    setDraft(emptyDraft);
+    setError(null);
+  };
+
+  const updateField = (account: Account, field: keyof Omit<Account, 'id'>, value: string) => {
+    onSaveAccount({ ...account, [field]: value });
+  };
+
+  const renameAccount = (account: Account, input: HTMLInputElement) => {
+    const name = input.value.trim();
+    const clash = findAccount(name, accounts);
+    if (!name || (clash && clash.id !== account.id)) {
+      input.value = account.name;
+      return;
+    }
+    if (name !== account.name) updateField(account, 'name', name);
+  };
+
+  const deleteAccount = (account: Account) => {
+    const count = countFor(account);
+    if (count > 0 && !window.confirm(`${count} transactions use "${account.name}". Remove it from the registry anyway? The transactions are kept.`)) return;
+    onDeleteAccount(account.id);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-3xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="bg-slate-900 p-6 flex justify-between items-center shrink-0">
+          <h2 className="text-white text-xl font-bold flex items-center gap-2">
+            <Wallet className="text-emerald-400" /> Accounts
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 flex-1 overflow-y-auto space-y-6">
+          {unregistered.length > 0 && (
+            <div className="p-4 bg-amber-50 border border-amber-100 rounded-xl">
+              <p className="text-xs font-bold text-amber-800 flex items-center gap-1.5 mb-3">
+                <AlertTriangle size={14} /> Account names found in transactions but not registered
+              </p>
+              <div className="space-y-2">
+                {unregistered.map(u => (
+                  <div key={u.name} className="flex items-center justify-between gap-3 text-xs bg-white rounded-lg px-3 py-2 border border-amber-100">
+                    <span className="font-bold text-slate-700">
+                      {u.name || <span className="italic text-slate-400">(blank)</span>} <span className="text-slate-400 font-medium">· {u.count} transactions</span>
+                    </span>
+                    <div className="flex items-center gap-2">
+                      {u.name && (
+                        <button onClick={() => onSaveAccount(createAccount(u.name))} className="flex items-center gap-1 px-2 py-1 rounded-lg font-bold text-indigo-600 hover:bg-indigo-50" title={`Register as ${ACCOUNT_TYPE_LABELS[guessAccountType(u.name)]}`}>
+                          <Check size={12} /> Register
+                        </button>
+                      )}
+                      {accounts.length > 0 && (
+                        <select
+                          value=""
+                          onChange={e => e.target.value && onMergeAccount(u.name, e.target.value)}
+                          className="px-2 py-1 border rounded-lg text-xs bg-white"
+                        >
+                          <option value="">Merge into…</option>
+                          {accounts.map(a => <option key={a.id} value={a.name}>{a.name}</option>)}
+                        </select>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs text-left">
+              <thead className="text-slate-400 uppercase tracking-wider text-[10px]">
+                <tr>
+                  <th className="px-2 py-2">Name</th>
+                  <th className="px-2 py-2">Type</th>
+                  <th className="px-2 py-2">Institution</th>
+                  <th className="px-2 py-2">Currency</th>
+                  <th className="px-2 py-2 text-right">Txns</th>
+                  <th className="px-2 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {accounts.length === 0 && (
+                  <tr><td colSpan={6} className="px-2 py-6 text-center text-slate-300 italic">No accounts registered yet.</td></tr>
+                )}
+                {accounts.map(a => (
+                  <tr key={a.id}>
+                    <td className="px-2 py-2">
+                      <input defaultValue={a.name} onBlur={e => renameAccount(a, e.target)} className="w-full px-2 py-1 border rounded-lg font-bold text-slate-700" />
+                    </td>
+                    <td className="px-2 py-2">
+                      <select value={a.type} onChange={e => updateField(a, 'type', e.target.value)} className="w-full px-2 py-1 border rounded-lg bg-white">
+                        {ACCOUNT_TYPES.map(type => <option key={type} value={type}>{ACCOUNT_TYPE_LABELS[type]}</option>)}
+                      </select>
+                    </td>
+                    <td className="px-2 py-2">
+                      <input defaultValue={a.institution} placeholder="Wealthsimple" onBlur={e => updateField(a, 'institution', e.target.value.trim())} className="w-full px-2 py-1 border rounded-lg" />
+                    </td>
+                    <td className="px-2 py-2">
+                      <select value={a.currency} onChange={e => updateField(a, 'currency', e.target.value)} className="px-2 py-1 border rounded-lg bg-white">
+                        <option value="CAD">CAD</option>
+                        <option value="USD">USD</option>
+                      </select>
+                    </td>
+                    <td className="px-2 py-2 text-right text-slate-500">{countFor(a)}</td>
+                    <td className="px-2 py-2 text-right">
+                      <button onClick={() => deleteAccount(a)} className="text-slate-300 hover:text-rose-600"><Trash2 size={14} /></button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <form onSubmit={addAccount} className="flex flex-wrap gap-2 items-center">
+            <input placeholder="Account name" value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value, type: guessAccountType(e.target.value) })} className="flex-1 min-w-[8rem] px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-xs" />
+            <select value={draft.type} onChange={e => setDraft({ ...draft, type: e.target.value as AccountType })} className="px-3 py-2 border rounded-lg text-xs bg-white">
+              {ACCOUNT_TYPES.map(type => <option key={type} value={type}>{ACCOUNT_TYPE_LABELS[type]}</option>)}
+            </select>
+            <input placeholder="Institution" value={draft.institution} onChange={e => setDraft({ ...draft, institution: e.target.value })} className="w-32 px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-xs" />
+            <select value={draft.currency} onChange={e => setDraft({ ...draft, currency: e.target.value })} className="px-3 py-2 border rounded-lg text-xs bg-white">
+              <option value="CAD">CAD</option>
+              <option value="USD">USD</option>
+            </select>
+            <button type="submit" className="px-3 py-2 bg-slate-900 text-white rounded-lg"><Plus size={14} /></button>
+          </form>
+          {error && <p className="text-[10px] text-rose-600 font-bold">{error}</p>}
+          <p className="text-[10px] text-slate-400">Names are matched without regard to case or spacing, so "tfsa" and "TFSA" are the same account. Renaming an account renames its transactions.</p>
+        </div>
+
+        <div className="p-6 border-t border-slate-100 bg-slate-50 shrink-0 flex justify-end">
+          <button onClick={onClose} className="px-5 py-2 bg-slate-900 text-white font-medium hover:bg-slate-800 rounded-lg">Done</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AccountsModal;
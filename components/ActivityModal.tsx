@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { X, History, Undo2, Redo2, ChevronDown, ChevronRight, RotateCcw } from 'lucide-react';
+import { ChangeAction, ChangeLog } from '../types';
+import { CHANGE_SOURCE_LABELS, HISTORY_RETENTION_OPTIONS, MAX_CHANGE_BATCHES, batchStatus, canRedo, canUndo, describeTransaction } from '../services/changeLog';
+
+interface ActivityModalProps {
+  log: ChangeLog;
+  notice: string | null; // Result of the last undo, redo or revert
+  retentionDays: number; // 0 keeps everything up to the batch limit
+  onRetentionChange: (days: number) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  onRevert: (batchId: string) => void;
+  onJumpToTransaction: (id: string) => void;
+  onClose: () => void;
+}
+
+const ACTION_STYLES: Record<ChangeAction, string> = {
+  create: 'bg-emerald-50 text-emerald-700',
+  update: 'bg-indigo-50 text-indigo-700',
+  delete: 'bg-rose-50 text-rose-700',
+};
+
+const SHOWN_BATCHES = 100;
+
+const retentionLabel = (days: number) => (days === 0 ? `Last ${MAX_CHANGE_BATCHES} changes` : days === 365 ? '1 year' : `${days} days`);
+
+const ActivityModal: React.FC<ActivityModalProps> = ({ log, notice, retentionDays, onRetentionChange, onUndo, onRedo, onRevert, onJumpToTransaction, onClose }) => {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const batches = [...log.batches].reverse().slice(0, SHOWN_BATCHES);
+
+  // A shorter period deletes older batches, which cannot be undone afterwards
+  const changeRetention = (days: number) => {
+    const shorter = days > 0 && (retentionDays === 0 || days < retentionDays);
+    if (!shorter || window.confirm(`Delete changes older than ${retentionLabel(days)} from the history? They can no longer be undone or reverted.`)) {
+      onRetentionChange(days);
+    }
+  };
+
+  const confirmRevert = (batchId: string, label: string, count: number) => {
+    if (window.confirm(`Revert "${label}"? This undoes ${count} change${count === 1 ? '' : 's'}; rows edited since are left as they are.`)) {
+      onRevert(batchId);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-3xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="bg-slate-900 p-6 flex justify-between items-center shrink-0">
+          <h2 className="text-white text-xl font-bold flex items-center gap-2">
+            <History className="text-indigo-400" /> Activity
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 flex-1 overflow-y-auto">
+          <div className="flex items-center justify-between mb-4">
+            <p className="text-slate-600 text-sm">Every change to your transactions, newest first.</p>
+            <div className="flex gap-1 shrink-0">
+              <button onClick={onUndo} disabled={!canUndo(log)} className="flex items-center gap-1 px-2.5 py-1 rounded-lg text-xs font-bold text-indigo-600 hover:bg-indigo-50 disabled:opacity-30">
+                <Undo2 size={14} /> Undo
+              </button>
+              <button onClick={onRedo} disabled={!canRedo(log)} className="flex items-center gap-1 px-2.5 py-1 rounded-lg text-xs font-bold text-indigo-600 hover:bg-indigo-50 disabled:opacity-30">
+                <Redo2 size={14} /> Redo
+              </button>
+            </div>
+          </div>
+
+          {notice && <div className="mb-4 px-4 py-2 rounded-xl bg-amber-50 text-amber-700 text-xs font-medium">{notice}</div>}
+
+          {batches.length === 0 ? (
+            <div className="h-40 flex items-center justify-center text-slate-400 text-sm">No changes recorded yet.</div>
+          ) : (
+            <div className="space-y-2">
+              {batches.map(batch => {
+                const status = batchStatus(log, batch.id);
+                const isOpen = expanded === batch.id;
+                return (
+                  <div key={batch.id} className="border border-slate-200 rounded-xl overflow-hidden">
+                    <div className="flex items-center gap-3 px-4 py-2 bg-slate-50">
+                      <button onClick={() => setExpanded(isOpen ? null : batch.id)} className="flex items-center gap-2 flex-1 min-w-0 text-left">
+                        {isOpen ? <ChevronDown size={14} className="text-slate-400 shrink-0" /> : <ChevronRight size={14} className="text-slate-400 shrink-0" />}
+                        <span className={`text-xs font-bold truncate ${status ? 'text-slate-400 line-through' : 'text-slate-700'}`}>{batch.label}</span>
+                      </button>
+                      <span className="text-[10px] font-bold uppercase text-slate-400 shrink-0">{CHANGE_SOURCE_LABELS[batch.source]}</span>
+                      <span className="text-[10px] text-slate-400 shrink-0">{new Date(batch.timestamp).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}</span>
+                      {batch.kind === 'edit' && !status && (
+                        <button onClick={() => confirmRevert(batch.id, batch.label, batch.changes.length)} className="flex items-center gap-1 px-2 py-1 rounded-md text-[10px] font-bold bg-white border border-slate-200 text-slate-600 hover:text-rose-600 shrink-0">
+                          <RotateCcw size={12} /> Revert
+                        </button>
+                      )}
+                      {status && <span className="text-[10px] font-bold uppercase text-amber-600 shrink-0">{status}</span>}
+                    </div>
+                    {isOpen && (
+                      <table className="w-full text-xs">
+                        <tbody className="divide-y divide-slate-100">
+                          {batch.changes.map(change => {
+                            const row = change.after || change.before!;
+                            return (
+                              <tr key={change.transactionId} className="text-slate-600">
+                                <td className="px-4 py-2 w-20">
+                                  <span className={`px-1.5 py-0.5 rounded text-[10px] font-bold uppercase ${ACTION_STYLES[change.action]}`}>{change.action}</span>
+                                </td>
+                                <td className="px-4 py-2">
+                                  {change.after ? (
+                                    <button onClick={() => onJumpToTransaction(change.transactionId)} className="hover:text-indigo-600 hover:underline">{describeTransaction(row)}</button>
+                                  ) : describeTransaction(row)}
+                                </td>
+                                <td className="px-4 py-2 text-right">{row.shares.toLocaleString()} sh @ {row.currency} {row.price.toFixed(4)}</td>
+                                <td className="px-4 py-2 text-right">{row.account}</td>
+                              </tr>
+                            );
+                          })}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-slate-100 bg-slate-50 shrink-0 flex justify-between items-center">
+          <label className="flex items-center gap-2 text-xs text-slate-500">
+            Keep history for
+            <select value={retentionDays} onChange={e => changeRetention(Number(e.target.value))} className="px-2 py-1 border border-slate-200 rounded-md bg-white text-slate-700 outline-none focus:ring-2 focus:ring-indigo-500">
+              {HISTORY_RETENTION_OPTIONS.map(days => <option key={days} value={days}>{retentionLabel(days)}</option>)}
+            </select>
+          </label>
+          <button onClick={onClose} className="px-5 py-2 bg-slate-900 text-white font-medium hover:bg-slate-800 rounded-lg">
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ActivityModal;
@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { X, Bell, BellRing, Plus, Trash2 } from 'lucide-react';
+import { AlertRuleType, AlertState } from '../types';
+import { ALERT_RULE_TYPES, ALERT_RULE_LABELS, browserNotificationsSupported, createAlertRule, describeRule, isPercentRule, requestBrowserNotifications } from '../services/alerts';
+
+interface AlertsModalProps {
+  state: AlertState;
+  onChange: (update: (prev: AlertState) => AlertState) => void;
+  symbols: string[];
+  initialSymbol?: string;
+  onClose: () => void;
+}
+
+const AlertsModal: React.FC<AlertsModalProps> = ({ state, onChange, symbols, initialSymbol, onClose }) => {
+  const [symbol, setSymbol] = useState(initialSymbol || '');
+  const [type, setType] = useState<AlertRuleType>('BELOW');
+  const [threshold, setThreshold] = useState('');
+  const [permissionError, setPermissionError] = useState<string | null>(null);
+
+  const addRule = () => {
+    const value = Number(threshold);
+    if (!symbol.trim() || !(value > 0)) return;
+    onChange(prev => ({ ...prev, rules: [...prev.rules, createAlertRule(symbol, type, value)] }));
+    setThreshold('');
+  };
+
+  const toggleBrowser = async (enabled: boolean) => {
+    setPermissionError(null);
+    if (enabled && !(await requestBrowserNotifications())) {
+      setPermissionError('The browser blocked notifications. Allow them in the site settings and try again.');
+      return;
+    }
+    onChange(prev => ({ ...prev, browserNotifications: enabled }));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-3xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="bg-slate-900 p-6 flex justify-between items-center shrink-0">
+          <h2 className="text-white text-xl font-bold flex items-center gap-2">
+            <Bell className="text-emerald-400" /> Price Alerts
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 flex-1 overflow-y-auto space-y-6">
+          <div>
+            <h3 className="text-slate-800 text-xs font-black uppercase tracking-widest mb-2">Rules</h3>
+            <div className="flex flex-wrap gap-2 mb-3">
+              <input
+                list="alert-symbols"
+                value={symbol}
+                onChange={e => setSymbol(e.target.value)}
+                placeholder="Symbol"
+                className="w-32 px-3 py-2 border rounded-lg text-xs uppercase focus:ring-2 focus:ring-blue-500 outline-none"
+              />
+              <datalist id="alert-symbols">
+                {symbols.map(s => <option key={s} value={s} />)}
+              </datalist>
+              <select value={type} onChange={e => setType(e.target.value as AlertRuleType)} className="px-3 py-2 border rounded-lg text-xs bg-white">
+                {ALERT_RULE_TYPES.map(t => <option key={t} value={t}>{ALERT_RULE_LABELS[t]}</option>)}
+              </select>
+              <input
+                type="number"
+                step="any"
+                min="0"
+                value={threshold}
+                onChange={e => setThreshold(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && addRule()}
+                placeholder={isPercentRule(type) ? 'Percent' : 'Price'}
+                className="w-28 px-3 py-2 border rounded-lg text-xs focus:ring-2 focus:ring-blue-500 outline-none"
+              />
+              <button onClick={addRule} className="flex items-center gap-1 px-3 py-2 bg-slate-900 text-white rounded-lg text-xs font-bold">
+                <Plus size={14} /> Add Rule
+              </button>
+            </div>
+            {state.rules.length === 0 ? (
+              <p className="text-xs text-slate-300 italic p-6 text-center border-2 border-dashed border-slate-100 rounded-2xl">No alert rules yet.</p>
+            ) : (
+              <div className="divide-y divide-slate-100">
+                {state.rules.map(rule => (
+                  <div key={rule.id} className="flex items-center gap-3 py-2 text-xs">
+                    <input
+                      type="checkbox"
+                      checked={rule.enabled}
+                      onChange={e => onChange(prev => ({ ...prev, rules: prev.rules.map(r => (r.id === rule.id ? { ...r, enabled: e.target.checked, isTriggered: false } : r)) }))}
+                      title="Enabled"
+                    />
+                    <span className={`flex-1 ${rule.enabled ? 'text-slate-700' : 'text-slate-400 line-through'}`}>{describeRule(rule)}</span>
+                    {rule.isTriggered && <span className="text-[9px] font-black uppercase px-1.5 py-0.5 rounded bg-amber-50 text-amber-600">Triggered</span>}
+                    <button
+                      onClick={() => onChange(prev => ({ ...prev, rules: prev.rules.filter(r => r.id !== rule.id) }))}
+                      className="text-slate-300 hover:text-rose-500"
+                      title="Delete rule"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+            <p className="text-[10px] text-slate-400 mt-2">
+              Rules are checked on every price refresh. Price and cost rules fire once when crossed and again after the price comes back.
+            </p>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-slate-800 text-xs font-black uppercase tracking-widest">Notifications</h3>
+              {state.notifications.length > 0 && (
+                <button
+                  onClick={() => window.confirm('Clear all notifications?') && onChange(prev => ({ ...prev, notifications: [] }))}
+                  className="text-[10px] font-bold text-rose-500 hover:text-rose-700"
+                >
+                  Clear
+                </button>
+              )}
+            </div>
+            {state.notifications.length === 0 ? (
+              <p className="text-xs text-slate-300 italic p-6 text-center border-2 border-dashed border-slate-100 rounded-2xl">Nothing has triggered yet.</p>
+            ) : (
+              <div className="divide-y divide-slate-100 max-h-64 overflow-y-auto">
+                {state.notifications.map(n => (
+                  <div key={n.id} className={`flex items-start gap-3 py-2 text-xs ${n.read ? '' : 'bg-indigo-50/50'}`}>
+                    <BellRing size={14} className={`mt-0.5 shrink-0 ${n.read ? 'text-slate-300' : 'text-indigo-500'}`} />
+                    <span className="flex-1 text-slate-700">{n.message}</span>
+                    <span className="text-[10px] text-slate-400 shrink-0">{new Date(n.triggeredAt).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {browserNotificationsSupported() && (
+            <div>
+              <label className="flex items-center gap-2 text-xs font-bold text-slate-700">
+                <input type="checkbox" checked={state.browserNotifications} onChange={e => toggleBrowser(e.target.checked)} />
+                Also show browser notifications
+              </label>
+              {permissionError && <p className="text-[10px] text-rose-500 mt-1">{permissionError}</p>}
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-slate-100 bg-slate-50 shrink-0 flex justify-end">
+          <button onClick={onClose} className="px-5 py-2 bg-slate-900 text-white font-medium hover:bg-slate-800 rounded-lg">Done</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AlertsModal;
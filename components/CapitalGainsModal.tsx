@@ -0,0 +1,137 @@
+import React, { useMemo, useState } from 'react';
+import { X, Landmark, AlertTriangle } from 'lucide-react';
+import { Account, Transaction } from '../types';
+import { buildCapitalGainsReport } from '../services/acbReport';
+
+interface CapitalGainsModalProps {
+  transactions: Transaction[];
+  accounts: Account[];
+  onClose: () => void;
+}
+
+const formatMoney = (value: number, currency: string) => {
+  const symbol = currency === 'CAD' ? 'C$' : '$';
+  return `${value < 0 ? '-' : ''}${symbol}${Math.abs(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+};
+
+const CapitalGainsModal: React.FC<CapitalGainsModalProps> = ({ transactions, accounts, onClose }) => {
+  const report = useMemo(() => buildCapitalGainsReport(transactions, accounts), [transactions, accounts]);
+  const years = useMemo(() => Array.from(new Set(report.map(r => r.year))), [report]);
+  const [selectedYear, setSelectedYear] = useState<number | null>(years[0] ?? null);
+
+  const yearSummaries = report.filter(r => r.year === selectedYear);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-5xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="bg-slate-900 p-6 flex justify-between items-center shrink-0">
+          <h2 className="text-white text-xl font-bold flex items-center gap-2">
+            <Landmark className="text-emerald-400" /> Capital Gains (ACB)
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 flex-1 overflow-y-auto">
+          <p className="text-slate-600 text-sm mb-4">
+            Dispositions from non-registered accounts, using the adjusted cost base pooled across all taxable accounts.
+            TFSA, RRSP, FHSA and other registered accounts are excluded.
+          </p>
+
+          {years.length === 0 ? (
+            <div className="h-40 flex items-center justify-center text-slate-300 text-xs italic border-2 border-dashed border-slate-100 rounded-2xl">
+              No taxable dispositions recorded.
+            </div>
+          ) : (
+            <>
+              <div className="flex flex-wrap gap-2 mb-6">
+                {years.map(year => (
+                  <button
+                    key={year}
+                    onClick={() => setSelectedYear(year)}
+                    className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-colors ${year === selectedYear ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+                  >
+                    {year}
+                  </button>
+                ))}
+              </div>
+
+              {yearSummaries.map(summary => (
+                <div key={`${summary.year}_${summary.currency}`} className="mb-8">
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+                    {[
+                      { label: 'Proceeds', value: summary.totalProceeds },
+                      { label: 'ACB', value: summary.totalAcb },
+                      { label: 'Outlays', value: summary.totalOutlays },
+                      { label: 'Gain / Loss', value: summary.totalGainLoss },
+                    ].map(card => (
+                      <div key={card.label} className="bg-slate-50 rounded-xl p-4 border border-slate-100">
+                        <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">{card.label} ({summary.currency})</span>
+                        <p className={`text-lg font-black ${card.label === 'Gain / Loss' ? (card.value >= 0 ? 'text-emerald-600' : 'text-rose-600') : 'text-slate-800'}`}>
+                          {formatMoney(card.value, summary.currency)}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+
+                  {summary.totalDeniedLoss > 0 && (
+                    <div className="mb-4 flex items-start gap-3 p-3 bg-amber-50 border border-amber-100 rounded-lg">
+                      <AlertTriangle size={16} className="text-amber-500 shrink-0 mt-0.5" />
+                      <p className="text-[10px] text-amber-700 leading-normal font-medium">
+                        {formatMoney(summary.totalDeniedLoss, summary.currency)} of losses were denied as superficial losses and added to the ACB of the repurchased shares.
+                      </p>
+                    </div>
+                  )}
+
+                  <div className="overflow-x-auto border border-slate-200 rounded-xl">
+                    <table className="w-full text-xs text-left">
+                      <thead className="bg-slate-50 text-slate-400 uppercase tracking-wider text-[10px]">
+                        <tr>
+                          <th className="px-4 py-3">Date</th>
+                          <th className="px-4 py-3">Symbol</th>
+                          <th className="px-4 py-3">Account</th>
+                          <th className="px-4 py-3 text-right">Shares</th>
+                          <th className="px-4 py-3 text-right">Proceeds</th>
+                          <th className="px-4 py-3 text-right">ACB</th>
+                          <th className="px-4 py-3 text-right">Outlays</th>
+                          <th className="px-4 py-3 text-right">Denied Loss</th>
+                          <th className="px-4 py-3 text-right">Gain / Loss</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-100">
+                        {summary.dispositions.map(d => (
+                          <tr key={d.transactionId} className="hover:bg-slate-50">
+                            <td className="px-4 py-2.5 text-slate-500">{d.date}</td>
+                            <td className="px-4 py-2.5 font-bold text-slate-800">{d.symbol}</td>
+                            <td className="px-4 py-2.5 text-slate-500 uppercase">{d.account}</td>
+                            <td className="px-4 py-2.5 text-right text-slate-700">{d.shares.toLocaleString()}</td>
+                            <td className="px-4 py-2.5 text-right text-slate-600">{formatMoney(d.proceeds, d.currency)}</td>
+                            <td className="px-4 py-2.5 text-right text-slate-600">{formatMoney(d.acb, d.currency)}</td>
+                            <td className="px-4 py-2.5 text-right text-slate-600">{formatMoney(d.outlays, d.currency)}</td>
+                            <td className="px-4 py-2.5 text-right text-amber-600">{d.deniedLoss > 0 ? formatMoney(d.deniedLoss, d.currency) : '-'}</td>
+                            <td className={`px-4 py-2.5 text-right font-bold ${d.gainLoss >= 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
+                              {formatMoney(d.gainLoss, d.currency)}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-slate-100 bg-slate-50 shrink-0 flex justify-end">
+          <button onClick={onClose} className="px-5 py-2 bg-slate-900 text-white font-medium hover:bg-slate-800 rounded-lg">
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CapitalGainsModal;
@@ -0,0 +1,48 @@
+import React from 'react';
+import { Banknote } from 'lucide-react';
+import { CashBalance } from '../types';
+
+interface CashBalancesProps {
+  balances: CashBalance[];
+}
+
+const formatMoney = (value: number, currency: string) => {
+  const symbol = currency === 'CAD' ? 'C$' : '$';
+  return `${value < 0 ? '-' : ''}${symbol}${Math.abs(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+};
+
+const CashBalances: React.FC<CashBalancesProps> = ({ balances }) => (
+  <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
+    <h3 className="text-slate-800 text-xs font-black uppercase tracking-widest mb-4 flex items-center gap-2">
+      <Banknote size={14} className="text-emerald-500" /> Cash by Account
+    </h3>
+    <div className="overflow-x-auto">
+      <table className="w-full text-xs text-left">
+        <thead className="text-slate-400 uppercase tracking-wider text-[10px]">
+          <tr>
+            <th className="px-3 py-2">Account</th>
+            <th className="px-3 py-2 text-right">Deposits</th>
+            <th className="px-3 py-2 text-right">Withdrawals</th>
+            <th className="px-3 py-2 text-right">Balance</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100">
+          {balances.map(b => (
+            <tr key={`${b.account}_${b.currency}`}>
+              <td className="px-3 py-2 font-bold text-slate-700">
+                {b.account} <span className="text-[9px] font-black px-1 rounded bg-slate-100 text-slate-500">{b.currency}</span>
+              </td>
+              <td className="px-3 py-2 text-right text-slate-600">{formatMoney(b.deposits, b.currency)}</td>
+              <td className="px-3 py-2 text-right text-slate-600">{formatMoney(b.withdrawals, b.currency)}</td>
+              <td className={`px-3 py-2 text-right font-bold ${b.balance < 0 ? 'text-rose-600' : 'text-slate-900'}`} title={b.balance < 0 ? 'Overdrawn: a deposit may be missing' : undefined}>
+                {formatMoney(b.balance, b.currency)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  </div>
+);
+
+export default CashBalances;
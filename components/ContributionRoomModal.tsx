@@ -0,0 +1,180 @@
+import React, { useMemo, useState } from 'react';
+import { X, PiggyBank, AlertTriangle } from 'lucide-react';
+import { Account, ContributionPlan, ContributionRoomSettings, FxRateHistory, Transaction } from '../types';
+import { CONTRIBUTION_PLANS, buildContributionRoom, defaultRoomSettings, plansInUse } from '../services/contributionRoom';
+
+interface ContributionRoomModalProps {
+  transactions: Transaction[];
+  accounts: Account[];
+  fxRates: FxRateHistory;
+  settings: Partial<Record<ContributionPlan, ContributionRoomSettings>>;
+  onSaveSettings: (plan: ContributionPlan, settings: ContributionRoomSettings | null) => void;
+  onClose: () => void;
+}
+
+const formatCad = (value: number) =>
+  `${value < 0 ? '-' : ''}C$${Math.abs(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const ContributionRoomModal: React.FC<ContributionRoomModalProps> = ({ transactions, accounts, fxRates, settings, onSaveSettings, onClose }) => {
+  const inUse = useMemo(() => plansInUse(transactions, accounts), [transactions, accounts]);
+  const [plan, setPlan] = useState<ContributionPlan>(
+    CONTRIBUTION_PLANS.find(p => settings[p]) || inUse[0] || 'TFSA'
+  );
+  const planSettings = settings[plan];
+
+  const report = useMemo(
+    () => (planSettings ? buildContributionRoom(plan, planSettings, transactions, accounts, fxRates) : null),
+    [plan, planSettings, transactions, accounts, fxRates]
+  );
+
+  const update = (changes: Partial<ContributionRoomSettings>) => {
+    if (planSettings) onSaveSettings(plan, { ...planSettings, ...changes });
+  };
+
+  const setAnnualRoom = (year: number, value: string) => {
+    if (!planSettings) return;
+    const annualRoom = { ...planSettings.annualRoom };
+    if (value === '') delete annualRoom[year];
+    else annualRoom[year] = Number(value);
+    update({ annualRoom });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-4xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="bg-slate-900 p-6 flex justify-between items-center shrink-0">
+          <h2 className="text-white text-xl font-bold flex items-center gap-2">
+            <PiggyBank className="text-emerald-400" /> Contribution Room
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 flex-1 overflow-y-auto space-y-6">
+          <div className="flex gap-2">
+            {CONTRIBUTION_PLANS.map(p => (
+              <button
+                key={p}
+                onClick={() => setPlan(p)}
+                className={`px-4 py-2 rounded-lg text-xs font-bold transition-colors ${plan === p ? 'bg-indigo-600 text-white' : 'bg-white border border-slate-200 text-slate-600'}`}
+              >
+                {p}
+                {!settings[p] && inUse.includes(p) && <span className="ml-1.5 text-amber-500">•</span>}
+              </button>
+            ))}
+          </div>
+
+          {!planSettings ? (
+            <div className="p-6 border-2 border-dashed border-slate-100 rounded-2xl text-center">
+              <p className="text-xs text-slate-500 mb-4">
+                Enter your {plan} room once, as shown in CRA My Account, and the rest is projected from your deposits and withdrawals.
+              </p>
+              <button onClick={() => onSaveSettings(plan, defaultRoomSettings(plan))} className="px-4 py-2 bg-slate-900 text-white rounded-lg text-xs font-bold">
+                Track {plan} Room
+              </button>
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-slate-700 text-xs font-bold mb-1">Starting Year</label>
+                  <input type="number" value={planSettings.startYear} onChange={e => update({ startYear: Number(e.target.value) || planSettings.startYear })} className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-xs" />
+                </div>
+                <div>
+                  <label className="block text-slate-700 text-xs font-bold mb-1">Room on Jan 1 (CAD)</label>
+                  <input type="number" step="any" value={planSettings.startingRoom} onChange={e => update({ startingRoom: Number(e.target.value) || 0 })} className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-xs" />
+                </div>
+                {plan === 'FHSA' && (
+                  <div>
+                    <label className="block text-slate-700 text-xs font-bold mb-1">Contributed Before Then</label>
+                    <input type="number" step="any" min="0" value={planSettings.priorContributions || 0} onChange={e => update({ priorContributions: Number(e.target.value) || 0 })} className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-xs" />
+                  </div>
+                )}
+              </div>
+
+              {report && (
+                <>
+                  <div className={`p-4 rounded-xl border ${report.availableRoom < 0 ? 'bg-rose-50 border-rose-100' : 'bg-emerald-50 border-emerald-100'}`}>
+                    <p className="text-[10px] font-black uppercase tracking-widest text-slate-500">Room Available This Year</p>
+                    <p className={`text-2xl font-black ${report.availableRoom < 0 ? 'text-rose-600' : 'text-emerald-700'}`}>{formatCad(report.availableRoom)}</p>
+                    {plan === 'TFSA' && report.years.length > 0 && report.years[report.years.length - 1].withdrawals > 0 && (
+                      <p className="text-[10px] text-slate-500 mt-1">
+                        {formatCad(report.years[report.years.length - 1].withdrawals)} withdrawn this year comes back as room next January.
+                      </p>
+                    )}
+                  </div>
+
+                  {report.warnings.length > 0 && (
+                    <div className="p-4 bg-amber-50 border border-amber-100 rounded-xl space-y-1">
+                      {report.warnings.map(w => (
+                        <p key={w} className="text-xs text-amber-800 flex items-start gap-1.5"><AlertTriangle size={12} className="mt-0.5 shrink-0" /> {w}</p>
+                      ))}
+                    </div>
+                  )}
+
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-xs text-left">
+                      <thead className="text-slate-400 uppercase tracking-wider text-[10px]">
+                        <tr>
+                          <th className="px-3 py-2">Year</th>
+                          <th className="px-3 py-2 text-right">Carried In</th>
+                          <th className="px-3 py-2 text-right">New Room</th>
+                          {plan === 'TFSA' && <th className="px-3 py-2 text-right">Restored</th>}
+                          <th className="px-3 py-2 text-right">Contributed</th>
+                          <th className="px-3 py-2 text-right">Withdrawn</th>
+                          <th className="px-3 py-2 text-right">Room Left</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-100">
+                        {report.years.map((y, i) => (
+                          <tr key={y.year} className={y.overContribution > 0 ? 'bg-rose-50/60' : ''}>
+                            <td className="px-3 py-2 font-bold text-slate-700">{y.year}</td>
+                            <td className="px-3 py-2 text-right text-slate-600">{formatCad(y.openingRoom)}</td>
+                            <td className="px-3 py-2 text-right text-slate-600">
+                              {i === 0 ? '-' : (
+                                <input
+                                  type="number"
+                                  step="any"
+                                  min="0"
+                                  placeholder={String(y.newRoom)}
+                                  value={planSettings.annualRoom[y.year] ?? ''}
+                                  onChange={e => setAnnualRoom(y.year, e.target.value)}
+                                  className={`w-24 px-2 py-1 border rounded-lg text-right text-xs ${plan === 'RRSP' && planSettings.annualRoom[y.year] === undefined ? 'border-amber-300' : ''}`}
+                                  title={plan === 'RRSP' ? 'New RRSP room from your notice of assessment' : 'Leave blank to use the CRA limit'}
+                                />
+                              )}
+                            </td>
+                            {plan === 'TFSA' && <td className="px-3 py-2 text-right text-slate-600">{formatCad(y.restoredRoom)}</td>}
+                            <td className="px-3 py-2 text-right text-slate-600">{formatCad(y.contributions)}</td>
+                            <td className="px-3 py-2 text-right text-slate-600">{formatCad(y.withdrawals)}</td>
+                            <td className={`px-3 py-2 text-right font-bold ${y.closingRoom < 0 ? 'text-rose-600' : 'text-slate-900'}`}>{formatCad(y.closingRoom)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  <p className="text-[10px] text-slate-400">
+                    Counts deposits and withdrawals in accounts of this type. Transfers between two {plan} accounts show up as both, so record them as neither.
+                  </p>
+                  <button
+                    onClick={() => window.confirm(`Stop tracking ${plan} room?`) && onSaveSettings(plan, null)}
+                    className="text-[10px] font-bold text-rose-500 hover:text-rose-700"
+                  >
+                    Stop tracking {plan}
+                  </button>
+                </>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-slate-100 bg-slate-50 shrink-0 flex justify-end">
+          <button onClick={onClose} className="px-5 py-2 bg-slate-900 text-white font-medium hover:bg-slate-800 rounded-lg">Done</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ContributionRoomModal;
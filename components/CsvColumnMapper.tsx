@@ -0,0 +1,123 @@
+import React from 'react';
+import { BrokerProfile, CsvField, CsvDateFormat } from '../types';
+import { CSV_FIELDS, REQUIRED_CSV_FIELDS, CsvTable } from '../services/csvImport';
+import { Trash2 } from 'lucide-react';
+
+interface CsvColumnMapperProps {
+  table: CsvTable;
+  profile: BrokerProfile;
+  profiles: BrokerProfile[];
+  onChange: (profile: BrokerProfile) => void;
+  onSelectProfile: (id: string) => void;
+  onDeleteProfile: (id: string) => void;
+}
+
+const FIELD_LABELS: Record<CsvField, string> = {
+  date: 'Date',
+  action: 'Action (Buy/Sell/Dividend)',
+  symbol: 'Symbol',
+  quantity: 'Quantity',
+  price: 'Price',
+  amount: 'Net Amount (Income)',
+  fee: 'Commission / Fees',
+  currency: 'Currency',
+  account: 'Account',
+  exchange: 'Exchange',
+  name: 'Name',
+};
+
+const CsvColumnMapper: React.FC<CsvColumnMapperProps> = ({ table, profile, profiles, onChange, onSelectProfile, onDeleteProfile }) => {
+  const setColumn = (field: CsvField, header: string) => {
+    onChange({ ...profile, columns: { ...profile.columns, [field]: header || undefined } });
+  };
+
+  const selectedProfile = profiles.find(p => p.id === profile.id);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-end gap-2">
+        <div className="flex-1">
+          <label className="block text-slate-700 text-xs font-bold mb-1">Broker Profile</label>
+          <select
+            value={selectedProfile ? profile.id : ''}
+            onChange={e => onSelectProfile(e.target.value)}
+            className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+          >
+            <option value="">Custom mapping</option>
+            {profiles.map(p => <option key={p.id} value={p.id}>{p.name}{p.builtIn ? '' : ' (saved)'}</option>)}
+          </select>
+        </div>
+        {selectedProfile && !selectedProfile.builtIn && (
+          <button onClick={() => onDeleteProfile(profile.id)} className="p-2.5 text-slate-400 hover:text-rose-600 hover:bg-rose-50 rounded-lg" title="Delete saved profile">
+            <Trash2 size={16} />
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        {CSV_FIELDS.map(field => (
+          <div key={field}>
+            <label className="block text-slate-700 text-xs font-bold mb-1">
+              {FIELD_LABELS[field]}{REQUIRED_CSV_FIELDS.includes(field) && <span className="text-rose-500"> *</span>}
+            </label>
+            <select
+              value={profile.columns[field] || ''}
+              onChange={e => setColumn(field, e.target.value)}
+              className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+            >
+              <option value="">—</option>
+              {table.headers.map(h => <option key={h} value={h}>{h}</option>)}
+            </select>
+          </div>
+        ))}
+        <div>
+          <label className="block text-slate-700 text-xs font-bold mb-1">Date Format</label>
+          <select
+            value={profile.dateFormat}
+            onChange={e => onChange({ ...profile, dateFormat: e.target.value as CsvDateFormat })}
+            className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+          >
+            <option value="YMD">YYYY-MM-DD</option>
+            <option value="MDY">MM/DD/YYYY</option>
+            <option value="DMY">DD/MM/YYYY</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-slate-700 text-xs font-bold mb-1">Default Currency</label>
+          <select
+            value={profile.defaultCurrency}
+            onChange={e => onChange({ ...profile, defaultCurrency: e.target.value })}
+            className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+          >
+            <option value="USD">USD</option>
+            <option value="CAD">CAD</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-slate-700 text-xs font-bold mb-1">Default Account</label>
+          <input
+            type="text"
+            value={profile.defaultAccount}
+            onChange={e => onChange({ ...profile, defaultAccount: e.target.value })}
+            className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+          />
+        </div>
+      </div>
+
+      <div className="overflow-x-auto border border-slate-200 rounded-xl">
+        <table className="w-full text-[10px] text-left">
+          <thead className="bg-slate-50 text-slate-400 uppercase tracking-wider">
+            <tr>{table.headers.map(h => <th key={h} className="px-3 py-2 whitespace-nowrap">{h}</th>)}</tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {table.rows.slice(0, 3).map((row, i) => (
+              <tr key={i}>{table.headers.map((h, j) => <td key={h} className="px-3 py-2 text-slate-600 whitespace-nowrap">{row[j]}</td>)}</tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default CsvColumnMapper;
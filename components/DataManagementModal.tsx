@@ -1,14 +1,55 @@
-import React from 'react';
-import { X, Database, Download, Trash2, AlertTriangle, ShieldCheck } from 'lucide-react';
+import React, { useState } from 'react';
+import { X, Database, Download, Upload, Copy, Trash2, AlertTriangle, ShieldCheck, AlertCircle, CheckCircle2 } from 'lucide-react';
+import { Transaction } from '../types';
+import { parseBackup, ParsedBackup, RestoreMode } from '../services/backupService';
 
 interface DataManagementModalProps {
   transactionsCount: number;
   onClearCache: () => void;
   onExport: () => void;
+  onRestore: (transactions: Transaction[], mode: RestoreMode) => { added: number; skipped: number };
+  onFindDuplicates: () => void;
   onClose: () => void;
 }
 
-const DataManagementModal: React.FC<DataManagementModalProps> = ({ transactionsCount, onClearCache, onExport, onClose }) => {
+const DataManagementModal: React.FC<DataManagementModalProps> = ({ transactionsCount, onClearCache, onExport, onRestore, onFindDuplicates, onClose }) => {
+  const [pendingRestore, setPendingRestore] = useState<(ParsedBackup & { fileName: string }) | null>(null);
+  const [restoreMode, setRestoreMode] = useState<RestoreMode>('merge');
+  const [restoreError, setRestoreError] = useState<string | null>(null);
+  const [restoreResult, setRestoreResult] = useState<string | null>(null);
+
+  const handleBackupSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset value to allow selecting the same file again if needed
+    e.target.value = '';
+    if (!file) return;
+
+    setRestoreError(null);
+    setRestoreResult(null);
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        const parsed = parseBackup(reader.result as string);
+        setPendingRestore({ ...parsed, fileName: file.name });
+      } catch (err: any) {
+        setPendingRestore(null);
+        setRestoreError(err?.message || 'Could not read backup file.');
+      }
+    };
+    reader.onerror = () => setRestoreError('Could not read backup file.');
+    reader.readAsText(file);
+  };
+
+  const confirmRestore = () => {
+    if (!pendingRestore) return;
+    if (restoreMode === 'replace' && !window.confirm(`Replace all ${transactionsCount} cached transactions with ${pendingRestore.transactions.length} from the backup?`)) return;
+    const { added, skipped } = onRestore(pendingRestore.transactions, restoreMode);
+    setRestoreResult(restoreMode === 'replace'
+      ? `Restored ${added} transactions.`
+      : `Merged ${added} new transactions, skipped ${skipped} duplicates.`);
+    setPendingRestore(null);
+  };
+
   return (
     <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-[60] p-4">
       <div className="bg-white rounded-2xl shadow-xl w-full max-w-md overflow-hidden flex flex-col relative">
@@ -61,6 +102,90 @@ const DataManagementModal: React.FC<DataManagementModalProps> = ({ transactionsC
                         </div>
                     </button>
 
+                    <button 
+                        onClick={onFindDuplicates}
+                        className="w-full flex items-center justify-between p-4 bg-white border border-slate-200 rounded-xl hover:border-indigo-300 hover:bg-indigo-50/30 transition-all group"
+                    >
+                        <div className="flex items-center gap-3">
+                            <div className="p-2 bg-slate-100 rounded-lg group-hover:bg-indigo-100 transition-colors">
+                                <Copy size={18} className="text-slate-600 group-hover:text-indigo-600" />
+                            </div>
+                            <div className="text-left">
+                                <p className="text-sm font-bold text-slate-800">Find Duplicates</p>
+                                <p className="text-[10px] text-slate-500">Merge or drop repeated transactions</p>
+                            </div>
+                        </div>
+                    </button>
+
+                    <div className="relative">
+                        <input type="file" accept=".json,application/json" className="hidden" id="backup-upload" onChange={handleBackupSelect} />
+                        <label
+                            htmlFor="backup-upload"
+                            className="w-full flex items-center justify-between p-4 bg-white border border-slate-200 rounded-xl hover:border-indigo-300 hover:bg-indigo-50/30 transition-all group cursor-pointer"
+                        >
+                            <div className="flex items-center gap-3">
+                                <div className="p-2 bg-slate-100 rounded-lg group-hover:bg-indigo-100 transition-colors">
+                                    <Upload size={18} className="text-slate-600 group-hover:text-indigo-600" />
+                                </div>
+                                <div className="text-left">
+                                    <p className="text-sm font-bold text-slate-800">Restore Backup</p>
+                                    <p className="text-[10px] text-slate-500">Load a tradetrack_backup.json file</p>
+                                </div>
+                            </div>
+                        </label>
+                    </div>
+
+                    {restoreError && (
+                        <div className="p-3 bg-rose-50 border border-rose-100 text-rose-700 rounded-xl text-xs flex items-start gap-2">
+                            <AlertCircle size={14} className="shrink-0 mt-0.5 text-rose-500" />
+                            <span>{restoreError}</span>
+                        </div>
+                    )}
+
+                    {restoreResult && (
+                        <div className="p-3 bg-emerald-50 border border-emerald-100 text-emerald-700 rounded-xl text-xs flex items-start gap-2">
+                            <CheckCircle2 size={14} className="shrink-0 mt-0.5 text-emerald-500" />
+                            <span>{restoreResult}</span>
+                        </div>
+                    )}
+
+                    {pendingRestore && (
+                        <div className="p-4 bg-slate-50 border border-slate-200 rounded-xl space-y-3">
+                            <div className="text-xs text-slate-600">
+                                <span className="font-bold text-slate-800">{pendingRestore.fileName}</span>: {pendingRestore.transactions.length} valid rows
+                                {pendingRestore.errors.length > 0 && <span className="text-rose-600 font-bold">, {pendingRestore.errors.length} malformed</span>}
+                            </div>
+                            {pendingRestore.errors.length > 0 && (
+                                <ul className="max-h-24 overflow-y-auto text-[10px] text-rose-600 space-y-0.5">
+                                    {pendingRestore.errors.map(err => (
+                                        <li key={err.index}>Row {err.index + 1}: {err.message}</li>
+                                    ))}
+                                </ul>
+                            )}
+                            <div className="flex gap-2">
+                                {(['merge', 'replace'] as RestoreMode[]).map(mode => (
+                                    <button
+                                        key={mode}
+                                        onClick={() => setRestoreMode(mode)}
+                                        className={`flex-1 py-2 rounded-lg text-xs font-bold transition-colors ${restoreMode === mode ? 'bg-indigo-600 text-white' : 'bg-white border border-slate-200 text-slate-600'}`}
+                                    >
+                                        {mode === 'merge' ? 'Merge' : 'Replace All'}
+                                    </button>
+                                ))}
+                            </div>
+                            <div className="flex gap-2">
+                                <button onClick={() => setPendingRestore(null)} className="flex-1 py-2 text-xs font-bold text-slate-600 hover:bg-slate-200 rounded-lg">Cancel</button>
+                                <button
+                                    onClick={confirmRestore}
+                                    disabled={pendingRestore.transactions.length === 0}
+                                    className="flex-1 py-2 text-xs font-bold bg-slate-900 text-white rounded-lg disabled:opacity-50"
+                                >
+                                    Restore
+                                </button>
+                            </div>
+                        </div>
+                    )}
+
                     <div className="relative group">
                         <button 
                             onClick={() => {
@@ -0,0 +1,116 @@
+import React, { useMemo, useState } from 'react';
+import { X, Copy, CheckCircle2 } from 'lucide-react';
+import { Transaction } from '../types';
+import { findDuplicateGroups, resolveDuplicates, DuplicateResolution } from '../services/duplicateDetection';
+
+interface DuplicateFinderModalProps {
+  transactions: Transaction[];
+  onResolve: (transactions: Transaction[]) => void;
+  onClose: () => void;
+}
+
+const RESOLUTION_LABELS: Record<DuplicateResolution, string> = {
+  drop: 'Keep One',
+  merge: 'Merge',
+  ignore: 'Not Duplicates',
+};
+
+const DuplicateFinderModal: React.FC<DuplicateFinderModalProps> = ({ transactions, onResolve, onClose }) => {
+  const groups = useMemo(() => findDuplicateGroups(transactions), [transactions]);
+  const [resolutions, setResolutions] = useState<DuplicateResolution[]>(() => groups.map(() => 'drop'));
+
+  const setResolution = (index: number, resolution: DuplicateResolution) => {
+    setResolutions(prev => prev.map((r, i) => i === index ? resolution : r));
+  };
+
+  const removedCount = groups.reduce((sum, group, i) => sum + (resolutions[i] === 'ignore' ? 0 : group.length - 1), 0);
+
+  const applyResolutions = () => {
+    onResolve(resolveDuplicates(transactions, groups, resolutions));
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-[60] p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-3xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="bg-slate-900 p-6 flex justify-between items-center shrink-0">
+          <h2 className="text-white text-xl font-bold flex items-center gap-2">
+            <Copy className="text-emerald-400" /> Find Duplicates
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 flex-1 overflow-y-auto">
+          {groups.length === 0 ? (
+            <div className="h-40 flex flex-col items-center justify-center gap-2 text-slate-400 text-sm">
+              <CheckCircle2 size={24} className="text-emerald-500" /> No likely duplicates found.
+            </div>
+          ) : (
+            <>
+              <div className="flex items-center justify-between mb-4">
+                <p className="text-slate-600 text-sm">{groups.length} groups of transactions with the same date, symbol, type and account and near-identical shares and price.</p>
+                <div className="flex gap-1 shrink-0">
+                  {(['drop', 'merge'] as DuplicateResolution[]).map(r => (
+                    <button key={r} onClick={() => setResolutions(groups.map(() => r))} className="px-2.5 py-1 rounded-lg text-xs font-bold text-indigo-600 hover:bg-indigo-50">
+                      {RESOLUTION_LABELS[r]} (All)
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-4">
+                {groups.map((group, i) => (
+                  <div key={group[0].id} className="border border-slate-200 rounded-xl overflow-hidden">
+                    <div className="flex items-center justify-between px-4 py-2 bg-slate-50">
+                      <span className="text-xs font-bold text-slate-700">{group[0].date} · {group[0].type} {group[0].symbol} · {group[0].account}</span>
+                      <div className="flex gap-1">
+                        {(Object.keys(RESOLUTION_LABELS) as DuplicateResolution[]).map(r => (
+                          <button
+                            key={r}
+                            onClick={() => setResolution(i, r)}
+                            className={`px-2 py-1 rounded-md text-[10px] font-bold transition-colors ${resolutions[i] === r ? 'bg-indigo-600 text-white' : 'bg-white border border-slate-200 text-slate-600'}`}
+                          >
+                            {RESOLUTION_LABELS[r]}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    <table className="w-full text-xs">
+                      <tbody className="divide-y divide-slate-100">
+                        {group.map((t, j) => (
+                          <tr key={t.id} className={resolutions[i] !== 'ignore' && j > 0 ? 'text-slate-300 line-through' : 'text-slate-600'}>
+                            <td className="px-4 py-2 w-24 font-mono text-[10px]">{t.id}</td>
+                            <td className="px-4 py-2 text-right">{t.shares.toLocaleString()} sh</td>
+                            <td className="px-4 py-2 text-right">{t.currency} {t.price.toFixed(4)}</td>
+                            <td className="px-4 py-2 text-right">{t.exchange}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-slate-100 bg-slate-50 shrink-0 flex justify-end gap-3">
+          <button onClick={onClose} className="px-5 py-2 text-slate-600 font-medium hover:bg-slate-200 rounded-lg">
+            Cancel
+          </button>
+          <button
+            onClick={applyResolutions}
+            disabled={removedCount === 0}
+            className="px-5 py-2 bg-indigo-600 text-white font-medium hover:bg-indigo-700 rounded-lg shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Remove {removedCount} Rows
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DuplicateFinderModal;
@@ -0,0 +1,113 @@
+import React, { useMemo, useState } from 'react';
+import { X, Receipt } from 'lucide-react';
+import { Transaction, FeeGrouping } from '../types';
+import { buildFeeReport, FEE_GROUPINGS } from '../services/feeReport';
+import { SUPPORTED_CURRENCIES } from '../services/ledgerEngine';
+
+interface FeeReportModalProps {
+  transactions: Transaction[];
+  onClose: () => void;
+}
+
+const GROUPING_LABELS: Record<FeeGrouping, string> = {
+  year: 'Year',
+  account: 'Account',
+};
+
+const formatMoney = (value: number, currency: string) => {
+  const symbol = currency === 'CAD' ? 'C$' : '$';
+  return `${symbol}${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+};
+
+const FeeReportModal: React.FC<FeeReportModalProps> = ({ transactions, onClose }) => {
+  const [grouping, setGrouping] = useState<FeeGrouping>('year');
+  const rows = useMemo(() => buildFeeReport(transactions, grouping), [transactions, grouping]);
+  const currencies = SUPPORTED_CURRENCIES.filter(c => rows.some(r => r.commissions[c] !== undefined));
+
+  const total = (currency: string) => rows.reduce((sum, r) => sum + (r.commissions[currency] || 0) + (r.fxFees[currency] || 0), 0);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-3xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="bg-slate-900 p-6 flex justify-between items-center shrink-0">
+          <h2 className="text-white text-xl font-bold flex items-center gap-2">
+            <Receipt className="text-emerald-400" /> Commissions &amp; Fees
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 flex-1 overflow-y-auto">
+          <div className="flex gap-2 mb-4">
+            {FEE_GROUPINGS.map(g => (
+              <button
+                key={g}
+                onClick={() => setGrouping(g)}
+                className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-colors ${g === grouping ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+              >
+                By {GROUPING_LABELS[g]}
+              </button>
+            ))}
+          </div>
+
+          {currencies.length > 0 && (
+            <div className="grid grid-cols-2 gap-3 mb-4">
+              {currencies.map(currency => (
+                <div key={currency} className="bg-slate-50 rounded-xl p-4 border border-slate-100">
+                  <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Total Fees ({currency})</span>
+                  <p className="text-lg font-black text-rose-600">{formatMoney(total(currency), currency)}</p>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {rows.length === 0 ? (
+            <div className="h-40 flex items-center justify-center text-slate-300 text-xs italic border-2 border-dashed border-slate-100 rounded-2xl">
+              No commissions or fees recorded.
+            </div>
+          ) : (
+            <div className="overflow-x-auto border border-slate-200 rounded-xl">
+              <table className="w-full text-xs text-left">
+                <thead className="bg-slate-50 text-slate-400 uppercase tracking-wider text-[10px]">
+                  <tr>
+                    <th className="px-4 py-3">{GROUPING_LABELS[grouping]}</th>
+                    <th className="px-4 py-3 text-right">Trades</th>
+                    {currencies.map(c => (
+                      <React.Fragment key={c}>
+                        <th className="px-4 py-3 text-right">Commission ({c})</th>
+                        <th className="px-4 py-3 text-right">FX Fees ({c})</th>
+                      </React.Fragment>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {rows.map(row => (
+                    <tr key={row.key} className="hover:bg-slate-50">
+                      <td className="px-4 py-2.5 font-bold text-slate-800">{row.key}</td>
+                      <td className="px-4 py-2.5 text-right text-slate-500">{row.trades}</td>
+                      {currencies.map(c => (
+                        <React.Fragment key={c}>
+                          <td className="px-4 py-2.5 text-right text-slate-700">{row.commissions[c] ? formatMoney(row.commissions[c], c) : '-'}</td>
+                          <td className="px-4 py-2.5 text-right text-slate-700">{row.fxFees[c] ? formatMoney(row.fxFees[c], c) : '-'}</td>
+                        </React.Fragment>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-slate-100 bg-slate-50 shrink-0 flex justify-end">
+          <button onClick={onClose} className="px-5 py-2 bg-slate-900 text-white font-medium hover:bg-slate-800 rounded-lg">
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FeeReportModal;
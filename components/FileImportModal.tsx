@@ -1,10 +1,15 @@
-import React, { useState } from 'react';
-import { Upload, X, FileText, Loader2, AlertCircle } from 'lucide-react';
+import React, { useState, useMemo } from 'react';
+import { Upload, X, FileText, Loader2, AlertCircle, Sparkles, Table, CheckCircle2 } from 'lucide-react';
 import { parseDocumentsWithAI } from '../services/geminiService';
-import { Transaction } from '../types';
+import { parseCsvTable, detectProfile, guessColumns, applyProfile, loadBrokerProfiles, saveBrokerProfile, deleteBrokerProfile, REQUIRED_CSV_FIELDS, CsvTable } from '../services/csvImport';
+import { hasKnownType, stageTransactions } from '../services/importStaging';
+import { Transaction, BrokerProfile, StagedTransaction, ChangeSource } from '../types';
+import CsvColumnMapper from './CsvColumnMapper';
+import ImportReviewTable from './ImportReviewTable';
 
 interface FileImportModalProps {
-  onImport: (transactions: Omit<Transaction, 'id'>[]) => void;
+  existingTransactions: Transaction[];
+  onImport: (transactions: Omit<Transaction, 'id'>[], source: ChangeSource) => void;
   onClose: () => void;
 }
 
@@ -12,12 +17,39 @@ interface FileWithPreview {
   file: File;
 }
 
-const FileImportModal: React.FC<FileImportModalProps> = ({ onImport, onClose }) => {
+// Each CSV keeps its own mapping, since a batch may mix brokers
+interface CsvUpload {
+  fileName: string;
+  table: CsvTable;
+  profile: BrokerProfile;
+  profileName: string; // Saved as a profile under this name when set
+}
+
+const newCustomProfile = (headers: string[]): BrokerProfile => ({
+  id: '',
+  name: '',
+  columns: guessColumns(headers),
+  dateFormat: 'YMD',
+  defaultCurrency: 'USD',
+  defaultAccount: 'TFSA',
+});
+
+const missingFieldsOf = (profile: BrokerProfile) => REQUIRED_CSV_FIELDS.filter(field => !profile.columns[field]);
+
+const FileImportModal: React.FC<FileImportModalProps> = ({ existingTransactions, onImport, onClose }) => {
   const [files, setFiles] = useState<FileWithPreview[]>([]);
   const [isDragging, setIsDragging] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // CSV mapping step state
+  const [step, setStep] = useState<'select' | 'map' | 'review'>('select');
+  const [staged, setStaged] = useState<StagedTransaction[]>([]);
+  const [importSource, setImportSource] = useState<ChangeSource>('file-import'); // For the edit history
+  const [csvTables, setCsvTables] = useState<CsvUpload[]>([]);
+  const [activeTable, setActiveTable] = useState(0); // The file shown in the column mapper
+  const [profiles, setProfiles] = useState<BrokerProfile[]>(() => loadBrokerProfiles());
+
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(true);
@@ -99,35 +131,55 @@ const FileImportModal: React.FC<FileImportModalProps> = ({ onImport, onClose })
     setFiles(prev => prev.filter((_, i) => i !== index));
   };
 
-  const processFiles = async () => {
-    if (files.length === 0) return;
+  const isCsvFile = (file: File) => getMimeType(file) === 'text/csv' || file.type === 'application/vnd.ms-excel';
+
+  const readAsBase64 = (file: File) => new Promise<{ mimeType: string; data: string }>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      const base64String = reader.result as string;
+      // Remove the data URL prefix (e.g., "data:image/jpeg;base64,")
+      const data = base64String.split(',')[1];
+      resolve({
+        mimeType: getMimeType(file),
+        data: data
+      });
+    };
+    reader.onerror = reject;
+    reader.readAsDataURL(file);
+  });
+
+  const mappedPreview = useMemo(() => {
+    const results = csvTables.map(t => applyProfile(t.table, t.profile));
+    return {
+      transactions: results.flatMap(r => r.transactions),
+      errors: results.flatMap((r, i) => r.errors.map(e => `${csvTables[i].fileName} row ${e.row}: ${e.message}`)),
+    };
+  }, [csvTables]);
+
+  const current = csvTables[activeTable];
+  const missingFields = current ? missingFieldsOf(current.profile) : [];
+  const unmappedFiles = csvTables.filter(t => missingFieldsOf(t.profile).length > 0);
+
+  const updateCurrent = (patch: Partial<CsvUpload>) =>
+    setCsvTables(tables => tables.map((t, i) => (i === activeTable ? { ...t, ...patch } : t)));
+
+  /**
+   * Sends anything that is not a mapped CSV to Gemini and stages the combined
+   * result for review.
+   */
+  const runImport = async (localTransactions: Omit<Transaction, 'id'>[], aiFiles: FileWithPreview[]) => {
     setIsProcessing(true);
     setError(null);
 
     try {
-      const filePromises = files.map(async (f) => {
-        return new Promise<{ mimeType: string; data: string }>((resolve, reject) => {
-          const reader = new FileReader();
-          reader.onloadend = () => {
-            const base64String = reader.result as string;
-            // Remove the data URL prefix (e.g., "data:image/jpeg;base64,")
-            const data = base64String.split(',')[1];
-            resolve({
-              mimeType: getMimeType(f.file),
-              data: data
-            });
-          };
-          reader.onerror = reject;
-          reader.readAsDataURL(f.file);
-        });
-      });
-
-      const processedFiles = await Promise.all(filePromises);
-      const transactions = await parseDocumentsWithAI(processedFiles);
+      const processedFiles = await Promise.all(aiFiles.map(f => readAsBase64(f.file)));
+      const extracted = processedFiles.length > 0 ? await parseDocumentsWithAI(processedFiles) : [];
+      const transactions = [...localTransactions, ...(extracted || [])];
+      setImportSource(extracted && extracted.length > 0 ? 'ai-parse' : 'file-import');
       
-      if (transactions && transactions.length > 0) {
-        onImport(transactions);
-        onClose();
+      if (transactions.length > 0) {
+        setStaged(stageTransactions(transactions, existingTransactions));
+        setStep('review');
       } else {
         setError("No transactions found. Ensure the document contains clear trade details.");
       }
@@ -150,9 +202,68 @@ const FileImportModal: React.FC<FileImportModalProps> = ({ onImport, onClose })
     }
   };
 
+  const processFiles = async () => {
+    if (files.length === 0) return;
+    const csvFiles = files.filter(f => isCsvFile(f.file));
+
+    // CSVs are parsed locally; Gemini only sees PDFs and images
+    if (csvFiles.length === 0) {
+      await runImport([], files);
+      return;
+    }
+
+    try {
+      const tables = await Promise.all(csvFiles.map(async (f): Promise<CsvUpload> => {
+        const table = parseCsvTable(await f.file.text());
+        const detected = detectProfile(table.headers, profiles);
+        return {
+          fileName: f.file.name,
+          table,
+          profile: detected || newCustomProfile(table.headers),
+          profileName: detected && !detected.builtIn ? detected.name : '',
+        };
+      }));
+      setCsvTables(tables);
+      setActiveTable(0);
+      setError(null);
+      setStep('map');
+    } catch (err) {
+      console.error(err);
+      setError("Could not read the CSV file.");
+    }
+  };
+
+  const importMapped = async () => {
+    if (unmappedFiles.length > 0) return;
+    let saved = profiles;
+    csvTables.forEach(({ profile, profileName }) => {
+      const name = profileName.trim();
+      if (!name) return;
+      const existing = saved.find(p => !p.builtIn && p.name.toLowerCase() === name.toLowerCase());
+      saved = saveBrokerProfile({ ...profile, id: existing?.id || Math.random().toString(36).substr(2, 9), name });
+    });
+    setProfiles(saved);
+    await runImport(mappedPreview.transactions, files.filter(f => !isCsvFile(f.file)));
+  };
+
+  const commitStaged = () => {
+    onImport(staged.filter(s => s.accepted).map(s => s.data).filter(hasKnownType), importSource);
+    onClose();
+  };
+
+  const acceptedCount = staged.filter(s => s.accepted).length;
+
+  const selectProfile = (id: string) => {
+    const selected = profiles.find(p => p.id === id);
+    updateCurrent({
+      profile: selected || newCustomProfile(current?.table.headers || []),
+      profileName: selected && !selected.builtIn ? selected.name : '',
+    });
+  };
+
   return (
     <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
-      <div className="bg-white rounded-2xl shadow-xl w-full max-w-2xl overflow-hidden flex flex-col max-h-[90vh]">
+      <div className={`bg-white rounded-2xl shadow-xl w-full ${step === 'review' ? 'max-w-6xl' : 'max-w-2xl'} overflow-hidden flex flex-col max-h-[90vh]`}>
         <div className="bg-slate-900 p-6 flex justify-between items-center shrink-0">
           <h2 className="text-white text-xl font-bold flex items-center gap-2">
             <Upload className="text-emerald-400" /> Import Statements
@@ -163,10 +274,76 @@ const FileImportModal: React.FC<FileImportModalProps> = ({ onImport, onClose })
         </div>
 
         <div className="p-6 flex-1 overflow-y-auto">
+           {step === 'review' ? (
+           <div className="mb-6">
+               <p className="text-slate-600 mb-4">
+                   Review the extracted rows before they are added to your ledger. Edit anything that looks wrong and reject rows you don't want.
+               </p>
+               <ImportReviewTable staged={staged} existingTransactions={existingTransactions} onChange={setStaged} />
+           </div>
+           ) : step === 'map' && current ? (
+           <div className="mb-6">
+               <p className="text-slate-600 mb-4 flex items-center gap-2">
+                   <Table size={16} className="text-indigo-500 shrink-0" />
+                   Match your CSV columns to transaction fields. Mappings can be saved as a broker profile for next time.
+               </p>
+               {csvTables.length > 1 && (
+                   <div className="flex flex-wrap gap-2 mb-4">
+                       {csvTables.map((t, i) => (
+                           <button
+                            key={`${t.fileName}-${i}`}
+                            onClick={() => setActiveTable(i)}
+                            className={`px-3 py-1 rounded-lg text-xs font-bold border ${i === activeTable ? 'bg-indigo-50 border-indigo-200 text-indigo-700' : 'bg-white border-slate-200 text-slate-500 hover:bg-slate-50'}`}
+                           >
+                               {t.fileName}
+                               <span className={`ml-1 font-medium ${missingFieldsOf(t.profile).length > 0 ? 'text-rose-500' : 'text-slate-400'}`}>
+                                   · {missingFieldsOf(t.profile).length > 0 ? 'Needs mapping' : t.profile.name || 'Custom'}
+                               </span>
+                           </button>
+                       ))}
+                   </div>
+               )}
+               <CsvColumnMapper
+                table={current.table}
+                profile={current.profile}
+                profiles={profiles}
+                onChange={profile => updateCurrent({ profile })}
+                onSelectProfile={selectProfile}
+                onDeleteProfile={id => { setProfiles(deleteBrokerProfile(id)); selectProfile(''); }}
+               />
+               <div className="mt-4">
+                   <label className="block text-slate-700 text-xs font-bold mb-1">Save as Profile (optional)</label>
+                   <input
+                    type="text"
+                    value={current.profileName}
+                    onChange={e => updateCurrent({ profileName: e.target.value })}
+                    placeholder="e.g. My Questrade Margin"
+                    className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm"
+                   />
+               </div>
+               <div className="mt-4 p-3 bg-slate-50 border border-slate-200 rounded-lg text-xs text-slate-600">
+                   {missingFields.length > 0 ? (
+                       <span className="text-rose-600 font-bold">Map the required columns: {missingFields.join(', ')}</span>
+                   ) : unmappedFiles.length > 0 ? (
+                       <span className="text-rose-600 font-bold">Map the required columns of {unmappedFiles.map(t => t.fileName).join(', ')}</span>
+                   ) : (
+                       <>
+                           <span className="font-bold text-slate-800">{mappedPreview.transactions.length} trades recognised</span>
+                           {mappedPreview.errors.length > 0 && <span>, {mappedPreview.errors.length} rows skipped</span>}
+                       </>
+                   )}
+                   {unmappedFiles.length === 0 && mappedPreview.errors.length > 0 && (
+                       <ul className="mt-2 max-h-24 overflow-y-auto text-[10px] text-slate-500 space-y-0.5">
+                           {mappedPreview.errors.slice(0, 50).map(e => <li key={e}>{e}</li>)}
+                       </ul>
+                   )}
+               </div>
+           </div>
+           ) : (
            <div className="mb-6">
                <p className="text-slate-600 mb-4">
                    Upload brokerage statements (PDF), screenshots (JPG/PNG), or CSV files. 
-                   Our AI will automatically extract transaction details.
+                   CSV exports are read locally; our AI extracts transaction details from everything else.
                </p>
                
                <div 
@@ -197,6 +374,7 @@ const FileImportModal: React.FC<FileImportModalProps> = ({ onImport, onClose })
                    <label htmlFor="file-upload" className="absolute inset-0 cursor-pointer"></label>
                </div>
            </div>
+           )}
 
            {error && (
                <div className="mb-4 p-4 bg-rose-50 border border-rose-100 text-rose-700 rounded-xl text-sm flex items-start gap-3">
@@ -208,7 +386,7 @@ const FileImportModal: React.FC<FileImportModalProps> = ({ onImport, onClose })
                </div>
            )}
 
-           {files.length > 0 && (
+           {step === 'select' && files.length > 0 && (
                <div className="space-y-2 mb-6">
                    <h3 className="text-sm font-semibold text-slate-700">Selected Files ({files.length})</h3>
                    {files.map((f, idx) => (
@@ -228,6 +406,45 @@ const FileImportModal: React.FC<FileImportModalProps> = ({ onImport, onClose })
         </div>
 
         <div className="p-6 border-t border-slate-100 bg-slate-50 shrink-0 flex justify-end gap-3">
+            {step === 'review' ? (
+            <>
+            <button onClick={() => setStep('select')} className="px-5 py-2 text-slate-600 font-medium hover:bg-slate-200 rounded-lg mr-auto">
+                Back
+            </button>
+            <button onClick={onClose} className="px-5 py-2 text-slate-600 font-medium hover:bg-slate-200 rounded-lg">
+                Cancel
+            </button>
+            <button 
+                onClick={commitStaged} 
+                disabled={acceptedCount === 0}
+                className="px-5 py-2 bg-indigo-600 text-white font-medium hover:bg-indigo-700 rounded-lg shadow-sm disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+            >
+                <CheckCircle2 size={18} /> Commit {acceptedCount} Transactions
+            </button>
+            </>
+            ) : step === 'map' ? (
+            <>
+            <button onClick={() => setStep('select')} disabled={isProcessing} className="px-5 py-2 text-slate-600 font-medium hover:bg-slate-200 rounded-lg mr-auto">
+                Back
+            </button>
+            <button 
+                onClick={() => runImport([], files)} 
+                disabled={isProcessing}
+                className="px-5 py-2 text-indigo-600 font-medium hover:bg-indigo-50 rounded-lg flex items-center gap-2 disabled:opacity-50"
+                title="Unknown layout? Let Gemini read the file instead"
+            >
+                <Sparkles size={16} /> Use AI Instead
+            </button>
+            <button 
+                onClick={importMapped} 
+                disabled={unmappedFiles.length > 0 || mappedPreview.transactions.length === 0 || isProcessing}
+                className="px-5 py-2 bg-indigo-600 text-white font-medium hover:bg-indigo-700 rounded-lg shadow-sm disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+            >
+                {isProcessing ? <Loader2 className="animate-spin" size={18} /> : <Upload size={18} />} Review {mappedPreview.transactions.length} Transactions
+            </button>
+            </>
+            ) : (
+            <>
             <button onClick={onClose} className="px-5 py-2 text-slate-600 font-medium hover:bg-slate-200 rounded-lg">
                 Cancel
             </button>
@@ -246,6 +463,8 @@ const FileImportModal: React.FC<FileImportModalProps> = ({ onImport, onClose })
                     </>
                 )}
             </button>
+            </>
+            )}
         </div>
       </div>
     </div>
@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { X, ArrowLeftRight, Trash2, Loader2, RefreshCw, Plus } from 'lucide-react';
+import { BaseCurrency, FxRateHistory } from '../types';
+import { todayISO } from '../services/priceHistory';
+
+interface FxRatesModalProps {
+  baseCurrency: BaseCurrency;
+  rates: FxRateHistory;
+  onBaseCurrencyChange: (currency: BaseCurrency) => void;
+  onSetRate: (date: string, rate: number) => void;
+  onRemoveRate: (date: string) => void;
+  onFetchRate: () => Promise<void>;
+  onClose: () => void;
+}
+
+const FxRatesModal: React.FC<FxRatesModalProps> = ({ baseCurrency, rates, onBaseCurrencyChange, onSetRate, onRemoveRate, onFetchRate, onClose }) => {
+  const [date, setDate] = useState(todayISO());
+  const [rate, setRate] = useState('');
+  const [isFetching, setIsFetching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const sortedDates = Object.keys(rates).sort().reverse();
+
+  const addRate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = Number(rate);
+    if (!date || !(value > 0)) return;
+    onSetRate(date, value);
+    setRate('');
+  };
+
+  const fetchRate = async () => {
+    setIsFetching(true);
+    setError(null);
+    try {
+      await onFetchRate();
+    } catch (err: any) {
+      setError(err?.message?.includes('429') ? 'Quota limit reached. Try again shortly or enter the rate by hand.' : 'Could not fetch the USD/CAD rate.');
+    } finally {
+      setIsFetching(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-md overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="bg-slate-900 p-6 flex justify-between items-center shrink-0">
+          <h2 className="text-white text-xl font-bold flex items-center gap-2">
+            <ArrowLeftRight className="text-emerald-400" /> Currency
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 flex-1 overflow-y-auto space-y-6">
+          <div>
+            <label className="block text-slate-700 text-xs font-bold mb-2">Base Currency</label>
+            <div className="flex gap-2">
+              {(['CAD', 'USD'] as BaseCurrency[]).map(c => (
+                <button
+                  key={c}
+                  onClick={() => onBaseCurrencyChange(c)}
+                  className={`flex-1 py-2 rounded-lg text-xs font-bold transition-colors ${baseCurrency === c ? 'bg-indigo-600 text-white' : 'bg-white border border-slate-200 text-slate-600'}`}
+                >
+                  {c}
+                </button>
+              ))}
+            </div>
+            <p className="text-[10px] text-slate-400 mt-2">Totals and the allocation chart are converted into this currency.</p>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-slate-700 text-xs font-bold">USD/CAD Rates <span className="font-medium text-slate-400">(CAD per 1 USD)</span></label>
+              <button onClick={fetchRate} disabled={isFetching} className="flex items-center gap-1 text-[10px] font-bold text-indigo-600 hover:bg-indigo-50 px-2 py-1 rounded-lg disabled:opacity-40">
+                {isFetching ? <Loader2 size={12} className="animate-spin" /> : <RefreshCw size={12} />} Fetch Today
+              </button>
+            </div>
+            {error && <p className="text-[10px] text-rose-600 font-bold mb-2">{error}</p>}
+
+            <form onSubmit={addRate} className="flex gap-2 mb-3">
+              <input type="date" value={date} onChange={e => setDate(e.target.value)} className="flex-1 px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-xs" />
+              <input type="number" step="any" min="0" placeholder="1.3650" value={rate} onChange={e => setRate(e.target.value)} className="w-28 px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-xs" />
+              <button type="submit" className="px-3 py-2 bg-slate-900 text-white rounded-lg"><Plus size={14} /></button>
+            </form>
+
+            <div className="max-h-56 overflow-y-auto border border-slate-100 rounded-xl divide-y divide-slate-100">
+              {sortedDates.length === 0 && <p className="text-xs text-slate-300 italic p-4 text-center">No rates stored yet.</p>}
+              {sortedDates.map(d => (
+                <div key={d} className="flex items-center justify-between px-4 py-2 text-xs">
+                  <span className="text-slate-500">{d}</span>
+                  <div className="flex items-center gap-3">
+                    <span className="font-bold text-slate-800">{rates[d].toFixed(4)}</span>
+                    <button onClick={() => onRemoveRate(d)} className="text-slate-300 hover:text-rose-600"><Trash2 size={12} /></button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="p-6 border-t border-slate-100 bg-slate-50 shrink-0 flex justify-end">
+          <button onClick={onClose} className="px-5 py-2 bg-slate-900 text-white font-medium hover:bg-slate-800 rounded-lg">Done</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FxRatesModal;
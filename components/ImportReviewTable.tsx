@@ -0,0 +1,130 @@
+import React from 'react';
+import { Transaction, StagedTransaction, TransactionType } from '../types';
+import { getStagingWarnings, hasKnownType, summarizeStaged } from '../services/importStaging';
+import { TRANSACTION_TYPES } from '../services/ledgerEngine';
+import { AlertTriangle, CheckCircle2, XCircle } from 'lucide-react';
+
+interface ImportReviewTableProps {
+  staged: StagedTransaction[];
+  existingTransactions: Transaction[];
+  onChange: (staged: StagedTransaction[]) => void;
+}
+
+const inputClass = "w-full px-2 py-1 border border-slate-200 rounded-md focus:ring-2 focus:ring-blue-500 outline-none bg-white";
+
+const ImportReviewTable: React.FC<ImportReviewTableProps> = ({ staged, existingTransactions, onChange }) => {
+  const summary = summarizeStaged(staged, existingTransactions);
+
+  const updateRow = (key: string, patch: Partial<StagedTransaction>) => {
+    onChange(staged.map(s => s.key === key ? { ...s, ...patch } : s));
+  };
+
+  const updateField = (row: StagedTransaction, field: keyof Omit<Transaction, 'id'>, value: string) => {
+    const numeric = field === 'shares' || field === 'price' || field === 'ratio' || field === 'fee';
+    const upper = field === 'symbol' || field === 'currency' || field === 'newSymbol';
+    // Optional fields are left off rather than stored empty
+    const optional = field === 'ratio' || field === 'fee' || field === 'newSymbol';
+    updateRow(row.key, {
+      data: { ...row.data, [field]: optional && value === '' ? undefined : numeric ? Number(value) : upper ? value.toUpperCase() : value },
+    });
+  };
+
+  // A row needs a known type before it can go into the ledger
+  const setAll = (accepted: boolean) => onChange(staged.map(s => ({ ...s, accepted: accepted && hasKnownType(s.data) })));
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div className="bg-slate-50 rounded-xl p-3 border border-slate-100">
+          <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">To Import</span>
+          <p className="text-lg font-black text-slate-800">{summary.accepted} <span className="text-xs font-medium text-slate-400">/ {staged.length}</span></p>
+        </div>
+        <div className="bg-slate-50 rounded-xl p-3 border border-slate-100">
+          <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Buys / Sells / Income</span>
+          <p className="text-lg font-black text-slate-800">{summary.buys} / {summary.sells} / {summary.income}</p>
+        </div>
+        <div className="bg-slate-50 rounded-xl p-3 border border-slate-100">
+          <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">New Symbols</span>
+          <p className="text-xs font-bold text-slate-800 mt-1 truncate" title={summary.newSymbols.join(', ')}>{summary.newSymbols.length > 0 ? summary.newSymbols.join(', ') : 'None'}</p>
+        </div>
+        <div className="bg-slate-50 rounded-xl p-3 border border-slate-100">
+          <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Trade Value</span>
+          {Object.entries(summary.totalsByCurrency).map(([currency, total]) => (
+            <p key={currency} className="text-xs font-bold text-slate-800">{currency} {total.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</p>
+          ))}
+          {Object.keys(summary.totalsByCurrency).length === 0 && <p className="text-xs font-bold text-slate-300 mt-1">-</p>}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-end gap-2 text-xs">
+        <button onClick={() => setAll(true)} className="px-2.5 py-1 rounded-lg font-bold text-emerald-600 hover:bg-emerald-50">Accept All</button>
+        <button onClick={() => setAll(false)} className="px-2.5 py-1 rounded-lg font-bold text-rose-600 hover:bg-rose-50">Reject All</button>
+      </div>
+
+      <div className="overflow-x-auto border border-slate-200 rounded-xl">
+        <table className="w-full text-xs text-left min-w-[1040px]">
+          <thead className="bg-slate-50 text-slate-400 uppercase tracking-wider text-[10px]">
+            <tr>
+              <th className="px-3 py-2 w-10"></th>
+              <th className="px-2 py-2 w-[14%]">Date</th>
+              <th className="px-2 py-2 w-[9%]">Type</th>
+              <th className="px-2 py-2 w-[12%]">Symbol</th>
+              <th className="px-2 py-2 w-[10%]">Shares</th>
+              <th className="px-2 py-2 w-[10%]">Price</th>
+              <th className="px-2 py-2 w-[9%]">Currency</th>
+              <th className="px-2 py-2 w-[11%]">Account</th>
+              <th className="px-2 py-2 w-[14%]">Details</th>
+              <th className="px-2 py-2">Warnings</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {staged.map(row => {
+              const warnings = getStagingWarnings(row.data, existingTransactions);
+              const { type } = row.data;
+              const needsRatio = type === 'SPLIT' || type === 'MERGER';
+              const needsSuccessor = type === 'SYMBOL_CHANGE' || type === 'MERGER';
+              const hasFees = type === 'BUY' || type === 'SELL' || type === 'DRIP';
+              return (
+                <tr key={row.key} className={row.accepted ? 'bg-white' : 'bg-slate-50 opacity-60'}>
+                  <td className="px-3 py-2 text-center">
+                    <button onClick={() => updateRow(row.key, { accepted: !row.accepted })} disabled={!row.accepted && !hasKnownType(row.data)} title={row.accepted ? 'Reject row' : hasKnownType(row.data) ? 'Accept row' : 'Pick a type first'}>
+                      {row.accepted ? <CheckCircle2 size={16} className="text-emerald-500" /> : <XCircle size={16} className="text-slate-300" />}
+                    </button>
+                  </td>
+                  <td className="px-2 py-2"><input type="date" value={row.data.date} onChange={e => updateField(row, 'date', e.target.value)} className={inputClass} /></td>
+                  <td className="px-2 py-2">
+                    <select value={row.data.type} onChange={e => updateField(row, 'type', e.target.value as TransactionType)} className={inputClass}>
+                      {!row.data.type && <option value="">Unknown</option>}
+                      {TRANSACTION_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                    </select>
+                  </td>
+                  <td className="px-2 py-2"><input type="text" value={row.data.symbol} onChange={e => updateField(row, 'symbol', e.target.value)} className={`${inputClass} uppercase`} /></td>
+                  <td className="px-2 py-2"><input type="number" step="any" min="0" value={row.data.shares} onChange={e => updateField(row, 'shares', e.target.value)} className={inputClass} /></td>
+                  <td className="px-2 py-2"><input type="number" step="any" min="0" value={row.data.price} onChange={e => updateField(row, 'price', e.target.value)} className={inputClass} /></td>
+                  <td className="px-2 py-2"><input type="text" value={row.data.currency} onChange={e => updateField(row, 'currency', e.target.value)} className={`${inputClass} uppercase`} /></td>
+                  <td className="px-2 py-2"><input type="text" value={row.data.account} onChange={e => updateField(row, 'account', e.target.value)} className={inputClass} /></td>
+                  <td className="px-2 py-2">
+                    <div className="flex gap-1">
+                      {needsRatio && <input type="number" step="any" min="0" placeholder="Ratio" title={type === 'SPLIT' ? 'New shares per old share' : 'New shares per share (0 if all cash)'} value={row.data.ratio ?? ''} onChange={e => updateField(row, 'ratio', e.target.value)} className={inputClass} />}
+                      {needsSuccessor && <input type="text" placeholder="New symbol" value={row.data.newSymbol ?? ''} onChange={e => updateField(row, 'newSymbol', e.target.value)} className={`${inputClass} uppercase`} />}
+                      {hasFees && <input type="number" step="any" min="0" placeholder="Fee" title="Commission / fees" value={row.data.fee ?? ''} onChange={e => updateField(row, 'fee', e.target.value)} className={inputClass} />}
+                    </div>
+                  </td>
+                  <td className="px-2 py-2">
+                    {warnings.length > 0 && (
+                      <span className="flex items-center gap-1 text-amber-600 font-medium">
+                        <AlertTriangle size={12} className="shrink-0" /> {warnings.join(', ')}
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ImportReviewTable;
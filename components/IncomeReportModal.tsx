@@ -0,0 +1,121 @@
+import React, { useMemo, useState } from 'react';
+import { X, Coins } from 'lucide-react';
+import { Transaction, IncomeGrouping, TransactionType } from '../types';
+import { buildIncomeReport, totalIncomeByCurrency, INCOME_GROUPINGS } from '../services/incomeReport';
+import { INCOME_TYPES, TRANSACTION_TYPE_LABELS, SUPPORTED_CURRENCIES } from '../services/ledgerEngine';
+
+interface IncomeReportModalProps {
+  transactions: Transaction[];
+  onClose: () => void;
+}
+
+const GROUPING_LABELS: Record<IncomeGrouping, string> = {
+  month: 'Month',
+  year: 'Year',
+  symbol: 'Symbol',
+  account: 'Account',
+};
+
+const formatMoney = (value: number, currency: string) => {
+  const symbol = currency === 'CAD' ? 'C$' : '$';
+  return `${value < 0 ? '-' : ''}${symbol}${Math.abs(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+};
+
+const IncomeReportModal: React.FC<IncomeReportModalProps> = ({ transactions, onClose }) => {
+  const [grouping, setGrouping] = useState<IncomeGrouping>('month');
+  const [types, setTypes] = useState<TransactionType[]>(INCOME_TYPES);
+
+  const rows = useMemo(() => buildIncomeReport(transactions, grouping, types), [transactions, grouping, types]);
+  const totals = useMemo(() => totalIncomeByCurrency(rows), [rows]);
+  const currencies = SUPPORTED_CURRENCIES.filter(c => totals[c] !== undefined);
+
+  const toggleType = (type: TransactionType) =>
+    setTypes(prev => prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type]);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-3xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="bg-slate-900 p-6 flex justify-between items-center shrink-0">
+          <h2 className="text-white text-xl font-bold flex items-center gap-2">
+            <Coins className="text-emerald-400" /> Investment Income
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 flex-1 overflow-y-auto">
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+            <div className="flex gap-2">
+              {INCOME_GROUPINGS.map(g => (
+                <button
+                  key={g}
+                  onClick={() => setGrouping(g)}
+                  className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-colors ${g === grouping ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+                >
+                  By {GROUPING_LABELS[g]}
+                </button>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-3">
+              {INCOME_TYPES.map(type => (
+                <label key={type} className="flex items-center gap-1.5 text-[10px] font-bold text-slate-500 uppercase cursor-pointer">
+                  <input type="checkbox" checked={types.includes(type)} onChange={() => toggleType(type)} />
+                  {TRANSACTION_TYPE_LABELS[type]}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {currencies.length > 0 && (
+            <div className="grid grid-cols-2 gap-3 mb-4">
+              {currencies.map(currency => (
+                <div key={currency} className="bg-slate-50 rounded-xl p-4 border border-slate-100">
+                  <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Total Income ({currency})</span>
+                  <p className="text-lg font-black text-violet-600">{formatMoney(totals[currency], currency)}</p>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {rows.length === 0 ? (
+            <div className="h-40 flex items-center justify-center text-slate-300 text-xs italic border-2 border-dashed border-slate-100 rounded-2xl">
+              No dividends, distributions or interest recorded.
+            </div>
+          ) : (
+            <div className="overflow-x-auto border border-slate-200 rounded-xl">
+              <table className="w-full text-xs text-left">
+                <thead className="bg-slate-50 text-slate-400 uppercase tracking-wider text-[10px]">
+                  <tr>
+                    <th className="px-4 py-3">{GROUPING_LABELS[grouping]}</th>
+                    <th className="px-4 py-3 text-right">Payments</th>
+                    {currencies.map(c => <th key={c} className="px-4 py-3 text-right">{c}</th>)}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {rows.map(row => (
+                    <tr key={row.key} className="hover:bg-slate-50">
+                      <td className="px-4 py-2.5 font-bold text-slate-800">{row.key}</td>
+                      <td className="px-4 py-2.5 text-right text-slate-500">{row.payments}</td>
+                      {currencies.map(c => (
+                        <td key={c} className="px-4 py-2.5 text-right text-slate-700">{row.byCurrency[c] ? formatMoney(row.byCurrency[c], c) : '-'}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-slate-100 bg-slate-50 shrink-0 flex justify-end">
+          <button onClick={onClose} className="px-5 py-2 bg-slate-900 text-white font-medium hover:bg-slate-800 rounded-lg">
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default IncomeReportModal;
@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+import { AlertOctagon, AlertTriangle, ChevronDown, ChevronRight, CornerDownRight } from 'lucide-react';
+import { LedgerIssue, Transaction } from '../types';
+
+interface LedgerIssuesPanelProps {
+  issues: LedgerIssue[];
+  transactions: Transaction[];
+  onJump: (transactionId: string) => void;
+}
+
+const LedgerIssuesPanel: React.FC<LedgerIssuesPanelProps> = ({ issues, transactions, onJump }) => {
+  const [isOpen, setIsOpen] = useState(true);
+  const errors = issues.filter(i => i.severity === 'error');
+  const warnings = issues.filter(i => i.severity === 'warning');
+  const byId = new Map<string, Transaction>(transactions.map(t => [t.id, t]));
+
+  return (
+    <div className={`rounded-2xl border shadow-sm ${errors.length > 0 ? 'bg-rose-50/60 border-rose-100' : 'bg-amber-50/60 border-amber-100'}`}>
+      <button onClick={() => setIsOpen(o => !o)} className="w-full flex items-center gap-2 px-5 py-3 text-left">
+        {isOpen ? <ChevronDown size={14} className="text-slate-400" /> : <ChevronRight size={14} className="text-slate-400" />}
+        <span className="text-xs font-black uppercase tracking-widest text-slate-700">Ledger Issues</span>
+        {errors.length > 0 && <span className="text-[10px] font-bold text-rose-600 flex items-center gap-1"><AlertOctagon size={12} /> {errors.length} errors</span>}
+        {warnings.length > 0 && <span className="text-[10px] font-bold text-amber-600 flex items-center gap-1"><AlertTriangle size={12} /> {warnings.length} warnings</span>}
+        {errors.length > 0 && <span className="ml-auto text-[10px] text-rose-500 font-medium">Totals may be wrong until these are fixed</span>}
+      </button>
+      {isOpen && (
+        <div className="px-5 pb-4 max-h-64 overflow-y-auto divide-y divide-white">
+          {[...errors, ...warnings].map(issue => {
+            const t = byId.get(issue.transactionId);
+            return (
+              <div key={`${issue.transactionId}_${issue.code}`} className="flex items-center gap-3 py-2 text-xs">
+                {issue.severity === 'error'
+                  ? <AlertOctagon size={14} className="text-rose-500 shrink-0" />
+                  : <AlertTriangle size={14} className="text-amber-500 shrink-0" />}
+                <span className="text-slate-500 w-24 shrink-0">{t?.date}</span>
+                <span className="font-bold text-slate-700 w-28 shrink-0 truncate">{t ? `${t.type} ${t.symbol}` : ''}</span>
+                <span className="text-slate-600 flex-1">{issue.message}</span>
+                <button onClick={() => onJump(issue.transactionId)} className="flex items-center gap-1 text-[10px] font-bold text-indigo-600 hover:bg-white px-2 py-1 rounded-lg shrink-0">
+                  <CornerDownRight size={12} /> Show
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LedgerIssuesPanel;
@@ -1,19 +1,53 @@
 
-import React, { useState } from 'react';
-import { Transaction, StockSummary } from '../types';
-import { ChevronDown, ChevronRight, Edit2, Trash2, CheckCircle2, Globe } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { Transaction, TransactionType, StockSummary, LedgerIssue } from '../types';
+import { isAcquisitionType, isCorporateAction, adjustedShares, describeCorporateAction, transactionFees } from '../services/ledgerEngine';
+import { ChevronDown, ChevronRight, Edit2, Trash2, CheckCircle2, Globe, AlertTriangle } from 'lucide-react';
 
 interface PortfolioTableProps {
   portfolio: StockSummary[];
   onDelete: (id: string) => void;
   onEdit: (transaction: Transaction) => void;
+  cashRunning?: Record<string, number>; // Account cash balance after each transaction
+  issues?: Record<string, LedgerIssue[]>; // Validation issues by transaction id
+  focusRequest?: { id: string } | null; // Expands and scrolls to a transaction row
 }
 
-const PortfolioTable: React.FC<PortfolioTableProps> = ({ portfolio, onDelete, onEdit }) => {
+const TYPE_COLORS: Record<TransactionType, string> = {
+  BUY: 'text-blue-600',
+  SELL: 'text-amber-600',
+  DIVIDEND: 'text-violet-600',
+  DISTRIBUTION: 'text-violet-600',
+  INTEREST: 'text-violet-600',
+  DRIP: 'text-indigo-600',
+  ROC: 'text-slate-500',
+  SPLIT: 'text-teal-600',
+  SYMBOL_CHANGE: 'text-teal-600',
+  MERGER: 'text-teal-600',
+  DEPOSIT: 'text-emerald-600',
+  WITHDRAWAL: 'text-rose-600',
+};
+
+const PortfolioTable: React.FC<PortfolioTableProps> = ({ portfolio, onDelete, onEdit, cashRunning = {}, issues = {}, focusRequest }) => {
   const [expandedGroups, setExpandedGroups] = useState<Record<string, boolean>>(
     portfolio.reduce((acc, stock) => ({ ...acc, [`${stock.symbol}_${stock.currency}`]: true }), {})
   );
 
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!focusRequest) return;
+    const stock = portfolio.find(s => s.transactions.some(t => t.id === focusRequest.id));
+    if (!stock) return;
+    setExpandedGroups(prev => ({ ...prev, [`${stock.symbol}_${stock.currency}`]: true }));
+    setHighlightedId(focusRequest.id);
+    // Wait for the expanded rows to render before scrolling
+    const timer = setTimeout(() => {
+      document.getElementById(`tx-${focusRequest.id}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }, 0);
+    return () => clearTimeout(timer);
+  }, [focusRequest]);
+
   const toggleGroup = (key: string) => {
     setExpandedGroups(prev => ({ ...prev, [key]: !prev[key] }));
   };
@@ -50,7 +84,7 @@ const PortfolioTable: React.FC<PortfolioTableProps> = ({ portfolio, onDelete, on
             {portfolio.map((stock) => {
               const groupKey = `${stock.symbol}_${stock.currency}`;
               const isExpanded = expandedGroups[groupKey];
-              const isClosed = stock.totalShares <= 0;
+              const isClosed = !stock.isCash && stock.totalShares <= 0;
               const curSym = getCurrencySymbol(stock.currency);
               
               const unrealizedPL = !isClosed && stock.currentPrice 
@@ -84,16 +118,16 @@ const PortfolioTable: React.FC<PortfolioTableProps> = ({ portfolio, onDelete, on
                       {stock.name}
                     </td>
                     <td className={`px-4 py-4 text-right font-medium ${isClosed ? 'text-slate-400' : 'text-slate-900'}`}>
-                      {stock.totalShares.toLocaleString()}
+                      {stock.isCash ? '-' : stock.totalShares.toLocaleString()}
                     </td>
                     <td className={`px-4 py-4 text-right ${isClosed ? 'text-slate-400' : 'text-slate-600'}`}>
-                      {isClosed ? '-' : `${curSym}${stock.avgCost.toFixed(2)}`}
+                      {isClosed || stock.isCash ? '-' : `${curSym}${stock.avgCost.toFixed(2)}`}
                     </td>
                     <td className={`px-4 py-4 text-right font-medium ${isClosed ? 'text-slate-400' : 'text-slate-800'}`}>
                       {isClosed ? '-' : `${curSym}${stock.totalInvested.toLocaleString(undefined, { minimumFractionDigits: 2 })}`}
                     </td>
                     <td className={`px-4 py-4 text-right ${isClosed ? 'text-slate-300 italic' : 'text-slate-600'}`}>
-                        {isClosed ? 'Finalized' : stock.currentPrice ? `${curSym}${stock.currentPrice.toFixed(2)}` : '-'}
+                        {isClosed ? 'Finalized' : stock.isCash ? '-' : stock.currentPrice ? `${curSym}${stock.currentPrice.toFixed(2)}` : '-'}
                     </td>
                     <td className={`px-4 py-4 text-right font-medium ${isClosed ? 'text-slate-300 italic' : 'text-slate-800'}`}>
                         {isClosed ? 'Finalized' : stock.currentPrice ? `${curSym}${marketValue.toLocaleString(undefined, {minimumFractionDigits: 2})}` : '-'}
@@ -105,6 +139,9 @@ const PortfolioTable: React.FC<PortfolioTableProps> = ({ portfolio, onDelete, on
                       <div className="flex flex-col">
                         <span>{stock.realizedPL >= 0 ? '+' : '-'}{curSym}{Math.abs(stock.realizedPL).toLocaleString(undefined, {minimumFractionDigits: 2})}</span>
                         {isClosed && <span className="text-[9px] uppercase opacity-60">Total Profit</span>}
+                        {stock.incomeReceived > 0 && (
+                          <span className="text-[9px] font-bold text-violet-600">+{curSym}{stock.incomeReceived.toLocaleString(undefined, {minimumFractionDigits: 2})} income</span>
+                        )}
                       </div>
                     </td>
                   </tr>
@@ -124,29 +161,44 @@ const PortfolioTable: React.FC<PortfolioTableProps> = ({ portfolio, onDelete, on
                                        <th className="px-4 py-3 text-right w-[10%]">Shares</th>
                                        <th className="px-4 py-3 text-right w-[10%]">Price</th>
                                        <th className="px-4 py-3 text-right w-[10%]">Cost/Basis</th>
-                                       <th className="px-4 py-3 text-right w-[13%]">Cur. Value</th>
+                                       <th className="px-4 py-3 text-right w-[13%]">{stock.isCash ? 'Balance' : 'Cur. Value'}</th>
                                        <th className="px-4 py-3 text-right w-[15%]">Actions</th>
                                    </tr>
                                </thead>
                                <tbody className="divide-y divide-slate-100">
                                    {stock.transactions.map(t => {
-                                       const currentTxValue = !isClosed && stock.currentPrice ? t.shares * stock.currentPrice : null;
+                                       const currentTxValue = !isClosed && stock.currentPrice && isAcquisitionType(t.type) ? adjustedShares(t, stock.transactions) * stock.currentPrice : null;
+                                       const isAction = isCorporateAction(t.type);
+                                       const rowIssues = issues[t.id] || [];
+                                       const hasError = rowIssues.some(i => i.severity === 'error');
                                        return (
-                                       <tr key={t.id} className="hover:bg-slate-50">
-                                           <td className="px-8 py-2.5 text-slate-500">{t.date}</td>
-                                           <td className={`px-4 py-2.5 font-bold ${t.type === 'BUY' ? 'text-blue-600' : 'text-amber-600'}`}>
+                                       <tr key={t.id} id={`tx-${t.id}`} className={`hover:bg-slate-50 ${highlightedId === t.id ? 'ring-2 ring-inset ring-indigo-300' : ''} ${hasError ? 'bg-rose-50/60' : rowIssues.length > 0 ? 'bg-amber-50/40' : ''}`}>
+                                           <td className="px-8 py-2.5 text-slate-500">
+                                               {t.date}
+                                               {rowIssues.length > 0 && (
+                                                   <span className={`ml-1.5 inline-flex align-middle ${hasError ? 'text-rose-500' : 'text-amber-500'}`} title={rowIssues.map(i => i.message).join('\n')}>
+                                                       <AlertTriangle size={12} />
+                                                   </span>
+                                               )}
+                                           </td>
+                                           <td className={`px-4 py-2.5 font-bold ${TYPE_COLORS[t.type]}`}>
                                                {t.type}
+                                               {isAction && <span className="block text-[9px] font-medium text-slate-400 normal-case">{describeCorporateAction(t)}</span>}
+                                               {!isAction && t.symbol.toUpperCase() !== stock.symbol && <span className="block text-[9px] font-medium text-slate-400">as {t.symbol.toUpperCase()}</span>}
                                            </td>
                                            <td className="px-4 py-2.5 text-slate-500 flex items-center gap-1">
                                               <span className="uppercase font-medium">{t.account}</span>
                                               <span className="text-[9px] font-bold bg-slate-100 px-1 rounded">{t.currency}</span>
                                            </td>
                                            <td className="px-4 py-2.5 text-slate-400">{t.exchange}</td>
-                                           <td className="px-4 py-2.5 text-right font-medium text-slate-700">{t.shares.toLocaleString()}</td>
-                                           <td className="px-4 py-2.5 text-right text-slate-600">{curSym}{t.price.toFixed(2)}</td>
-                                           <td className="px-4 py-2.5 text-right text-slate-600">{curSym}{(t.shares * t.price).toLocaleString(undefined, {minimumFractionDigits: 2})}</td>
-                                           <td className="px-4 py-2.5 text-right font-medium text-slate-400">
-                                               {currentTxValue !== null ? `${curSym}${currentTxValue.toLocaleString(undefined, {minimumFractionDigits: 2})}` : '-'}
+                                           <td className="px-4 py-2.5 text-right font-medium text-slate-700">{isAction ? '-' : t.shares.toLocaleString()}</td>
+                                           <td className="px-4 py-2.5 text-right text-slate-600">{isAction && t.type !== 'MERGER' ? '-' : `${curSym}${t.price.toFixed(2)}`}</td>
+                                           <td className="px-4 py-2.5 text-right text-slate-600">
+                                               {isAction ? '-' : `${curSym}${(t.shares * t.price).toLocaleString(undefined, {minimumFractionDigits: 2})}`}
+                                               {transactionFees(t) > 0 && <span className="block text-[9px] text-slate-400">{t.type === 'SELL' ? '-' : '+'}{curSym}{transactionFees(t).toFixed(2)} fees</span>}
+                                           </td>
+                                           <td className="px-4 py-2.5 text-right font-medium text-slate-400" title={stock.isCash ? 'Account balance after this entry' : undefined}>
+                                               {stock.isCash && cashRunning[t.id] !== undefined ? `${curSym}${cashRunning[t.id].toLocaleString(undefined, {minimumFractionDigits: 2})}` : currentTxValue !== null ? `${curSym}${currentTxValue.toLocaleString(undefined, {minimumFractionDigits: 2})}` : '-'}
                                            </td>
                                            <td className="px-4 py-2.5 text-right flex items-center justify-end gap-1">
                                                <button onClick={() => onEdit(t)} className="text-slate-300 hover:text-blue-600 transition-colors p-1.5 rounded-lg hover:bg-blue-50">
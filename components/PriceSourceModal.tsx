@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { X, SlidersHorizontal, FileText, AlertCircle } from 'lucide-react';
+import { PriceProviderId, PriceProviderSettings } from '../types';
+import { PRICE_PROVIDER_LABELS, parsePriceFile } from '../services/priceProviders';
+
+interface PriceSourceModalProps {
+  settings: PriceProviderSettings;
+  onSave: (settings: PriceProviderSettings) => void;
+  onClose: () => void;
+}
+
+const PROVIDER_DESCRIPTIONS: Record<PriceProviderId, string> = {
+  gemini: 'Asks Gemini to search the web for live quotes. Uses search-grounding quota on every refresh.',
+  mock: 'Deterministic made-up prices. Works offline; useful for demos and testing.',
+  file: 'Prices from a JSON ({"AAPL": 190.1}) or CSV (symbol,price) file you upload.',
+  http: 'Any quote service that returns JSON prices. Use {symbols} in the URL for the ticker list.',
+};
+
+const PriceSourceModal: React.FC<PriceSourceModalProps> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<PriceProviderSettings>(settings);
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        const filePrices = parsePriceFile(reader.result as string, file.name);
+        setDraft(prev => ({ ...prev, filePrices, fileName: file.name }));
+        setFileError(null);
+      } catch (err: any) {
+        setFileError(err?.message || 'Could not read price file.');
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const canSave = draft.providerId !== 'http' || !!draft.httpEndpoint?.trim();
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-lg overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="bg-slate-900 p-6 flex justify-between items-center shrink-0">
+          <h2 className="text-white text-xl font-bold flex items-center gap-2">
+            <SlidersHorizontal className="text-emerald-400" /> Market Data Source
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 flex-1 overflow-y-auto space-y-3">
+          {(Object.keys(PRICE_PROVIDER_LABELS) as PriceProviderId[]).map(id => (
+            <label
+              key={id}
+              className={`block p-4 border rounded-xl cursor-pointer transition-all ${draft.providerId === id ? 'border-indigo-400 bg-indigo-50/40' : 'border-slate-200 hover:border-indigo-200'}`}
+            >
+              <div className="flex items-center gap-3">
+                <input type="radio" name="provider" checked={draft.providerId === id} onChange={() => setDraft(prev => ({ ...prev, providerId: id }))} />
+                <span className="text-sm font-bold text-slate-800">{PRICE_PROVIDER_LABELS[id]}</span>
+              </div>
+              <p className="text-[10px] text-slate-500 mt-1 ml-6">{PROVIDER_DESCRIPTIONS[id]}</p>
+
+              {id === 'http' && draft.providerId === 'http' && (
+                <input
+                  type="url"
+                  value={draft.httpEndpoint || ''}
+                  onChange={e => setDraft(prev => ({ ...prev, httpEndpoint: e.target.value }))}
+                  placeholder="https://quotes.example.com/v1/last?symbols={symbols}"
+                  className="mt-3 w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-xs"
+                />
+              )}
+              {id === 'http' && draft.providerId === 'http' && (
+                <input
+                  type="url"
+                  value={draft.httpHistoryEndpoint || ''}
+                  onChange={e => setDraft(prev => ({ ...prev, httpHistoryEndpoint: e.target.value }))}
+                  placeholder="Optional history URL: https://quotes.example.com/v1/daily/{symbol}?from={from}&to={to}"
+                  className="mt-2 w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-xs"
+                />
+              )}
+
+              {id === 'file' && draft.providerId === 'file' && (
+                <div className="mt-3 ml-6 flex items-center gap-3">
+                  <input type="file" accept=".json,.csv" className="hidden" id="price-file-upload" onChange={handleFileSelect} />
+                  <label htmlFor="price-file-upload" className="px-3 py-1.5 bg-white border border-slate-300 rounded-lg text-xs font-medium cursor-pointer hover:bg-slate-50">Choose File</label>
+                  {draft.fileName && (
+                    <span className="text-[10px] text-slate-500 flex items-center gap-1">
+                      <FileText size={12} /> {draft.fileName} ({Object.keys(draft.filePrices || {}).length} symbols)
+                    </span>
+                  )}
+                </div>
+              )}
+            </label>
+          ))}
+
+          {fileError && (
+            <div className="p-3 bg-rose-50 border border-rose-100 text-rose-700 rounded-xl text-xs flex items-start gap-2">
+              <AlertCircle size={14} className="shrink-0 mt-0.5 text-rose-500" />
+              <span>{fileError}</span>
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-slate-100 bg-slate-50 shrink-0 flex justify-end gap-3">
+          <button onClick={onClose} className="px-5 py-2 text-slate-600 font-medium hover:bg-slate-200 rounded-lg">Cancel</button>
+          <button
+            onClick={() => { onSave(draft); onClose(); }}
+            disabled={!canSave}
+            className="px-5 py-2 bg-indigo-600 text-white font-medium hover:bg-indigo-700 rounded-lg shadow-sm disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PriceSourceModal;
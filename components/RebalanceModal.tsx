@@ -0,0 +1,327 @@
+import React, { useMemo, useState } from 'react';
+import { X, Scale, Plus, Trash2, Download, AlertTriangle, Save } from 'lucide-react';
+import { AllocationDrift, AllocationMode, AllocationModel, AllocationTarget, BaseCurrency, ProposedOrder, RebalanceOptions, StockSummary } from '../types';
+import { DEFAULT_REBALANCE_OPTIONS, UNCLASSIFIED, ordersToCsv, proposeRebalance } from '../services/rebalance';
+import { normalizeSymbol } from '../services/ledgerEngine';
+
+interface RebalanceModalProps {
+  portfolio: StockSummary[];
+  model: AllocationModel;
+  onModelChange: (model: AllocationModel) => void;
+  currentPrices: Record<string, number>;
+  baseCurrency: BaseCurrency;
+  usdCad: number | null;
+  accountNames: string[];
+  onRecordOrder: (order: ProposedOrder) => void;
+  onClose: () => void;
+}
+
+const formatMoney = (value: number, currency: string) => {
+  const symbol = currency === 'CAD' ? 'C$' : '$';
+  return `${value < 0 ? '-' : ''}${symbol}${Math.abs(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+};
+
+const downloadCsv = (csv: string) => {
+  const blob = new Blob([csv], { type: 'text/csv' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url; a.download = 'rebalance_orders.csv';
+  a.click();
+};
+
+const RebalanceModal: React.FC<RebalanceModalProps> = ({ portfolio, model, onModelChange, currentPrices, baseCurrency, usdCad, accountNames, onRecordOrder, onClose }) => {
+  const [options, setOptions] = useState<RebalanceOptions>({ ...DEFAULT_REBALANCE_OPTIONS, defaultAccount: accountNames[0] || '' });
+  const [newKey, setNewKey] = useState('');
+
+  const heldSymbols = useMemo(
+    () => Array.from(new Set(portfolio.filter(s => !s.isCash && s.totalShares > 0).map(s => normalizeSymbol(s.symbol)))).sort(),
+    [portfolio]
+  );
+  const assetClasses = useMemo(
+    () => Array.from(new Set([...Object.values(model.assetClasses), ...model.targets.map(t => t.key)])).filter(Boolean).sort(),
+    [model]
+  );
+
+  const result = useMemo(
+    () => proposeRebalance(portfolio, model, options, currentPrices, baseCurrency, usdCad),
+    [portfolio, model, options, currentPrices, baseCurrency, usdCad]
+  );
+  const weightSum = model.targets.reduce((sum, t) => sum + (t.weight > 0 ? t.weight : 0), 0);
+
+  const setMode = (mode: AllocationMode) => {
+    if (mode === model.mode) return;
+    if (model.targets.length > 0 && !window.confirm('Switching modes clears the current targets. Continue?')) return;
+    onModelChange({ ...model, mode, targets: [] });
+  };
+
+  const updateTarget = (key: string, fields: Partial<AllocationTarget>) =>
+    onModelChange({ ...model, targets: model.targets.map(t => (t.key === key ? { ...t, ...fields } : t)) });
+
+  const addTarget = (raw: string) => {
+    const key = model.mode === 'symbol' ? normalizeSymbol(raw) : raw.trim();
+    if (!key || model.targets.some(t => t.key === key)) return;
+    onModelChange({ ...model, targets: [...model.targets, { key, weight: 0 }] });
+    setNewKey('');
+  };
+
+  const setAssetClass = (symbol: string, assetClass: string) => {
+    const next = { ...model.assetClasses };
+    if (assetClass.trim()) next[symbol] = assetClass.trim();
+    else delete next[symbol];
+    onModelChange({ ...model, assetClasses: next });
+  };
+
+  const driftByKey = new Map<string, AllocationDrift>(result.drift.map(d => [d.key, d]));
+  const untargeted = result.drift.filter(d => !model.targets.some(t => t.key === d.key));
+  const suggestions = model.mode === 'symbol' ? heldSymbols : assetClasses;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-5xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="bg-slate-900 p-6 flex justify-between items-center shrink-0">
+          <h2 className="text-white text-xl font-bold flex items-center gap-2">
+            <Scale className="text-emerald-400" /> Target Allocation
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 flex-1 overflow-y-auto space-y-6">
+          <div className="flex flex-wrap gap-2">
+            {([['symbol', 'By Symbol'], ['assetClass', 'By Asset Class']] as [AllocationMode, string][]).map(([mode, label]) => (
+              <button
+                key={mode}
+                onClick={() => setMode(mode)}
+                className={`px-4 py-2 rounded-lg text-xs font-bold transition-colors ${model.mode === mode ? 'bg-indigo-600 text-white' : 'bg-white border border-slate-200 text-slate-600'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {model.mode === 'assetClass' && heldSymbols.length > 0 && (
+            <div>
+              <h3 className="text-slate-800 text-xs font-black uppercase tracking-widest mb-2">Asset Classes</h3>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                {heldSymbols.map(symbol => (
+                  <label key={symbol} className="flex items-center gap-2 text-xs p-2 bg-slate-50 rounded-lg">
+                    <span className="font-bold text-slate-700 w-20 truncate">{symbol}</span>
+                    <input
+                      list="rebalance-classes"
+                      defaultValue={model.assetClasses[symbol] || ''}
+                      placeholder={UNCLASSIFIED}
+                      onBlur={e => setAssetClass(symbol, e.target.value)}
+                      className="flex-1 min-w-0 px-2 py-1 border rounded-lg text-xs"
+                    />
+                  </label>
+                ))}
+              </div>
+              <datalist id="rebalance-classes">
+                {assetClasses.map(c => <option key={c} value={c} />)}
+              </datalist>
+            </div>
+          )}
+
+          <div>
+            <h3 className="text-slate-800 text-xs font-black uppercase tracking-widest mb-2">
+              Targets <span className={Math.abs(weightSum - 100) > 0.01 ? 'text-amber-600' : 'text-slate-400'}>({weightSum.toFixed(2)}%)</span>
+            </h3>
+            <table className="w-full text-xs text-left">
+              <thead className="text-slate-400 uppercase tracking-wider text-[10px]">
+                <tr>
+                  <th className="px-3 py-2">{model.mode === 'symbol' ? 'Symbol' : 'Asset Class'}</th>
+                  <th className="px-3 py-2 text-right">Value ({baseCurrency})</th>
+                  <th className="px-3 py-2 text-right">Current</th>
+                  <th className="px-3 py-2 text-right">Target %</th>
+                  <th className="px-3 py-2 text-right">Drift</th>
+                  {model.mode === 'assetClass' && <th className="px-3 py-2">Buy With</th>}
+                  <th className="px-3 py-2">Buy In Account</th>
+                  <th className="px-3 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {model.targets.map(target => {
+                  const drift = driftByKey.get(target.key);
+                  return (
+                    <tr key={target.key}>
+                      <td className="px-3 py-2 font-bold text-slate-700">{target.key}</td>
+                      <td className="px-3 py-2 text-right text-slate-600">{formatMoney(drift?.currentValue || 0, baseCurrency)}</td>
+                      <td className="px-3 py-2 text-right text-slate-600">{(drift?.currentWeight || 0).toFixed(2)}%</td>
+                      <td className="px-3 py-2 text-right">
+                        <input
+                          type="number"
+                          step="any"
+                          min="0"
+                          value={target.weight}
+                          onChange={e => updateTarget(target.key, { weight: Number(e.target.value) || 0 })}
+                          className="w-20 px-2 py-1 border rounded-lg text-right text-xs"
+                        />
+                      </td>
+                      <td className={`px-3 py-2 text-right font-bold ${Math.abs(drift?.drift || 0) < 1 ? 'text-slate-400' : (drift?.drift || 0) > 0 ? 'text-amber-600' : 'text-indigo-600'}`}>
+                        {(drift?.drift || 0) >= 0 ? '+' : ''}{(drift?.drift || 0).toFixed(2)}%
+                      </td>
+                      {model.mode === 'assetClass' && (
+                        <td className="px-3 py-2">
+                          <input
+                            defaultValue={target.buySymbol || ''}
+                            placeholder="Largest holding"
+                            onBlur={e => updateTarget(target.key, { buySymbol: e.target.value.trim() ? normalizeSymbol(e.target.value) : undefined })}
+                            className="w-28 px-2 py-1 border rounded-lg text-xs uppercase"
+                          />
+                        </td>
+                      )}
+                      <td className="px-3 py-2">
+                        <select
+                          value={target.account || ''}
+                          onChange={e => updateTarget(target.key, { account: e.target.value || undefined })}
+                          className="px-2 py-1 border rounded-lg text-xs bg-white"
+                        >
+                          <option value="">Default</option>
+                          {accountNames.map(name => <option key={name} value={name}>{name}</option>)}
+                        </select>
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        <button
+                          onClick={() => onModelChange({ ...model, targets: model.targets.filter(t => t.key !== target.key) })}
+                          className="text-slate-300 hover:text-rose-500"
+                          title="Remove target"
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+                {untargeted.map(d => (
+                  <tr key={d.key} className="text-slate-400">
+                    <td className="px-3 py-2 font-bold">{d.key}</td>
+                    <td className="px-3 py-2 text-right">{formatMoney(d.currentValue, baseCurrency)}</td>
+                    <td className="px-3 py-2 text-right">{d.currentWeight.toFixed(2)}%</td>
+                    <td className="px-3 py-2 text-right italic">No target</td>
+                    <td className="px-3 py-2 text-right">+{d.drift.toFixed(2)}%</td>
+                    <td className="px-3 py-2" colSpan={model.mode === 'assetClass' ? 3 : 2}>
+                      <button onClick={() => addTarget(d.key)} className="text-[10px] font-bold text-indigo-600 hover:text-indigo-800">Add target</button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="flex gap-2 mt-3">
+              <input
+                list="rebalance-keys"
+                value={newKey}
+                onChange={e => setNewKey(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && addTarget(newKey)}
+                placeholder={model.mode === 'symbol' ? 'Symbol, e.g. XEQT.TO' : 'Asset class, e.g. Bonds'}
+                className="px-3 py-2 border rounded-lg text-xs focus:ring-2 focus:ring-blue-500 outline-none"
+              />
+              <datalist id="rebalance-keys">
+                {suggestions.filter(s => !model.targets.some(t => t.key === s)).map(s => <option key={s} value={s} />)}
+              </datalist>
+              <button onClick={() => addTarget(newKey)} className="flex items-center gap-1 px-3 py-2 bg-slate-900 text-white rounded-lg text-xs font-bold">
+                <Plus size={14} /> Add Target
+              </button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4 p-4 bg-slate-50 rounded-xl border border-slate-100">
+            <div>
+              <label className="block text-slate-700 text-xs font-bold mb-1">New Cash ({baseCurrency})</label>
+              <input type="number" step="any" min="0" value={options.newCash} onChange={e => setOptions(o => ({ ...o, newCash: Number(e.target.value) || 0 }))} className="w-full px-3 py-2 border rounded-lg text-xs" />
+            </div>
+            <div>
+              <label className="block text-slate-700 text-xs font-bold mb-1">Minimum Trade ({baseCurrency})</label>
+              <input type="number" step="any" min="0" value={options.minTradeSize} onChange={e => setOptions(o => ({ ...o, minTradeSize: Number(e.target.value) || 0 }))} className="w-full px-3 py-2 border rounded-lg text-xs" />
+            </div>
+            <div>
+              <label className="block text-slate-700 text-xs font-bold mb-1">Default Account</label>
+              <select value={options.defaultAccount} onChange={e => setOptions(o => ({ ...o, defaultAccount: e.target.value }))} className="w-full px-3 py-2 border rounded-lg text-xs bg-white">
+                <option value="">Where it is held</option>
+                {accountNames.map(name => <option key={name} value={name}>{name}</option>)}
+              </select>
+            </div>
+            <label className="flex items-center gap-2 text-xs font-bold text-slate-700">
+              <input type="checkbox" checked={options.allowSells} onChange={e => setOptions(o => ({ ...o, allowSells: e.target.checked }))} /> Allow sells
+            </label>
+            <label className="flex items-center gap-2 text-xs font-bold text-slate-700">
+              <input type="checkbox" checked={options.wholeShares} onChange={e => setOptions(o => ({ ...o, wholeShares: e.target.checked }))} /> Whole shares only
+            </label>
+          </div>
+
+          {result.warnings.length > 0 && (
+            <div className="p-4 bg-amber-50 border border-amber-100 rounded-xl space-y-1">
+              {result.warnings.map(w => (
+                <p key={w} className="text-xs text-amber-800 flex items-start gap-1.5"><AlertTriangle size={12} className="mt-0.5 shrink-0" /> {w}</p>
+              ))}
+            </div>
+          )}
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-slate-800 text-xs font-black uppercase tracking-widest">Proposed Orders</h3>
+              {result.orders.length > 0 && (
+                <button onClick={() => downloadCsv(ordersToCsv(result.orders))} className="flex items-center gap-1 text-[10px] font-bold text-indigo-600 hover:bg-indigo-50 px-2 py-1 rounded-lg">
+                  <Download size={12} /> Export CSV
+                </button>
+              )}
+            </div>
+            {result.orders.length === 0 ? (
+              <p className="text-xs text-slate-300 italic p-6 text-center border-2 border-dashed border-slate-100 rounded-2xl">
+                {model.targets.length === 0 ? 'Add targets to see proposed orders.' : 'Nothing to trade: the portfolio is within the minimum trade size of its targets.'}
+              </p>
+            ) : (
+              <table className="w-full text-xs text-left">
+                <thead className="text-slate-400 uppercase tracking-wider text-[10px]">
+                  <tr>
+                    <th className="px-3 py-2">Action</th>
+                    <th className="px-3 py-2">Symbol</th>
+                    <th className="px-3 py-2 text-right">Shares</th>
+                    <th className="px-3 py-2 text-right">Price</th>
+                    <th className="px-3 py-2 text-right">Amount ({baseCurrency})</th>
+                    <th className="px-3 py-2">Account</th>
+                    <th className="px-3 py-2"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {result.orders.map(order => (
+                    <tr key={`${order.type}_${order.symbol}_${order.account}`}>
+                      <td className={`px-3 py-2 font-black ${order.type === 'BUY' ? 'text-emerald-600' : 'text-rose-600'}`}>{order.type}</td>
+                      <td className="px-3 py-2 font-bold text-slate-700">
+                        {order.symbol}
+                        {order.targetKey !== order.symbol && <span className="block text-[10px] font-normal text-slate-400">{order.targetKey}</span>}
+                      </td>
+                      <td className="px-3 py-2 text-right text-slate-600">{order.shares.toLocaleString(undefined, { maximumFractionDigits: 4 })}</td>
+                      <td className="px-3 py-2 text-right text-slate-600">{formatMoney(order.price, order.currency)}</td>
+                      <td className="px-3 py-2 text-right font-bold text-slate-900">{formatMoney(order.amount, baseCurrency)}</td>
+                      <td className="px-3 py-2 text-slate-600">{order.account || '-'}</td>
+                      <td className="px-3 py-2 text-right">
+                        <button onClick={() => onRecordOrder(order)} className="flex items-center gap-1 ml-auto text-[10px] font-bold text-indigo-600 hover:bg-indigo-50 px-2 py-1 rounded-lg" title="Open the transaction form with this order filled in">
+                          <Save size={12} /> Record
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            {(options.newCash > 0 || !options.allowSells) && (
+              <p className="text-[10px] text-slate-500 mt-2">Cash left over after these orders: {formatMoney(result.unallocatedCash, baseCurrency)}</p>
+            )}
+          </div>
+
+          <p className="text-[10px] text-slate-400">
+            Weights are measured on invested holdings at current prices, in {baseCurrency}; uninvested cash only counts as the new cash entered above.
+            Prices move, so check each order with your broker before placing it, then record the fill.
+          </p>
+        </div>
+
+        <div className="p-6 border-t border-slate-100 bg-slate-50 shrink-0 flex justify-end">
+          <button onClick={onClose} className="px-5 py-2 bg-slate-900 text-white font-medium hover:bg-slate-800 rounded-lg">Done</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RebalanceModal;
@@ -0,0 +1,174 @@
+import React, { useMemo, useState } from 'react';
+import { X, Percent, AlertTriangle } from 'lucide-react';
+import { Account, BaseCurrency, FxRateHistory, PriceHistory, ReturnPeriod, ReturnResult, Transaction } from '../types';
+import { RETURN_PERIODS, RETURN_PERIOD_LABELS, buildReturnsReport } from '../services/returns';
+
+interface ReturnsModalProps {
+  transactions: Transaction[];
+  priceHistory: PriceHistory;
+  currentPrices: Record<string, number>;
+  accounts: Account[];
+  baseCurrency: BaseCurrency;
+  fxRates: FxRateHistory;
+  isFiltered: boolean;
+  onClose: () => void;
+}
+
+const formatMoney = (value: number, currency: string) => {
+  const symbol = currency === 'CAD' ? 'C$' : '$';
+  return `${value < 0 ? '-' : ''}${symbol}${Math.abs(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+};
+
+const formatPercent = (value: number | null) =>
+  value === null ? '-' : `${value >= 0 ? '+' : ''}${(value * 100).toFixed(2)}%`;
+
+const percentClass = (value: number | null) =>
+  value === null ? 'text-slate-400' : value >= 0 ? 'text-emerald-600' : 'text-rose-600';
+
+const ReturnCells: React.FC<{ result: ReturnResult | null; currency: string }> = ({ result, currency }) => (
+  <>
+    <td className={`px-3 py-2 text-right font-bold ${percentClass(result?.twr ?? null)}`}>{formatPercent(result?.twr ?? null)}</td>
+    <td className={`px-3 py-2 text-right ${percentClass(result?.twrAnnualized ?? null)}`}>{formatPercent(result?.twrAnnualized ?? null)}</td>
+    <td className={`px-3 py-2 text-right font-bold ${percentClass(result?.xirr ?? null)}`}>{formatPercent(result?.xirr ?? null)}</td>
+    <td className={`px-3 py-2 text-right ${(result?.gain || 0) >= 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
+      {result ? formatMoney(result.gain, currency) : '-'}
+      {result?.missingFx && <span className="ml-1 text-amber-500" title="Some amounts had no USD/CAD rate and were left out">*</span>}
+    </td>
+  </>
+);
+
+const ReturnHeaders: React.FC = () => (
+  <>
+    <th className="px-3 py-2 text-right">TWR</th>
+    <th className="px-3 py-2 text-right">TWR / yr</th>
+    <th className="px-3 py-2 text-right">XIRR</th>
+    <th className="px-3 py-2 text-right">Gain</th>
+  </>
+);
+
+const ReturnsModal: React.FC<ReturnsModalProps> = ({ transactions, priceHistory, currentPrices, accounts, baseCurrency, fxRates, isFiltered, onClose }) => {
+  const [period, setPeriod] = useState<ReturnPeriod>('ALL');
+
+  const report = useMemo(
+    () => buildReturnsReport(transactions, priceHistory, currentPrices, period, accounts, baseCurrency, fxRates),
+    [transactions, priceHistory, currentPrices, period, accounts, baseCurrency, fxRates]
+  );
+  const portfolio = report.portfolio;
+  const hasMissingFx = [portfolio, ...report.accounts.map(a => a.result)].some(r => r?.missingFx);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-5xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="bg-slate-900 p-6 flex justify-between items-center shrink-0">
+          <h2 className="text-white text-xl font-bold flex items-center gap-2">
+            <Percent className="text-emerald-400" /> Returns
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 flex-1 overflow-y-auto space-y-6">
+          <div className="flex flex-wrap gap-2">
+            {RETURN_PERIODS.map(p => (
+              <button
+                key={p}
+                onClick={() => setPeriod(p)}
+                className={`px-4 py-2 rounded-lg text-xs font-bold transition-colors ${period === p ? 'bg-indigo-600 text-white' : 'bg-white border border-slate-200 text-slate-600'}`}
+              >
+                {RETURN_PERIOD_LABELS[p]}
+              </button>
+            ))}
+          </div>
+
+          {!portfolio ? (
+            <p className="text-xs text-slate-300 italic p-6 text-center border-2 border-dashed border-slate-100 rounded-2xl">No trades to measure yet.</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {[
+                  { label: 'Time-Weighted', value: portfolio.twr, note: portfolio.twrAnnualized !== null ? `${formatPercent(portfolio.twrAnnualized)} per year` : 'Cumulative' },
+                  { label: 'Money-Weighted (XIRR)', value: portfolio.xirr, note: 'Per year' },
+                ].map(card => (
+                  <div key={card.label} className="p-4 rounded-xl border border-slate-100 bg-slate-50">
+                    <p className="text-[10px] font-black uppercase tracking-widest text-slate-500">{card.label}</p>
+                    <p className={`text-2xl font-black ${percentClass(card.value)}`}>{formatPercent(card.value)}</p>
+                    <p className="text-[10px] text-slate-400">{card.note}</p>
+                  </div>
+                ))}
+                <div className="p-4 rounded-xl border border-slate-100 bg-slate-50">
+                  <p className="text-[10px] font-black uppercase tracking-widest text-slate-500">Gain</p>
+                  <p className={`text-2xl font-black ${portfolio.gain >= 0 ? 'text-emerald-600' : 'text-rose-600'}`}>{formatMoney(portfolio.gain, baseCurrency)}</p>
+                  <p className="text-[10px] text-slate-400">Net invested {formatMoney(portfolio.netFlows, baseCurrency)}</p>
+                </div>
+                <div className="p-4 rounded-xl border border-slate-100 bg-slate-50">
+                  <p className="text-[10px] font-black uppercase tracking-widest text-slate-500">Value</p>
+                  <p className="text-2xl font-black text-slate-900">{formatMoney(portfolio.endValue, baseCurrency)}</p>
+                  <p className="text-[10px] text-slate-400">From {formatMoney(portfolio.startValue, baseCurrency)} on {portfolio.start}</p>
+                </div>
+              </div>
+
+              {hasMissingFx && (
+                <p className="text-xs text-amber-700 bg-amber-50 border border-amber-100 rounded-xl p-3 flex items-center gap-2">
+                  <AlertTriangle size={14} /> Some {baseCurrency === 'CAD' ? 'USD' : 'CAD'} amounts had no USD/CAD rate and were left out. Add rates in the currency settings.
+                </p>
+              )}
+
+              {report.accounts.length > 1 && (
+                <div>
+                  <h3 className="text-slate-800 text-xs font-black uppercase tracking-widest mb-2">By Account <span className="text-slate-400">({baseCurrency})</span></h3>
+                  <table className="w-full text-xs text-left">
+                    <thead className="text-slate-400 uppercase tracking-wider text-[10px]">
+                      <tr><th className="px-3 py-2">Account</th><ReturnHeaders /></tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                      {report.accounts.map(a => (
+                        <tr key={a.name}>
+                          <td className="px-3 py-2 font-bold text-slate-700">{a.name || '(blank)'}</td>
+                          <ReturnCells result={a.result} currency={baseCurrency} />
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              <div>
+                <h3 className="text-slate-800 text-xs font-black uppercase tracking-widest mb-2">By Holding <span className="text-slate-400">(own currency)</span></h3>
+                <table className="w-full text-xs text-left">
+                  <thead className="text-slate-400 uppercase tracking-wider text-[10px]">
+                    <tr><th className="px-3 py-2">Holding</th><ReturnHeaders /></tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {report.holdings.filter(h => h.result).map(h => (
+                      <tr key={`${h.symbol}_${h.currency}`}>
+                        <td className="px-3 py-2">
+                          <span className="font-bold text-slate-700">{h.symbol}</span>{' '}
+                          <span className="text-[9px] font-black px-1 rounded bg-slate-100 text-slate-500">{h.currency}</span>
+                          <span className="block text-[10px] text-slate-400 truncate">{h.name}</span>
+                        </td>
+                        <ReturnCells result={h.result} currency={h.currency} />
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+
+          <p className="text-[10px] text-slate-400">
+            Time-weighted return ignores when money went in and measures the investments; XIRR weights each dollar by how long it was invested.
+            Uninvested cash is left out. Holdings are valued at stored closing prices, so fetch or import price history for accurate figures.
+            {isFiltered && ' Only the accounts selected in the filter are included.'}
+          </p>
+        </div>
+
+        <div className="p-6 border-t border-slate-100 bg-slate-50 shrink-0 flex justify-end">
+          <button onClick={onClose} className="px-5 py-2 bg-slate-900 text-white font-medium hover:bg-slate-800 rounded-lg">Done</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReturnsModal;
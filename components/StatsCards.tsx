@@ -1,10 +1,12 @@
 
 import React from 'react';
-import { TrendingUp, TrendingDown, DollarSign, Wallet } from 'lucide-react';
-import { PortfolioStats, CurrencyStats } from '../types';
+import { TrendingUp, TrendingDown, DollarSign, Wallet, Coins } from 'lucide-react';
+import { PortfolioStats, CurrencyStats, BaseCurrency } from '../types';
 
 interface StatsCardsProps {
   stats: PortfolioStats;
+  baseCurrency: BaseCurrency;
+  consolidated: CurrencyStats | null; // Totals in the base currency, null without an FX rate
 }
 
 const CurrencyStatRow: React.FC<{ 
@@ -12,12 +14,13 @@ const CurrencyStatRow: React.FC<{
   value: number, 
   currency: string, 
   className?: string,
-  percent?: number
-}> = ({ label, value, currency, className = "", percent }) => {
+  percent?: number,
+  caption?: string
+}> = ({ label, value, currency, className = "", percent, caption }) => {
   const symbol = currency === 'CAD' ? 'C$' : '$';
   return (
     <div className={`flex justify-between items-baseline gap-2 ${className}`}>
-      <span className="text-[10px] font-bold text-slate-400 uppercase tracking-tighter">{currency}</span>
+      <span className="text-[10px] font-bold text-slate-400 uppercase tracking-tighter">{caption ?? currency}</span>
       <div className="text-right">
         <span className="text-lg font-bold">
           {value >= 0 ? '' : '-'}{symbol}{Math.abs(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
@@ -32,17 +35,34 @@ const CurrencyStatRow: React.FC<{
   );
 };
 
-const StatsCards: React.FC<StatsCardsProps> = ({ stats }) => {
+const ConsolidatedRow: React.FC<{ 
+  value: number | undefined, 
+  currency: BaseCurrency,
+  percent?: number
+}> = ({ value, currency, percent }) => (
+  <div className="border-t border-slate-100 pt-1.5 mt-1.5">
+    {value === undefined ? (
+      <span className="text-[10px] font-bold text-slate-300 uppercase tracking-tighter">Add a USD/CAD rate for totals</span>
+    ) : (
+      <CurrencyStatRow currency={currency} value={value} label="Total" percent={percent} caption={`Total ${currency}`} className="text-indigo-700" />
+    )}
+  </div>
+);
+
+const StatsCards: React.FC<StatsCardsProps> = ({ stats, baseCurrency, consolidated }) => {
   const { USD, CAD } = stats;
   
   const usdUnrealizedPercent = USD.totalCostBasis > 0 ? (USD.totalUnrealizedPL / USD.totalCostBasis) * 100 : 0;
   const cadUnrealizedPercent = CAD.totalCostBasis > 0 ? (CAD.totalUnrealizedPL / CAD.totalCostBasis) * 100 : 0;
 
-  const hasUSD = USD.totalValue !== 0 || USD.totalRealizedPL !== 0 || USD.totalCostBasis !== 0;
-  const hasCAD = CAD.totalValue !== 0 || CAD.totalRealizedPL !== 0 || CAD.totalCostBasis !== 0;
+  const hasUSD = USD.totalValue !== 0 || USD.totalRealizedPL !== 0 || USD.totalCostBasis !== 0 || USD.totalIncome !== 0 || USD.totalCash !== 0;
+  const hasCAD = CAD.totalValue !== 0 || CAD.totalRealizedPL !== 0 || CAD.totalCostBasis !== 0 || CAD.totalIncome !== 0 || CAD.totalCash !== 0;
+  // Totals only add information when both currencies are held
+  const showTotals = hasUSD && hasCAD;
+  const totalUnrealizedPercent = consolidated && consolidated.totalCostBasis > 0 ? (consolidated.totalUnrealizedPL / consolidated.totalCostBasis) * 100 : 0;
 
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5 gap-4 mb-6">
       {/* Portfolio Value */}
       <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200">
         <div className="flex items-center justify-between mb-3">
@@ -52,7 +72,10 @@ const StatsCards: React.FC<StatsCardsProps> = ({ stats }) => {
         <div className="space-y-1">
           {hasUSD && <CurrencyStatRow currency="USD" value={USD.totalValue} label="Value" />}
           {hasCAD && <CurrencyStatRow currency="CAD" value={CAD.totalValue} label="Value" />}
+          {USD.totalCash !== 0 && <CurrencyStatRow currency="USD" value={USD.totalCash} label="Cash" caption="USD cash" className="text-slate-500" />}
+          {CAD.totalCash !== 0 && <CurrencyStatRow currency="CAD" value={CAD.totalCash} label="Cash" caption="CAD cash" className="text-slate-500" />}
           {!hasUSD && !hasCAD && <div className="text-lg font-bold text-slate-300">$0.00</div>}
+          {showTotals && <ConsolidatedRow currency={baseCurrency} value={consolidated?.totalValue} />}
         </div>
       </div>
 
@@ -68,6 +91,7 @@ const StatsCards: React.FC<StatsCardsProps> = ({ stats }) => {
           {hasUSD && <CurrencyStatRow currency="USD" value={USD.totalUnrealizedPL} label="P/L" percent={usdUnrealizedPercent} />}
           {hasCAD && <CurrencyStatRow currency="CAD" value={CAD.totalUnrealizedPL} label="P/L" percent={cadUnrealizedPercent} />}
           {!hasUSD && !hasCAD && <div className="text-lg font-bold text-slate-300">$0.00</div>}
+          {showTotals && <ConsolidatedRow currency={baseCurrency} value={consolidated?.totalUnrealizedPL} percent={totalUnrealizedPercent} />}
         </div>
       </div>
 
@@ -81,6 +105,21 @@ const StatsCards: React.FC<StatsCardsProps> = ({ stats }) => {
           {hasUSD && <CurrencyStatRow currency="USD" value={USD.totalRealizedPL} label="Profit" />}
           {hasCAD && <CurrencyStatRow currency="CAD" value={CAD.totalRealizedPL} label="Profit" />}
           {!hasUSD && !hasCAD && <div className="text-lg font-bold text-slate-300">$0.00</div>}
+          {showTotals && <ConsolidatedRow currency={baseCurrency} value={consolidated?.totalRealizedPL} />}
+        </div>
+      </div>
+
+      {/* Income */}
+      <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-slate-500 text-xs font-black uppercase tracking-widest">Income</h3>
+          <div className="p-1.5 bg-violet-50 text-violet-600 rounded-lg"><Coins size={16} /></div>
+        </div>
+        <div className="space-y-1">
+          {hasUSD && <CurrencyStatRow currency="USD" value={USD.totalIncome} label="Income" />}
+          {hasCAD && <CurrencyStatRow currency="CAD" value={CAD.totalIncome} label="Income" />}
+          {!hasUSD && !hasCAD && <div className="text-lg font-bold text-slate-300">$0.00</div>}
+          {showTotals && <ConsolidatedRow currency={baseCurrency} value={consolidated?.totalIncome} />}
         </div>
       </div>
 
@@ -94,6 +133,7 @@ const StatsCards: React.FC<StatsCardsProps> = ({ stats }) => {
           {hasUSD && <CurrencyStatRow currency="USD" value={USD.totalCostBasis} label="Cost" />}
           {hasCAD && <CurrencyStatRow currency="CAD" value={CAD.totalCostBasis} label="Cost" />}
           {!hasUSD && !hasCAD && <div className="text-lg font-bold text-slate-300">$0.00</div>}
+          {showTotals && <ConsolidatedRow currency={baseCurrency} value={consolidated?.totalCostBasis} />}
         </div>
       </div>
     </div>
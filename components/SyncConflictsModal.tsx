@@ -0,0 +1,104 @@
+import React from 'react';
+import { X, GitMerge, CheckCircle2 } from 'lucide-react';
+import { SyncConflict, Transaction } from '../types';
+
+interface SyncConflictsModalProps {
+  conflicts: SyncConflict[];
+  disabled: boolean; // While a sync is running
+  onKeepLocal: (conflict: SyncConflict) => void;
+  onUseRemote: (conflict: SyncConflict) => void;
+  onClose: () => void;
+}
+
+const describe = (t: Transaction | null) =>
+  t ? `${t.date} · ${t.type} ${t.symbol} · ${t.account}` : 'Deleted';
+
+const formatField = (t: Transaction | null, field: string) => {
+  if (!t) return '—';
+  const value: unknown = t[field as keyof Transaction];
+  return value === undefined || value === null || value === '' ? '—' : String(value);
+};
+
+const SyncConflictsModal: React.FC<SyncConflictsModalProps> = ({ conflicts, disabled, onKeepLocal, onUseRemote, onClose }) => {
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-[60] p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-3xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="bg-slate-900 p-6 flex justify-between items-center shrink-0">
+          <h2 className="text-white text-xl font-bold flex items-center gap-2">
+            <GitMerge className="text-amber-400" /> Sync Conflicts
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 flex-1 overflow-y-auto">
+          {conflicts.length === 0 ? (
+            <div className="h-40 flex flex-col items-center justify-center gap-2 text-slate-400 text-sm">
+              <CheckCircle2 size={24} className="text-emerald-500" /> No conflicts to review.
+            </div>
+          ) : (
+            <>
+              <p className="text-slate-600 text-sm mb-4">
+                These transactions were changed on this device and on another one before they synced. Changes to different fields were combined; where both changed the same field, this device's value was kept.
+              </p>
+              <div className="space-y-4">
+                {conflicts.map(conflict => {
+                  // Deletions have no fields to compare
+                  const fields = conflict.local && conflict.remote ? conflict.fields : [];
+                  return (
+                    <div key={conflict.id} className="border border-slate-200 rounded-xl overflow-hidden">
+                      <div className="flex items-center justify-between px-4 py-2 bg-slate-50">
+                        <span className="text-xs font-bold text-slate-700">{describe(conflict.local || conflict.remote)}</span>
+                        <div className="flex gap-1">
+                          <button onClick={() => onKeepLocal(conflict)} disabled={disabled} className="px-2 py-1 rounded-md text-[10px] font-bold bg-indigo-600 text-white disabled:opacity-50">
+                            Keep This Device
+                          </button>
+                          <button onClick={() => onUseRemote(conflict)} disabled={disabled} className="px-2 py-1 rounded-md text-[10px] font-bold bg-white border border-slate-200 text-slate-600 disabled:opacity-50">
+                            Use Other Device
+                          </button>
+                        </div>
+                      </div>
+                      {fields.length > 0 ? (
+                        <table className="w-full text-xs">
+                          <thead className="text-[10px] uppercase text-slate-400">
+                            <tr>
+                              <th className="px-4 py-2 text-left font-bold">Field</th>
+                              <th className="px-4 py-2 text-right font-bold">This Device</th>
+                              <th className="px-4 py-2 text-right font-bold">Other Device</th>
+                            </tr>
+                          </thead>
+                          <tbody className="divide-y divide-slate-100 text-slate-600">
+                            {fields.map(field => (
+                              <tr key={field}>
+                                <td className="px-4 py-2 font-medium">{field}</td>
+                                <td className="px-4 py-2 text-right">{formatField(conflict.local, field)}</td>
+                                <td className="px-4 py-2 text-right">{formatField(conflict.remote, field)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      ) : (
+                        <p className="px-4 py-2 text-xs text-slate-600">
+                          {conflict.local ? 'Deleted on the other device; kept here because it was edited on this one.' : 'Deleted on this device; restored because it was edited on the other one.'}
+                        </p>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-slate-100 bg-slate-50 shrink-0 flex justify-end">
+          <button onClick={onClose} className="px-5 py-2 bg-slate-900 text-white font-medium hover:bg-slate-800 rounded-lg">
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SyncConflictsModal;
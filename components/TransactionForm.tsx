@@ -1,27 +1,40 @@
 import React, { useState, useEffect } from 'react';
-import { Transaction, TransactionType } from '../types';
+import { Account, LedgerIssue, Transaction, TransactionType } from '../types';
 import { parseTransactionWithAI } from '../services/geminiService';
-import { Sparkles, Plus, Loader2, Save } from 'lucide-react';
+import { findDuplicateOf } from '../services/duplicateDetection';
+import { validateTransaction } from '../services/ledgerValidation';
+import { TRANSACTION_TYPES, TRANSACTION_TYPE_LABELS, CASH_SYMBOL, parseTransactionType, isIncomeType, isCorporateAction, isCashTransfer } from '../services/ledgerEngine';
+import { Sparkles, Plus, Loader2, Save, AlertTriangle, AlertOctagon } from 'lucide-react';
 
 interface TransactionFormProps {
   onSave: (transaction: Transaction | Omit<Transaction, 'id'>) => void;
   onClose: () => void;
   initialData?: Transaction;
+  existingTransactions?: Transaction[];
+  accounts?: Account[];
+  /** Starting values for a new transaction, such as a proposed rebalancing order. */
+  prefill?: Partial<Omit<Transaction, 'id'>>;
 }
 
-const TransactionForm: React.FC<TransactionFormProps> = ({ onSave, onClose, initialData }) => {
+const TransactionForm: React.FC<TransactionFormProps> = ({ onSave, onClose, initialData, existingTransactions = [], accounts = [], prefill }) => {
   const [isAIProcessing, setIsAIProcessing] = useState(false);
+  const [duplicateOf, setDuplicateOf] = useState<Transaction | null>(null);
+  const [issues, setIssues] = useState<LedgerIssue[]>([]);
   const [aiInput, setAiInput] = useState('');
   const [formData, setFormData] = useState({
-    date: new Date().toISOString().split('T')[0],
-    type: 'BUY' as TransactionType,
-    symbol: '',
-    name: '',
-    shares: '',
-    price: '',
-    account: 'TFSA',
-    exchange: 'NASDAQ',
-    currency: 'USD'
+    date: prefill?.date || new Date().toISOString().split('T')[0],
+    type: prefill?.type || 'BUY' as TransactionType,
+    symbol: prefill?.symbol || '',
+    name: prefill?.name || '',
+    shares: prefill?.shares?.toString() || '',
+    price: prefill?.price?.toString() || '',
+    account: prefill?.account || accounts[0]?.name || 'TFSA',
+    exchange: prefill?.exchange || 'NASDAQ',
+    currency: prefill?.currency || 'USD',
+    ratio: '',
+    newSymbol: '',
+    fee: '',
+    fxFee: ''
   });
 
   useEffect(() => {
@@ -35,7 +48,11 @@ const TransactionForm: React.FC<TransactionFormProps> = ({ onSave, onClose, init
         price: initialData.price.toString(),
         account: initialData.account,
         exchange: initialData.exchange,
-        currency: initialData.currency
+        currency: initialData.currency,
+        ratio: initialData.ratio?.toString() || '',
+        newSymbol: initialData.newSymbol || '',
+        fee: initialData.fee?.toString() || '',
+        fxFee: initialData.fxFee?.toString() || ''
       });
     }
   }, [initialData]);
@@ -49,11 +66,13 @@ const TransactionForm: React.FC<TransactionFormProps> = ({ onSave, onClose, init
         setFormData(prev => ({
           ...prev,
           date: result.date || prev.date,
-          type: (result.type?.toUpperCase() === 'SELL' ? 'SELL' : 'BUY') as TransactionType,
+          type: parseTransactionType(result.type) || prev.type,
           symbol: result.symbol?.toUpperCase() || prev.symbol,
           name: result.name || prev.name,
           shares: result.shares?.toString() || prev.shares,
           price: result.price?.toString() || prev.price,
+          fee: result.fee?.toString() || prev.fee,
+          fxFee: result.fxFee?.toString() || prev.fxFee,
           account: result.account || prev.account,
           exchange: result.exchange || prev.exchange,
           currency: result.currency || prev.currency
@@ -66,20 +85,49 @@ const TransactionForm: React.FC<TransactionFormProps> = ({ onSave, onClose, init
     }
   };
 
+  // Cash payments record shares held and the amount paid per share
+  const isPayment = formData.type === 'ROC' || (isIncomeType(formData.type) && formData.type !== 'DRIP');
+  const isAction = isCorporateAction(formData.type);
+  const isTransfer = isCashTransfer(formData.type);
+  const needsRatio = formData.type === 'SPLIT' || formData.type === 'MERGER';
+  const needsSuccessor = formData.type === 'SYMBOL_CHANGE' || formData.type === 'MERGER';
+  const hasFees = formData.type === 'BUY' || formData.type === 'SELL' || formData.type === 'DRIP';
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     const transactionData = {
       date: formData.date,
       type: formData.type,
-      symbol: formData.symbol.toUpperCase(),
-      name: formData.name || formData.symbol.toUpperCase(), // Fallback name
-      shares: Number(formData.shares),
-      price: Number(formData.price),
+      symbol: isTransfer ? CASH_SYMBOL : formData.symbol.toUpperCase(),
+      name: isTransfer ? 'Cash' : formData.name || formData.symbol.toUpperCase(), // Fallback name
+      // Corporate actions apply to whatever is held; only mergers carry a price (cash per share).
+      // Deposits and withdrawals are stored as one unit of their amount.
+      shares: isAction ? 0 : isTransfer ? 1 : Number(formData.shares),
+      price: isAction && formData.type !== 'MERGER' ? 0 : Number(formData.price) || 0,
       account: formData.account,
       exchange: formData.exchange,
-      currency: formData.currency
+      currency: formData.currency,
+      ...(needsRatio && formData.ratio ? { ratio: Number(formData.ratio) } : {}),
+      ...(needsSuccessor && formData.newSymbol ? { newSymbol: formData.newSymbol.toUpperCase().trim() } : {}),
+      ...(hasFees && Number(formData.fee) > 0 ? { fee: Number(formData.fee) } : {}),
+      ...(hasFees && Number(formData.fxFee) > 0 ? { fxFee: Number(formData.fxFee) } : {})
     };
 
+    // Errors block the save; warnings, like duplicates, only need a second submit
+    const found = validateTransaction({ ...transactionData, id: initialData?.id || '__new__' }, existingTransactions, accounts);
+    const warningsShown = issues.length > 0 && found.every(i => issues.some(shown => shown.code === i.code && shown.message === i.message));
+    if (found.some(i => i.severity === 'error') || (found.length > 0 && !warningsShown)) {
+      setIssues(found);
+      return;
+    }
+
+    // First submit of a likely duplicate only warns; submitting again saves anyway
+    const duplicate = findDuplicateOf({ ...transactionData, id: initialData?.id }, existingTransactions);
+    if (duplicate && duplicate.id !== duplicateOf?.id) {
+      setDuplicateOf(duplicate);
+      return;
+    }
+
     if (initialData) {
       onSave({ ...transactionData, id: initialData.id });
     } else {
@@ -90,6 +138,8 @@ const TransactionForm: React.FC<TransactionFormProps> = ({ onSave, onClose, init
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     setFormData({ ...formData, [e.target.name]: e.target.value });
+    setDuplicateOf(null);
+    setIssues([]);
   };
 
   return (
@@ -144,29 +194,63 @@ const TransactionForm: React.FC<TransactionFormProps> = ({ onSave, onClose, init
             <div>
               <label className="block text-slate-700 text-xs font-bold mb-1">Type</label>
               <select name="type" value={formData.type} onChange={handleChange} className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none">
-                <option value="BUY">BUY</option>
-                <option value="SELL">SELL</option>
+                {TRANSACTION_TYPES.map(type => <option key={type} value={type}>{TRANSACTION_TYPE_LABELS[type]}</option>)}
               </select>
             </div>
-            <div>
-              <label className="block text-slate-700 text-xs font-bold mb-1">Symbol</label>
-              <input required name="symbol" type="text" placeholder="e.g. AAPL" value={formData.symbol} onChange={handleChange} className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none uppercase" />
-            </div>
-             <div>
-              <label className="block text-slate-700 text-xs font-bold mb-1">Company Name</label>
-              <input required name="name" type="text" placeholder="e.g. Apple Inc." value={formData.name} onChange={handleChange} className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none" />
-            </div>
-            <div>
-              <label className="block text-slate-700 text-xs font-bold mb-1">Shares</label>
-              <input required name="shares" type="number" step="any" min="0" value={formData.shares} onChange={handleChange} className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none" />
-            </div>
-            <div>
-              <label className="block text-slate-700 text-xs font-bold mb-1">Price</label>
-              <input required name="price" type="number" step="any" min="0" value={formData.price} onChange={handleChange} className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none" />
-            </div>
+            {!isTransfer && (
+              <div>
+                <label className="block text-slate-700 text-xs font-bold mb-1">Symbol</label>
+                <input required name="symbol" type="text" placeholder="e.g. AAPL (CASH for cash interest)" value={formData.symbol} onChange={handleChange} className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none uppercase" />
+              </div>
+            )}
+            {!isTransfer && (
+              <div>
+                <label className="block text-slate-700 text-xs font-bold mb-1">Company Name</label>
+                <input required name="name" type="text" placeholder="e.g. Apple Inc." value={formData.name} onChange={handleChange} className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none" />
+              </div>
+            )}
+            {!isAction && !isTransfer && (
+              <div>
+                <label className="block text-slate-700 text-xs font-bold mb-1">{isPayment ? 'Shares Held (or 1)' : 'Shares'}</label>
+                <input required name="shares" type="number" step="any" min="0" value={formData.shares} onChange={handleChange} className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none" />
+              </div>
+            )}
+            {(!isAction || formData.type === 'MERGER') && (
+              <div>
+                <label className="block text-slate-700 text-xs font-bold mb-1">{formData.type === 'MERGER' ? 'Cash per Share' : isTransfer ? 'Amount' : isPayment ? 'Amount per Share' : 'Price'}</label>
+                <input required={!isAction} name="price" type="number" step="any" min="0" value={formData.price} onChange={handleChange} className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none" />
+              </div>
+            )}
+            {needsRatio && (
+              <div>
+                <label className="block text-slate-700 text-xs font-bold mb-1">{formData.type === 'SPLIT' ? 'New Shares per Old Share' : 'New Shares per Share (0 if all cash)'}</label>
+                <input required={formData.type === 'SPLIT'} name="ratio" type="number" step="any" min="0" placeholder={formData.type === 'SPLIT' ? '4 for 4:1, 0.1 for 1:10' : 'e.g. 0.5'} value={formData.ratio} onChange={handleChange} className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none" />
+              </div>
+            )}
+            {needsSuccessor && (
+              <div>
+                <label className="block text-slate-700 text-xs font-bold mb-1">{formData.type === 'MERGER' ? 'Acquirer Symbol' : 'New Symbol'}</label>
+                <input required={formData.type === 'SYMBOL_CHANGE' || Number(formData.ratio) > 0} name="newSymbol" type="text" placeholder="e.g. META" value={formData.newSymbol} onChange={handleChange} className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none uppercase" />
+              </div>
+            )}
+            {hasFees && (
+              <div>
+                <label className="block text-slate-700 text-xs font-bold mb-1">Commission / Fees</label>
+                <input name="fee" type="number" step="any" min="0" placeholder="0.00" value={formData.fee} onChange={handleChange} className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none" />
+              </div>
+            )}
+            {hasFees && (
+              <div>
+                <label className="block text-slate-700 text-xs font-bold mb-1">FX Fee</label>
+                <input name="fxFee" type="number" step="any" min="0" placeholder="0.00" value={formData.fxFee} onChange={handleChange} className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none" />
+              </div>
+            )}
             <div>
               <label className="block text-slate-700 text-xs font-bold mb-1">Account</label>
-              <input name="account" type="text" placeholder="TFSA" value={formData.account} onChange={handleChange} className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none" />
+              <input name="account" type="text" list="account-options" placeholder="TFSA" value={formData.account} onChange={handleChange} className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none" />
+              <datalist id="account-options">
+                {accounts.map(a => <option key={a.id} value={a.name}>{a.institution}</option>)}
+              </datalist>
             </div>
             <div>
               <label className="block text-slate-700 text-xs font-bold mb-1">Exchange</label>
@@ -180,10 +264,31 @@ const TransactionForm: React.FC<TransactionFormProps> = ({ onSave, onClose, init
                </select>
             </div>
 
+            {issues.length > 0 && (
+              <div className={`md:col-span-2 p-3 rounded-lg border space-y-1 ${issues.some(i => i.severity === 'error') ? 'bg-rose-50 border-rose-100' : 'bg-amber-50 border-amber-100'}`}>
+                {issues.map(i => (
+                  <p key={`${i.transactionId}_${i.code}`} className={`text-xs font-medium flex items-start gap-2 ${i.severity === 'error' ? 'text-rose-700' : 'text-amber-700'}`}>
+                    {i.severity === 'error' ? <AlertOctagon size={14} className="shrink-0 mt-0.5" /> : <AlertTriangle size={14} className="shrink-0 mt-0.5" />}
+                    {i.message}
+                  </p>
+                ))}
+                {issues.every(i => i.severity === 'warning') && <p className="text-[10px] text-amber-600">Save again to keep it as entered.</p>}
+              </div>
+            )}
+
+            {duplicateOf && (
+              <div className="md:col-span-2 flex items-start gap-3 p-3 bg-amber-50 border border-amber-100 rounded-lg">
+                <AlertTriangle size={16} className="text-amber-500 shrink-0 mt-0.5" />
+                <p className="text-xs text-amber-700 font-medium">
+                  This looks like a duplicate of an existing {duplicateOf.type} of {duplicateOf.shares} {duplicateOf.symbol} @ {duplicateOf.price} on {duplicateOf.date} ({duplicateOf.account}). Save again to keep both.
+                </p>
+              </div>
+            )}
+
             <div className="md:col-span-2 mt-4 flex justify-end gap-3">
               <button type="button" onClick={onClose} className="px-5 py-2 text-slate-600 font-medium hover:bg-slate-100 rounded-lg">Cancel</button>
-              <button type="submit" className="px-5 py-2 bg-blue-600 text-white font-medium hover:bg-blue-700 rounded-lg shadow-sm">
-                {initialData ? 'Update Transaction' : 'Save Transaction'}
+              <button type="submit" className={`px-5 py-2 text-white font-medium rounded-lg shadow-sm ${duplicateOf || issues.length > 0 ? 'bg-amber-600 hover:bg-amber-700' : 'bg-blue-600 hover:bg-blue-700'}`}>
+                {duplicateOf || (issues.length > 0 && issues.every(i => i.severity === 'warning')) ? 'Save Anyway' : initialData ? 'Update Transaction' : 'Save Transaction'}
               </button>
             </div>
           </form>
@@ -0,0 +1,247 @@
+import React, { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, Tooltip, Legend, ResponsiveContainer, CartesianGrid } from 'recharts';
+import { LineChart as LineChartIcon, Upload, Download, Loader2, X, Plus } from 'lucide-react';
+import { Transaction, PriceHistory, Benchmark, BaseCurrency, FxRateHistory } from '../types';
+import { buildValueSeries, parsePriceHistoryCsv } from '../services/priceHistory';
+import { SUGGESTED_BENCHMARKS, benchmarkDates, compareWithBenchmark } from '../services/benchmarks';
+import { computeReturns } from '../services/returns';
+import { SUPPORTED_CURRENCIES, normalizeCurrency, guessQuoteCurrency } from '../services/ledgerEngine';
+
+interface ValueHistoryChartProps {
+  transactions: Transaction[];
+  priceHistory: PriceHistory;
+  onImportHistory: (history: PriceHistory) => void;
+  onFetchHistory?: () => void;
+  isFetchingHistory?: boolean;
+  benchmarks?: Benchmark[];
+  onBenchmarksChange?: (benchmarks: Benchmark[]) => void;
+  currentPrices?: Record<string, number>;
+  fxRates?: FxRateHistory;
+}
+
+const BENCHMARK_COLORS = ['#8b5cf6', '#ec4899', '#64748b', '#ef4444'];
+
+const formatPercent = (value: number | null) =>
+  value === null ? '-' : `${value >= 0 ? '+' : ''}${(value * 100).toFixed(2)}%`;
+
+const ValueHistoryChart: React.FC<ValueHistoryChartProps> = ({ transactions, priceHistory, onImportHistory, onFetchHistory, isFetchingHistory, benchmarks = [], onBenchmarksChange, currentPrices = {}, fxRates = {} }) => {
+  const currencies = useMemo(
+    () => SUPPORTED_CURRENCIES.filter(c => transactions.some(t => normalizeCurrency(t.currency) === c)),
+    [transactions]
+  );
+  const [selectedCurrency, setSelectedCurrency] = useState<string>('USD');
+  const currency = currencies.includes(selectedCurrency) ? selectedCurrency : (currencies[0] || 'USD');
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const [benchmarkInput, setBenchmarkInput] = useState('');
+
+  const series = useMemo(
+    () => buildValueSeries(transactions, priceHistory, currency, benchmarkDates(benchmarks, priceHistory)),
+    [transactions, priceHistory, currency, benchmarks]
+  );
+  const symbol = currency === 'CAD' ? 'C$' : '$';
+
+  const comparisons = useMemo(
+    () => benchmarks.map(b => compareWithBenchmark(transactions, priceHistory, currentPrices, b, currency as BaseCurrency, fxRates, series.map(p => p.date))),
+    [benchmarks, transactions, priceHistory, currentPrices, currency, fxRates, series]
+  );
+  const portfolioReturn = useMemo(
+    () => benchmarks.length > 0
+      ? computeReturns(transactions.filter(t => normalizeCurrency(t.currency) === currency), priceHistory, currentPrices, 'ALL', currency as BaseCurrency, fxRates)
+      : null,
+    [benchmarks, transactions, priceHistory, currentPrices, currency, fxRates]
+  );
+  const chartData = useMemo(
+    () => comparisons.length === 0 ? series : series.map(p => ({
+      ...p,
+      ...comparisons.reduce((acc, c) => (c.hasHistory ? { ...acc, [`bench_${c.symbol}`]: c.values[p.date] } : acc), {}),
+    })),
+    [series, comparisons]
+  );
+
+  const addBenchmark = (raw: string) => {
+    const benchmarkSymbol = raw.toUpperCase().trim();
+    if (!benchmarkSymbol || !onBenchmarksChange || benchmarks.some(b => b.symbol === benchmarkSymbol)) return;
+    onBenchmarksChange([...benchmarks, { symbol: benchmarkSymbol, currency: guessQuoteCurrency(benchmarkSymbol) }]);
+    setBenchmarkInput('');
+  };
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      const text = reader.result as string;
+      try {
+        let history: PriceHistory;
+        try {
+          history = parsePriceHistoryCsv(text);
+        } catch (err) {
+          // Single-symbol downloads (e.g. Yahoo Finance) have no symbol column
+          const fallback = window.prompt('Which symbol are these closing prices for?', file.name.replace(/\.csv$/i, '').toUpperCase());
+          if (!fallback) return;
+          history = parsePriceHistoryCsv(text, fallback);
+        }
+        onImportHistory(history);
+        setImportError(null);
+      } catch (err: any) {
+        setImportError(err?.message || 'Could not read price history.');
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-slate-800 text-xs font-black uppercase tracking-widest flex items-center gap-2">
+          <LineChartIcon size={14} className="text-indigo-500" /> Value Over Time
+        </h3>
+        <div className="flex items-center gap-2">
+          {currencies.length > 1 && currencies.map(c => (
+            <button
+              key={c}
+              onClick={() => setSelectedCurrency(c)}
+              className={`px-2.5 py-1 rounded-lg text-[10px] font-black ${c === currency ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-500'}`}
+            >
+              {c}
+            </button>
+          ))}
+          {onFetchHistory && (
+            <button onClick={onFetchHistory} disabled={isFetchingHistory} className="flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-[10px] font-bold text-slate-500 hover:bg-slate-100 disabled:opacity-40" title="Fetch daily closes from the market data source">
+              {isFetchingHistory ? <Loader2 size={12} className="animate-spin" /> : <Download size={12} />} Fetch History
+            </button>
+          )}
+          <input type="file" accept=".csv" className="hidden" id="price-history-upload" onChange={handleFileSelect} />
+          <label htmlFor="price-history-upload" className="flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-[10px] font-bold text-slate-500 hover:bg-slate-100 cursor-pointer" title="Import daily closes from CSV (date, symbol, close)">
+            <Upload size={12} /> Import Closes
+          </label>
+        </div>
+      </div>
+
+      {importError && <p className="text-[10px] text-rose-600 font-bold mb-2">{importError}</p>}
+
+      {onBenchmarksChange && (
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">Compare</span>
+          {benchmarks.map((b, i) => (
+            <span key={b.symbol} className="flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-full text-[10px] font-bold text-white" style={{ backgroundColor: BENCHMARK_COLORS[i % BENCHMARK_COLORS.length] }}>
+              {b.symbol}
+              <button
+                onClick={() => onBenchmarksChange(benchmarks.map(x => x.symbol === b.symbol ? { ...x, currency: x.currency === 'CAD' ? 'USD' : 'CAD' } : x))}
+                className="px-1 rounded bg-white/20 hover:bg-white/30"
+                title="Currency the benchmark is quoted in"
+              >
+                {b.currency}
+              </button>
+              <button onClick={() => onBenchmarksChange(benchmarks.filter(x => x.symbol !== b.symbol))} className="hover:bg-white/20 rounded-full p-0.5"><X size={10} /></button>
+            </span>
+          ))}
+          <form onSubmit={e => { e.preventDefault(); addBenchmark(benchmarkInput); }} className="flex items-center gap-1">
+            <input
+              list="benchmark-suggestions"
+              value={benchmarkInput}
+              onChange={e => setBenchmarkInput(e.target.value)}
+              placeholder="XIU.TO"
+              className="w-24 px-2 py-1 border rounded-lg text-[10px] focus:ring-2 focus:ring-blue-500 outline-none"
+            />
+            <datalist id="benchmark-suggestions">
+              {SUGGESTED_BENCHMARKS.map(b => <option key={b.symbol} value={b.symbol} />)}
+            </datalist>
+            <button type="submit" className="p-1 rounded-lg text-slate-500 hover:bg-slate-100"><Plus size={12} /></button>
+          </form>
+        </div>
+      )}
+
+      <div className="h-64">
+        {series.length > 1 ? (
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f1f5f9" />
+              <XAxis dataKey="date" tick={{ fontSize: 10, fill: '#94a3b8' }} minTickGap={40} />
+              <YAxis tick={{ fontSize: 10, fill: '#94a3b8' }} tickFormatter={(v: number) => `${symbol}${Math.round(v).toLocaleString()}`} width={70} />
+              <Tooltip
+                formatter={(v: number, name: string) => [`${symbol}${v.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`, name]}
+                contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }}
+              />
+              <Legend wrapperStyle={{ fontSize: 11 }} />
+              <Line type="monotone" dataKey="value" name="Market Value" stroke="#3b82f6" strokeWidth={2} dot={false} />
+              <Line type="monotone" dataKey="costBasis" name="Cost Basis" stroke="#10b981" strokeWidth={2} dot={false} />
+              <Line type="stepAfter" dataKey="netInvested" name="Net Invested" stroke="#f59e0b" strokeWidth={2} dot={false} strokeDasharray="4 4" />
+              {comparisons.filter(c => c.hasHistory).map(c => (
+                <Line
+                  key={c.symbol}
+                  type="monotone"
+                  dataKey={`bench_${c.symbol}`}
+                  name={`If in ${c.symbol}`}
+                  stroke={BENCHMARK_COLORS[benchmarks.findIndex(b => b.symbol === c.symbol) % BENCHMARK_COLORS.length]}
+                  strokeWidth={1.5}
+                  dot={false}
+                  strokeDasharray="2 3"
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        ) : (
+          <div className="h-full flex items-center justify-center text-slate-300 text-xs italic border-2 border-dashed border-slate-100 rounded-2xl">
+            Not enough history yet. Prices are recorded on every refresh, or import daily closes.
+          </div>
+        )}
+      </div>
+
+      {comparisons.length > 0 && portfolioReturn && (
+        <div className="mt-4 overflow-x-auto">
+          <table className="w-full text-xs text-left">
+            <thead className="text-slate-400 uppercase tracking-wider text-[10px]">
+              <tr>
+                <th className="px-3 py-2">Since First Trade ({currency})</th>
+                <th className="px-3 py-2 text-right">Value Today</th>
+                <th className="px-3 py-2 text-right">Difference</th>
+                <th className="px-3 py-2 text-right">XIRR</th>
+                <th className="px-3 py-2 text-right">Excess XIRR</th>
+                <th className="px-3 py-2 text-right">TWR</th>
+                <th className="px-3 py-2 text-right">Excess TWR</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              <tr>
+                <td className="px-3 py-2 font-bold text-slate-700">Portfolio</td>
+                <td className="px-3 py-2 text-right font-bold text-slate-900">{symbol}{portfolioReturn.endValue.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
+                <td className="px-3 py-2 text-right text-slate-400">-</td>
+                <td className="px-3 py-2 text-right text-slate-600">{formatPercent(portfolioReturn.xirr)}</td>
+                <td className="px-3 py-2 text-right text-slate-400">-</td>
+                <td className="px-3 py-2 text-right text-slate-600">{formatPercent(portfolioReturn.twr)}</td>
+                <td className="px-3 py-2 text-right text-slate-400">-</td>
+              </tr>
+              {comparisons.map(c => {
+                const difference = portfolioReturn.endValue - c.endValue;
+                const excessXirr = portfolioReturn.xirr !== null && c.xirr !== null ? portfolioReturn.xirr - c.xirr : null;
+                const excessTwr = portfolioReturn.twr !== null && c.twr !== null ? portfolioReturn.twr - c.twr : null;
+                return (
+                  <tr key={c.symbol}>
+                    <td className="px-3 py-2 font-bold text-slate-700">
+                      If in {c.symbol}
+                      {!c.hasHistory && <span className="block text-[10px] font-medium text-amber-600">No closes stored: fetch history or import closes</span>}
+                    </td>
+                    <td className="px-3 py-2 text-right text-slate-600">{c.hasHistory ? `${symbol}${c.endValue.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}` : '-'}</td>
+                    <td className={`px-3 py-2 text-right font-bold ${difference >= 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
+                      {c.hasHistory ? `${difference >= 0 ? '+' : '-'}${symbol}${Math.abs(difference).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}` : '-'}
+                    </td>
+                    <td className="px-3 py-2 text-right text-slate-600">{formatPercent(c.xirr)}</td>
+                    <td className={`px-3 py-2 text-right font-bold ${(excessXirr || 0) >= 0 ? 'text-emerald-600' : 'text-rose-600'}`}>{formatPercent(excessXirr)}</td>
+                    <td className="px-3 py-2 text-right text-slate-600">{formatPercent(c.twr)}</td>
+                    <td className={`px-3 py-2 text-right font-bold ${(excessTwr || 0) >= 0 ? 'text-emerald-600' : 'text-rose-600'}`}>{formatPercent(excessTwr)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <p className="text-[10px] text-slate-400 mt-2">Each benchmark is bought with every dollar that went into these holdings and sold when money came out, on the same days.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ValueHistoryChart;
@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { Eye, Bell, Plus, Trash2 } from 'lucide-react';
+import { AlertRule } from '../types';
+import { normalizeSymbol } from '../services/ledgerEngine';
+
+interface WatchlistPanelProps {
+  watchlist: string[];
+  rules: AlertRule[];
+  currentPrices: Record<string, number>;
+  onAdd: (symbol: string) => void;
+  onRemove: (symbol: string) => void;
+  onOpenAlerts: (symbol?: string) => void;
+}
+
+const WatchlistPanel: React.FC<WatchlistPanelProps> = ({ watchlist, rules, currentPrices, onAdd, onRemove, onOpenAlerts }) => {
+  const [symbol, setSymbol] = useState('');
+
+  const add = () => {
+    const normalized = normalizeSymbol(symbol);
+    if (!symbol.trim() || watchlist.includes(normalized)) return;
+    onAdd(normalized);
+    setSymbol('');
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
+      <h3 className="text-slate-800 text-xs font-black uppercase tracking-widest mb-4 flex items-center gap-2">
+        <Eye size={14} className="text-indigo-500" /> Watchlist
+        <button onClick={() => onOpenAlerts()} className="ml-auto flex items-center gap-1 text-[10px] font-bold text-indigo-600 hover:bg-indigo-50 px-2 py-1 rounded-lg normal-case tracking-normal">
+          <Bell size={12} /> Alerts
+        </button>
+      </h3>
+      {watchlist.length === 0 ? (
+        <p className="text-xs text-slate-300 italic mb-4">Watch symbols you don't own to track their price and set alerts.</p>
+      ) : (
+        <div className="divide-y divide-slate-100 mb-4">
+          {watchlist.map(s => {
+            const ruleCount = rules.filter(r => r.symbol === s && r.enabled).length;
+            return (
+              <div key={s} className="flex items-center gap-3 py-2 text-xs">
+                <span className="font-bold text-slate-700 flex-1">{s}</span>
+                <span className="text-slate-900 font-medium">{currentPrices[s] !== undefined ? currentPrices[s].toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 }) : '-'}</span>
+                <button onClick={() => onOpenAlerts(s)} className={`flex items-center gap-1 text-[10px] font-bold px-2 py-1 rounded-lg ${ruleCount > 0 ? 'text-indigo-600 bg-indigo-50' : 'text-slate-400 hover:bg-slate-50'}`} title="Alert rules">
+                  <Bell size={12} /> {ruleCount || ''}
+                </button>
+                <button onClick={() => onRemove(s)} className="text-slate-300 hover:text-rose-500" title="Stop watching">
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+      <div className="flex gap-2">
+        <input
+          value={symbol}
+          onChange={e => setSymbol(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && add()}
+          placeholder="Symbol, e.g. VFV.TO"
+          className="flex-1 min-w-0 px-3 py-2 border rounded-lg text-xs uppercase focus:ring-2 focus:ring-blue-500 outline-none"
+        />
+        <button onClick={add} className="flex items-center gap-1 px-3 py-2 bg-slate-900 text-white rounded-lg text-xs font-bold">
+          <Plus size={14} /> Watch
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default WatchlistPanel;
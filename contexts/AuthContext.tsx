@@ -11,6 +11,7 @@ interface AuthContextType {
   register: () => Promise<void>; // Simplified signature
   logout: () => void;
   clearError: () => void;
+  getAccessToken: () => Promise<string>; // For the sync server
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -22,6 +23,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     isLoading: isAuth0Loading, 
     loginWithRedirect, 
     logout: auth0Logout,
+    getAccessTokenSilently,
     error: auth0Error
   } = useAuth0();
 
@@ -66,6 +68,10 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     });
   };
 
+  const getAccessToken = () => getAccessTokenSilently({
+    authorizationParams: { audience: process.env.VITE_AUTH0_AUDIENCE || undefined }
+  });
+
   const clearError = () => {
     // Auth0 error is managed by the hook, but we can provide a no-op if downstream components expect it
   };
@@ -79,7 +85,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       loginWithEmail, 
       register, 
       logout,
-      clearError
+      clearError,
+      getAccessToken
     }}>
       {children}
     </AuthContext.Provider>
@@ -17,6 +17,8 @@ if (!rootElement) {
  */
 const AUTH0_DOMAIN = process.env.VITE_AUTH0_DOMAIN || '';
 const AUTH0_CLIENT_ID = process.env.VITE_AUTH0_CLIENT_ID || '';
+// API identifier of the sync server, so access tokens are issued for it
+const AUTH0_AUDIENCE = process.env.VITE_AUTH0_AUDIENCE || undefined;
 
 if (!AUTH0_DOMAIN || !AUTH0_CLIENT_ID) {
   console.warn(
@@ -37,7 +39,8 @@ root.render(
     domain={AUTH0_DOMAIN}
     clientId={AUTH0_CLIENT_ID}
     authorizationParams={{
-      redirect_uri: window.location.origin
+      redirect_uri: window.location.origin,
+      audience: AUTH0_AUDIENCE
     }}
     cacheLocation="localstorage"
     useRefreshTokens={true}
@@ -0,0 +1,74 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createDevIssuer, createTokenVerifier, KEY_REFETCH_COOLDOWN_MS } from './auth.js';
+
+const ISSUER = 'https://tenant.example.com/';
+const AUDIENCE = 'https://api.example.com';
+
+const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+const decode = (part: string) => JSON.parse(Buffer.from(part, 'base64url').toString());
+
+// Replaces one part of a signed token, leaving the signature as it was
+const withHeader = (token: string, header: object) => {
+  const [, payload, signature] = token.split('.');
+  return `${encode(header)}.${payload}.${signature}`;
+};
+const withClaims = (token: string, claims: object) => {
+  const [header, payload, signature] = token.split('.');
+  return `${header}.${encode({ ...decode(payload), ...claims })}.${signature}`;
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('createTokenVerifier', () => {
+  const issuer = createDevIssuer(ISSUER, AUDIENCE);
+  const verifier = () => createTokenVerifier({ issuer: ISSUER, audience: AUDIENCE, fetchKeys: issuer.keys });
+
+  it('accepts a token signed by a known key', async () => {
+    const claims = await verifier()(issuer.issue('user-1'));
+    expect(claims.sub).toBe('user-1');
+  });
+
+  it('only accepts RS256', async () => {
+    const token = issuer.issue('user-1');
+    const header = decode(token.split('.')[0]);
+    await expect(verifier()(withHeader(token, { ...header, alg: 'none' }))).rejects.toThrow(/Unsupported algorithm/);
+    await expect(verifier()(withHeader(token, { ...header, alg: 'HS256' }))).rejects.toThrow(/Unsupported algorithm/);
+  });
+
+  it('rejects a token whose claims were changed after signing', async () => {
+    await expect(verifier()(withClaims(issuer.issue('user-1'), { sub: 'user-2' }))).rejects.toThrow(/Invalid signature/);
+  });
+
+  it('checks issuer, audience and expiry', async () => {
+    await expect(createTokenVerifier({ issuer: 'https://other.example.com/', audience: AUDIENCE, fetchKeys: issuer.keys })(issuer.issue('user-1'))).rejects.toThrow(/Wrong issuer/);
+    await expect(createTokenVerifier({ issuer: ISSUER, audience: 'https://other-api.example.com', fetchKeys: issuer.keys })(issuer.issue('user-1'))).rejects.toThrow(/Wrong audience/);
+    await expect(verifier()(issuer.issue('user-1', -120))).rejects.toThrow(/expired/);
+    // Within the allowed clock skew
+    await expect(verifier()(issuer.issue('user-1', -30))).resolves.toMatchObject({ sub: 'user-1' });
+  });
+
+  it('refetches keys for an unknown key id at most once per cooldown', async () => {
+    const stranger = createDevIssuer(ISSUER, AUDIENCE);
+    const fetchKeys = vi.fn(issuer.keys);
+    const verify = createTokenVerifier({ issuer: ISSUER, audience: AUDIENCE, fetchKeys });
+    const now = vi.spyOn(Date, 'now').mockReturnValue(1_000_000);
+
+    await expect(verify(stranger.issue('user-1'))).rejects.toThrow(/unknown key/);
+    await expect(verify(stranger.issue('user-1'))).rejects.toThrow(/unknown key/);
+    await expect(verify(issuer.issue('user-1'))).resolves.toMatchObject({ sub: 'user-1' });
+    expect(fetchKeys).toHaveBeenCalledTimes(1);
+
+    now.mockReturnValue(1_000_000 + KEY_REFETCH_COOLDOWN_MS);
+    await expect(verify(stranger.issue('user-1'))).rejects.toThrow(/unknown key/);
+    expect(fetchKeys).toHaveBeenCalledTimes(2);
+  });
+
+  it('shares one fetch between concurrent requests', async () => {
+    const fetchKeys = vi.fn(issuer.keys);
+    const verify = createTokenVerifier({ issuer: ISSUER, audience: AUDIENCE, fetchKeys });
+    await Promise.all([verify(issuer.issue('user-1')), verify(issuer.issue('user-2'))]);
+    expect(fetchKeys).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,127 @@
+import { createPublicKey, generateKeyPairSync, randomUUID, sign, verify, JsonWebKey, KeyObject } from 'node:crypto';
+
+/**
+ * RS256 access token checks against a JSON Web Key Set, as issued by Auth0,
+ * plus a throwaway issuer for local development.
+ */
+
+export class AuthError extends Error {}
+
+export interface TokenClaims {
+  sub: string;
+  iss: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+}
+
+interface Jwk extends JsonWebKey {
+  kid?: string;
+}
+
+export interface VerifierConfig {
+  issuer: string; // Must match the token's iss exactly, e.g. https://tenant.auth0.com/
+  audience?: string;
+  fetchKeys: () => Promise<Jwk[]>;
+}
+
+const CLOCK_SKEW_SECONDS = 60;
+const KEY_REFRESH_MS = 10 * 60 * 1000;
+// Least time between fetches, so tokens naming made-up key ids cannot flood the JWKS endpoint
+export const KEY_REFETCH_COOLDOWN_MS = 60 * 1000;
+
+const base64UrlDecode = (part: string) => Buffer.from(part, 'base64url');
+const base64UrlJson = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+export const auth0Issuer = (domain: string) => `https://${domain.replace(/^https?:\/\//, '').replace(/\/$/, '')}/`;
+
+export const fetchJwks = (url: string) => async (): Promise<Jwk[]> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`JWKS request failed with ${response.status}`);
+  return ((await response.json()) as { keys: Jwk[] }).keys;
+};
+
+/**
+ * Returns a function that checks a bearer token and resolves to its claims.
+ * Keys are cached and fetched again when a token names an unknown key id, at
+ * most once per cooldown; concurrent requests share one fetch.
+ */
+export const createTokenVerifier = (config: VerifierConfig) => {
+  let keys = new Map<string, KeyObject>();
+  let fetchedAt = 0;
+  let attemptedAt = -Infinity;
+  let loading: Promise<void> | null = null;
+
+  const loadKeys = () => {
+    if (!loading) {
+      attemptedAt = Date.now();
+      loading = config.fetchKeys()
+        .then(jwks => {
+          keys = new Map(jwks.filter(k => k.kty === 'RSA').map(k => [k.kid || '', createPublicKey({ key: k, format: 'jwk' })]));
+          fetchedAt = Date.now();
+        })
+        .finally(() => { loading = null; });
+    }
+    return loading;
+  };
+
+  const keyFor = async (kid: string) => {
+    const now = Date.now();
+    const wanted = !keys.has(kid) || now - fetchedAt > KEY_REFRESH_MS;
+    if (loading) await loading;
+    else if (wanted && now - attemptedAt >= KEY_REFETCH_COOLDOWN_MS) await loadKeys();
+    const key = keys.get(kid);
+    if (!key) throw new AuthError('Token signed with an unknown key');
+    return key;
+  };
+
+  return async (token: string): Promise<TokenClaims> => {
+    const parts = token.split('.');
+    if (parts.length !== 3) throw new AuthError('Malformed token');
+    let header: { alg?: string; kid?: string }, claims: TokenClaims;
+    try {
+      header = JSON.parse(base64UrlDecode(parts[0]).toString());
+      claims = JSON.parse(base64UrlDecode(parts[1]).toString());
+    } catch {
+      throw new AuthError('Malformed token');
+    }
+    // Only RS256, so a token cannot pick "none" or an HMAC algorithm for itself
+    if (header.alg !== 'RS256') throw new AuthError(`Unsupported algorithm ${header.alg}`);
+
+    const key = await keyFor(header.kid || '');
+    if (!verify('RSA-SHA256', Buffer.from(`${parts[0]}.${parts[1]}`), key, base64UrlDecode(parts[2]))) {
+      throw new AuthError('Invalid signature');
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (claims.iss !== config.issuer) throw new AuthError('Wrong issuer');
+    if (config.audience) {
+      const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+      if (!audiences.includes(config.audience)) throw new AuthError('Wrong audience');
+    }
+    if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS < now) throw new AuthError('Token expired');
+    if (typeof claims.nbf === 'number' && claims.nbf - CLOCK_SKEW_SECONDS > now) throw new AuthError('Token not yet valid');
+    if (!claims.sub) throw new AuthError('Token has no subject');
+    return claims;
+  };
+};
+
+/**
+ * Signs tokens for any subject with a key pair made at startup. For local
+ * development only: anyone who can reach the server can get a token.
+ */
+export const createDevIssuer = (issuer: string, audience?: string) => {
+  const { publicKey, privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const kid = randomUUID();
+  const jwk: Jwk = { ...publicKey.export({ format: 'jwk' }), kid, alg: 'RS256', use: 'sig' };
+
+  return {
+    issuer,
+    keys: async () => [jwk],
+    issue: (sub: string, ttlSeconds = 3600) => {
+      const now = Math.floor(Date.now() / 1000);
+      const unsigned = `${base64UrlJson({ alg: 'RS256', typ: 'JWT', kid })}.${base64UrlJson({ sub, iss: issuer, ...(audience ? { aud: audience } : {}), iat: now, exp: now + ttlSeconds })}`;
+      return `${unsigned}.${sign('RSA-SHA256', Buffer.from(unsigned), privateKey).toString('base64url')}`;
+    },
+  };
+};
@@ -0,0 +1,6 @@
+#!/bin/sh
+# Run by the nginx image before nginx starts: launch the sync server in the background
+# when it has been configured
+if [ -n "$AUTH0_DOMAIN" ] || [ "$DEV_AUTH" = "true" ]; then
+  cd /opt/sync && node server/dist/server/index.js &
+fi
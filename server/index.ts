@@ -0,0 +1,144 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { AuthError, auth0Issuer, createDevIssuer, createTokenVerifier, fetchJwks, TokenClaims } from './auth.js';
+import { createLedgerStore } from './store.js';
+import type { SyncChange, SyncPushRequest, Transaction } from '../types.js';
+
+/**
+ * Sync server for TradeTrack ledgers.
+ *
+ *   PORT            Port to listen on (8787)
+ *   DATA_DIR        Where ledgers are stored (./data)
+ *   AUTH0_DOMAIN    Auth0 tenant whose access tokens are accepted
+ *   AUTH0_AUDIENCE  API identifier the tokens must be issued for
+ *   DEV_AUTH        "true" to accept tokens from the built-in development issuer instead
+ *   CORS_ORIGIN     Origin allowed to call the API from a browser (none by default)
+ */
+
+const PORT = Number(process.env.PORT) || 8787;
+const DATA_DIR = process.env.DATA_DIR || './data';
+const AUTH0_DOMAIN = process.env.AUTH0_DOMAIN || '';
+const AUTH0_AUDIENCE = process.env.AUTH0_AUDIENCE || undefined;
+const DEV_AUTH = process.env.DEV_AUTH === 'true';
+const CORS_ORIGIN = process.env.CORS_ORIGIN || '';
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+if (!DEV_AUTH && !AUTH0_DOMAIN) {
+  console.error('Set AUTH0_DOMAIN, or DEV_AUTH=true for local development.');
+  process.exit(1);
+}
+
+const devIssuer = DEV_AUTH ? createDevIssuer(`http://localhost:${PORT}/api/dev/`, AUTH0_AUDIENCE) : null;
+const verifyToken = devIssuer
+  ? createTokenVerifier({ issuer: devIssuer.issuer, audience: AUTH0_AUDIENCE, fetchKeys: devIssuer.keys })
+  : createTokenVerifier({ issuer: auth0Issuer(AUTH0_DOMAIN), audience: AUTH0_AUDIENCE, fetchKeys: fetchJwks(`${auth0Issuer(AUTH0_DOMAIN)}.well-known/jwks.json`) });
+const store = createLedgerStore(DATA_DIR);
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const readJson = (req: IncomingMessage): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, 'Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString() || '{}'));
+      } catch {
+        reject(new HttpError(400, 'Body is not valid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const authenticate = async (req: IncomingMessage): Promise<TokenClaims> => {
+  const match = (req.headers.authorization || '').match(/^Bearer (.+)$/);
+  if (!match) throw new HttpError(401, 'Missing bearer token');
+  try {
+    return await verifyToken(match[1]);
+  } catch (err) {
+    if (err instanceof AuthError) throw new HttpError(401, err.message);
+    throw err;
+  }
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const parsePush = (body: unknown): SyncPushRequest => {
+  if (!isRecord(body) || typeof body.deviceId !== 'string' || !Array.isArray(body.changes)) throw new HttpError(400, 'Expected deviceId and changes');
+  const changes: SyncChange[] = body.changes.map((c: unknown) => {
+    if (!isRecord(c) || typeof c.id !== 'string' || !c.id || typeof c.baseRev !== 'number') throw new HttpError(400, 'Each change needs an id and baseRev');
+    if (c.data !== null && (!isRecord(c.data) || c.data.id !== c.id)) throw new HttpError(400, `Change ${c.id} has invalid data`);
+    // The store keeps rows as sent; the client validates their fields
+    return { id: c.id, data: c.data as Transaction | null, baseRev: c.baseRev };
+  });
+  return { deviceId: body.deviceId, changes };
+};
+
+const handle = async (req: IncomingMessage, res: ServerResponse) => {
+  const url = new URL(req.url || '/', 'http://localhost');
+
+  if (CORS_ORIGIN) {
+    res.setHeader('Access-Control-Allow-Origin', CORS_ORIGIN);
+    res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+  }
+
+  if (req.method === 'GET' && url.pathname === '/api/health') return sendJson(res, 200, { ok: true });
+
+  if (devIssuer && req.method === 'GET' && url.pathname === '/api/dev/token') {
+    const sub = url.searchParams.get('sub');
+    if (!sub) throw new HttpError(400, 'Pass the user id as ?sub=');
+    return sendJson(res, 200, { access_token: devIssuer.issue(sub), token_type: 'Bearer' });
+  }
+  if (devIssuer && req.method === 'GET' && url.pathname === '/api/dev/.well-known/jwks.json') {
+    return sendJson(res, 200, { keys: await devIssuer.keys() });
+  }
+
+  if (url.pathname === '/api/sync') {
+    const { sub } = await authenticate(req);
+    if (req.method === 'GET') {
+      const since = Number(url.searchParams.get('since') || 0);
+      if (!Number.isInteger(since) || since < 0) throw new HttpError(400, 'since must be a sequence number');
+      return sendJson(res, 200, await store.pull(sub, since));
+    }
+    if (req.method === 'POST') {
+      const { deviceId, changes } = parsePush(await readJson(req));
+      return sendJson(res, 200, await store.push(sub, deviceId, changes));
+    }
+    throw new HttpError(405, 'Method not allowed');
+  }
+
+  throw new HttpError(404, 'Not found');
+};
+
+createServer((req, res) => {
+  handle(req, res).catch(err => {
+    if (err instanceof HttpError) return sendJson(res, err.status, { error: err.message });
+    console.error(err);
+    sendJson(res, 500, { error: 'Internal error' });
+  });
+}).listen(PORT, () => {
+  console.log(`TradeTrack sync server on port ${PORT}${devIssuer ? ' (development tokens enabled)' : ''}`);
+});
@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import type { Transaction } from '../types.js';
+import { createLedgerStore } from './store.js';
+
+const tx = (id: string, fields: Partial<Transaction> = {}): Transaction => ({
+  id,
+  date: '2024-01-01',
+  type: 'BUY',
+  account: 'TFSA',
+  exchange: 'NASDAQ',
+  symbol: 'AAPL',
+  name: 'Apple',
+  shares: 10,
+  price: 100,
+  currency: 'USD',
+  ...fields,
+});
+
+let dataDir = '';
+
+beforeEach(async () => {
+  dataDir = await fs.mkdtemp(path.join(tmpdir(), 'tradetrack-store-'));
+});
+
+afterEach(async () => {
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+describe('createLedgerStore', () => {
+  it('gives each write the next revision and pulls what came after a revision', async () => {
+    const store = createLedgerStore(dataDir);
+    const pushed = await store.push('user-1', 'device-a', [{ id: 'a', data: tx('a'), baseRev: 0 }, { id: 'b', data: tx('b'), baseRev: 0 }]);
+    expect(pushed).toEqual({ seq: 2, applied: [{ id: 'a', rev: 1 }, { id: 'b', rev: 2 }], conflicts: [] });
+
+    const pulled = await store.pull('user-1', 1);
+    expect(pulled.seq).toBe(2);
+    expect(pulled.changes.map(r => [r.id, r.rev, r.deviceId])).toEqual([['b', 2, 'device-a']]);
+  });
+
+  it('returns a change made against an older revision as a conflict', async () => {
+    const store = createLedgerStore(dataDir);
+    await store.push('user-1', 'device-a', [{ id: 'a', data: tx('a'), baseRev: 0 }]);
+    await store.push('user-1', 'device-a', [{ id: 'a', data: tx('a', { shares: 20 }), baseRev: 1 }]);
+
+    const stale = await store.push('user-1', 'device-b', [{ id: 'a', data: tx('a', { shares: 30 }), baseRev: 1 }]);
+    expect(stale.applied).toEqual([]);
+    expect(stale.seq).toBe(2);
+    expect(stale.conflicts.map(r => [r.rev, r.data?.shares])).toEqual([[2, 20]]);
+  });
+
+  it('keeps deletes as records and each user apart', async () => {
+    const store = createLedgerStore(dataDir);
+    await store.push('user-1', 'device-a', [{ id: 'a', data: tx('a'), baseRev: 0 }]);
+    await store.push('user-1', 'device-a', [{ id: 'a', data: null, baseRev: 1 }]);
+
+    expect((await store.pull('user-1', 0)).changes).toMatchObject([{ id: 'a', data: null, rev: 2 }]);
+    expect(await store.pull('user-2', 0)).toEqual({ seq: 0, changes: [] });
+  });
+
+  it('reads what an earlier instance saved', async () => {
+    await createLedgerStore(dataDir).push('user-1', 'device-a', [{ id: 'a', data: tx('a'), baseRev: 0 }]);
+    const reopened = await createLedgerStore(dataDir).pull('user-1', 0);
+    expect(reopened.seq).toBe(1);
+    expect(reopened.changes[0].data).toEqual(tx('a'));
+  });
+});
@@ -0,0 +1,93 @@
+import { promises as fs } from 'node:fs';
+import { createHash } from 'node:crypto';
+import path from 'node:path';
+import type { SyncChange, SyncPullResponse, SyncPushResponse, SyncRecord } from '../types.js';
+
+/**
+ * One JSON file per user holding every transaction record and the user's
+ * sequence counter. Each write gets the next sequence number as its revision,
+ * so devices can ask for everything after the last number they saw.
+ */
+
+interface UserLedger {
+  seq: number;
+  records: Record<string, SyncRecord>;
+}
+
+export const createLedgerStore = (dataDir: string) => {
+  const cache = new Map<string, UserLedger>();
+  const locks = new Map<string, Promise<unknown>>();
+
+  // User ids come from tokens and may hold any characters, so files are named by hash
+  const fileFor = (userId: string) => path.join(dataDir, `${createHash('sha256').update(userId).digest('hex')}.json`);
+
+  const load = async (userId: string): Promise<UserLedger> => {
+    const cached = cache.get(userId);
+    if (cached) return cached;
+    let ledger: UserLedger = { seq: 0, records: {} };
+    try {
+      ledger = JSON.parse(await fs.readFile(fileFor(userId), 'utf8'));
+    } catch (err: unknown) {
+      if (!(err instanceof Error && 'code' in err && err.code === 'ENOENT')) throw err;
+    }
+    cache.set(userId, ledger);
+    return ledger;
+  };
+
+  // Write to a temporary file and rename, so a crash never leaves half a ledger
+  const save = async (userId: string, ledger: UserLedger) => {
+    await fs.mkdir(dataDir, { recursive: true });
+    const file = fileFor(userId);
+    await fs.writeFile(`${file}.tmp`, JSON.stringify(ledger));
+    await fs.rename(`${file}.tmp`, file);
+  };
+
+  // Requests for one user run one at a time
+  const withLock = <T>(userId: string, work: () => Promise<T>): Promise<T> => {
+    const previous = locks.get(userId) || Promise.resolve();
+    const next = previous.then(work, work);
+    locks.set(userId, next.catch(() => undefined));
+    return next;
+  };
+
+  return {
+    pull: (userId: string, since: number): Promise<SyncPullResponse> => withLock(userId, async () => {
+      const ledger = await load(userId);
+      const changes = Object.values(ledger.records).filter(r => r.rev > since).sort((a, b) => a.rev - b.rev);
+      return { seq: ledger.seq, changes };
+    }),
+
+    /**
+     * Applies changes whose base revision is still current. A change made
+     * against an older revision is returned as a conflict with the stored record.
+     */
+    push: (userId: string, deviceId: string, changes: SyncChange[]): Promise<SyncPushResponse> => withLock(userId, async () => {
+      const ledger = await load(userId);
+      const applied: SyncPushResponse['applied'] = [];
+      const conflicts: SyncRecord[] = [];
+      const updatedAt = new Date().toISOString();
+
+      changes.forEach(change => {
+        const current = ledger.records[change.id];
+        if (current && current.rev > change.baseRev) {
+          conflicts.push(current);
+          return;
+        }
+        const rev = ++ledger.seq;
+        ledger.records[change.id] = { id: change.id, data: change.data, rev, updatedAt, deviceId };
+        applied.push({ id: change.id, rev });
+      });
+
+      if (applied.length > 0) {
+        try {
+          await save(userId, ledger);
+        } catch (err) {
+          // Forget the unsaved changes so the next request reads the file again
+          cache.delete(userId);
+          throw err;
+        }
+      }
+      return { seq: ledger.seq, applied, conflicts };
+    }),
+  };
+};
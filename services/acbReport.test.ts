@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { Account, Transaction } from '../types';
+import { buildCapitalGainsReport, isRegisteredAccount } from './acbReport';
+
+let nextId = 0;
+const tx = (fields: Partial<Transaction>): Transaction => ({
+  id: `t${++nextId}`,
+  date: '2024-01-02',
+  type: 'BUY',
+  account: 'Margin',
+  exchange: 'TSX',
+  symbol: 'XYZ.TO',
+  name: 'XYZ Corp',
+  shares: 0,
+  price: 0,
+  currency: 'CAD',
+  ...fields,
+});
+
+const dispositions = (transactions: Transaction[], accounts: Account[] = []) =>
+  buildCapitalGainsReport(transactions, accounts).flatMap(s => s.dispositions);
+
+describe('isRegisteredAccount', () => {
+  it('goes by the registered type, then by the plan named in the account', () => {
+    const accounts: Account[] = [{ id: 'a', name: 'Savings', type: 'TFSA', institution: '', currency: 'CAD' }];
+    expect(isRegisteredAccount('Savings', accounts)).toBe(true);
+    expect(isRegisteredAccount('RRSP - Questrade')).toBe(true);
+    expect(isRegisteredAccount('Margin')).toBe(false);
+  });
+});
+
+describe('buildCapitalGainsReport', () => {
+  it('pools the cost of every taxable account and leaves registered accounts out', () => {
+    const sale = tx({ date: '2024-03-01', type: 'SELL', shares: 10, price: 130 });
+    const result = dispositions([
+      tx({ shares: 10, price: 100 }),
+      tx({ account: 'Cash', shares: 10, price: 120 }),
+      tx({ account: 'TFSA', shares: 10, price: 500 }),
+      tx({ date: '2024-02-01', account: 'TFSA', type: 'SELL', shares: 5, price: 600 }),
+      sale,
+    ]);
+    expect(result).toHaveLength(1);
+    expect(result[0]).toMatchObject({ transactionId: sale.id, shares: 10, proceeds: 1300, acb: 1100, gainLoss: 200, deniedLoss: 0 });
+  });
+
+  it('adds a loss denied by a later repurchase to that purchase', () => {
+    const [loss, later] = dispositions([
+      tx({ shares: 10, price: 100 }),
+      tx({ date: '2024-03-01', type: 'SELL', shares: 10, price: 80 }),
+      tx({ date: '2024-03-15', shares: 10, price: 85 }),
+      tx({ date: '2024-06-01', type: 'SELL', shares: 10, price: 90 }),
+    ]);
+    expect(loss).toMatchObject({ gainLoss: 0, deniedLoss: 200 });
+    expect(later.acb).toBeCloseTo(1050);
+    expect(later.gainLoss).toBeCloseTo(-150);
+  });
+
+  it('adds a loss denied by an earlier repurchase to the shares still held', () => {
+    const [loss, later] = dispositions([
+      tx({ shares: 10, price: 100 }),
+      tx({ date: '2024-02-20', shares: 10, price: 80 }),
+      tx({ date: '2024-03-01', type: 'SELL', shares: 10, price: 70 }),
+      tx({ date: '2024-06-01', type: 'SELL', shares: 10, price: 110 }),
+    ]);
+    expect(loss).toMatchObject({ acb: 900, gainLoss: 0, deniedLoss: 200 });
+    expect(later.acb).toBeCloseTo(1100);
+    expect(later.gainLoss).toBeCloseTo(0);
+  });
+
+  it('denies only the share of the loss that was bought back', () => {
+    const [loss, later] = dispositions([
+      tx({ shares: 10, price: 100 }),
+      tx({ date: '2024-03-01', type: 'SELL', shares: 10, price: 80 }),
+      tx({ date: '2024-03-15', shares: 4, price: 85 }),
+      tx({ date: '2024-06-01', type: 'SELL', shares: 4, price: 90 }),
+    ]);
+    expect(loss.deniedLoss).toBeCloseTo(80);
+    expect(loss.gainLoss).toBeCloseTo(-120);
+    expect(later.acb).toBeCloseTo(420);
+    expect(later.gainLoss).toBeCloseTo(-60);
+  });
+
+  it('loses the denied amount for good when the repurchase is in a registered account', () => {
+    const [loss, later] = dispositions([
+      tx({ shares: 10, price: 100 }),
+      tx({ date: '2024-03-01', type: 'SELL', shares: 10, price: 80 }),
+      tx({ date: '2024-03-15', account: 'TFSA', shares: 10, price: 85 }),
+      tx({ date: '2024-07-01', shares: 10, price: 85 }),
+      tx({ date: '2024-08-01', type: 'SELL', shares: 10, price: 85 }),
+    ]);
+    expect(loss).toMatchObject({ gainLoss: 0, deniedLoss: 200 });
+    expect(later.acb).toBeCloseTo(850);
+  });
+
+  it('reports return of capital beyond the cost base as a deemed gain', () => {
+    const roc = tx({ date: '2024-06-01', type: 'ROC', shares: 10, price: 15 });
+    const [deemed, sale] = dispositions([
+      tx({ shares: 10, price: 10 }),
+      roc,
+      tx({ date: '2024-09-01', type: 'SELL', shares: 10, price: 12 }),
+    ]);
+    expect(deemed).toMatchObject({ transactionId: roc.id, shares: 0, proceeds: 50, acb: 0, gainLoss: 50 });
+    expect(sale).toMatchObject({ acb: 0, gainLoss: 120 });
+  });
+
+  it('treats an all-cash merger as selling the whole position', () => {
+    const merger = tx({ date: '2024-06-01', type: 'MERGER', shares: 0, price: 70 });
+    const result = dispositions([tx({ shares: 10, price: 50 }), merger]);
+    expect(result).toHaveLength(1);
+    expect(result[0]).toMatchObject({ transactionId: merger.id, shares: 10, proceeds: 700, acb: 500, gainLoss: 200 });
+  });
+});
@@ -0,0 +1,213 @@
+import { Account, Transaction, CapitalGainDisposition, TaxYearSummary } from '../types';
+import { groupTransactions, compareByDate, isAcquisitionType, isCorporateAction, normalizeSymbol, applyToBook, emptyPosition, transactionFees, PositionBook, SHARE_EPSILON } from './ledgerEngine';
+import { findAccount, isRegisteredType } from './accounts';
+
+/**
+ * Canadian adjusted cost base (ACB) and capital gains calculations.
+ *
+ * Identical properties are pooled across every taxable account, as the CRA
+ * requires. Registered accounts are sheltered and never produce dispositions,
+ * but purchases inside them still count for the superficial loss rule.
+ */
+
+export const REGISTERED_ACCOUNTS = ['TFSA', 'RRSP', 'RRIF', 'FHSA', 'RESP', 'LIRA', 'LIF', 'RDSP'];
+
+/**
+ * A registered account's type decides whether it is sheltered; names missing
+ * from the registry fall back to recognising the plan type in the name.
+ */
+export const isRegisteredAccount = (account: string | undefined, accounts: Account[] = []) => {
+  const registered = findAccount(account, accounts);
+  if (registered) return isRegisteredType(registered.type);
+  const normalized = (account || '').toUpperCase().replace(/[^A-Z]/g, '');
+  return REGISTERED_ACCOUNTS.some(type => normalized.startsWith(type));
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SUPERFICIAL_WINDOW_DAYS = 30;
+
+const toTime = (date: string) => new Date(date).getTime();
+
+/**
+ * Shares of a security held across all accounts at the end of the given day,
+ * following it through splits, renames and mergers.
+ */
+const sharesHeldAt = (txs: Transaction[], symbol: string, time: number) => {
+  const book: PositionBook = {};
+  let current = normalizeSymbol(symbol);
+  txs.forEach(t => {
+    if (toTime(t.date) > time) return;
+    applyToBook(book, t);
+    if ((t.type === 'SYMBOL_CHANGE' || t.type === 'MERGER') && t.newSymbol && normalizeSymbol(t.symbol) === current) {
+      current = normalizeSymbol(t.newSymbol);
+    }
+  });
+  return book[current]?.shares || 0;
+};
+
+/**
+ * Applies the superficial loss rule to a loss-making disposition.
+ * Returns the denied loss and how much of it is added to later taxable purchases.
+ */
+const applySuperficialLoss = (
+  sale: Transaction,
+  loss: number,
+  allTxs: Transaction[],
+  accounts: Account[]
+): { denied: number; allocations: { transaction: Transaction; amount: number }[] } => {
+  const saleTime = toTime(sale.date);
+  const windowStart = saleTime - SUPERFICIAL_WINDOW_DAYS * DAY_MS;
+  const windowEnd = saleTime + SUPERFICIAL_WINDOW_DAYS * DAY_MS;
+
+  const acquisitions = allTxs.filter(t => {
+    const time = toTime(t.date);
+    return isAcquisitionType(t.type) && normalizeSymbol(t.symbol) === normalizeSymbol(sale.symbol) && t.id !== sale.id && time >= windowStart && time <= windowEnd;
+  });
+  const acquired = acquisitions.reduce((sum, t) => sum + Number(t.shares), 0);
+  const heldAtEnd = Math.max(0, sharesHeldAt(allTxs, sale.symbol, windowEnd));
+  const soldShares = Number(sale.shares);
+  const deniedShares = Math.min(soldShares, acquired, heldAtEnd);
+
+  if (deniedShares <= 0 || soldShares <= 0) return { denied: 0, allocations: [] };
+
+  const denied = loss * (deniedShares / soldShares);
+  const perShare = denied / deniedShares;
+
+  // Taxable substitutes absorb the denied loss first; a repurchase inside a
+  // registered account denies the loss permanently.
+  const ordered = [...acquisitions].sort((a, b) =>
+    Number(isRegisteredAccount(a.account, accounts)) - Number(isRegisteredAccount(b.account, accounts)) || compareByDate(a, b)
+  );
+
+  const allocations: { transaction: Transaction; amount: number }[] = [];
+  let remaining = deniedShares;
+  for (const t of ordered) {
+    if (remaining <= 0) break;
+    const used = Math.min(remaining, Number(t.shares));
+    remaining -= used;
+    if (!isRegisteredAccount(t.account, accounts)) allocations.push({ transaction: t, amount: used * perShare });
+  }
+
+  return { denied, allocations };
+};
+
+/**
+ * Replays every taxable transaction of one security and returns its dispositions.
+ * Corporate actions apply to the pooled taxable position whatever account they were entered in.
+ */
+const computeDispositions = (allTxs: Transaction[], accounts: Account[]): CapitalGainDisposition[] => {
+  const taxable = allTxs.filter(t => isCorporateAction(t.type) || !isRegisteredAccount(t.account, accounts));
+  const pendingAdjustments: Record<string, number> = {};
+  const dispositions: CapitalGainDisposition[] = [];
+  const book: PositionBook = {};
+
+  const record = (t: Transaction, shares: number, proceeds: number, acb: number, gainLoss: number, deniedLoss = 0, outlays = 0) => {
+    dispositions.push({
+      transactionId: t.id,
+      date: t.date,
+      symbol: t.symbol,
+      currency: t.currency,
+      account: t.account,
+      shares,
+      proceeds,
+      acb,
+      outlays,
+      gainLoss,
+      deniedLoss,
+    });
+  };
+
+  taxable.forEach(t => {
+    const qty = Number(t.shares), price = Number(t.price);
+    if (isNaN(qty) || isNaN(price)) return;
+    const symbol = normalizeSymbol(t.symbol);
+
+    if (isAcquisitionType(t.type)) {
+      const position = book[symbol] || (book[symbol] = emptyPosition());
+      position.shares += qty;
+      position.cost += qty * price + transactionFees(t) + (pendingAdjustments[t.id] || 0);
+      delete pendingAdjustments[t.id];
+      return;
+    }
+
+    if (t.type === 'ROC' || isCorporateAction(t.type)) {
+      const before = { ...(book[symbol] || emptyPosition()) };
+      const gain = applyToBook(book, t);
+      if (t.type === 'MERGER' && !(Number(t.ratio) > 0)) {
+        // All-cash takeover: a disposition of the whole position
+        if (before.shares > 0) record(t, before.shares, before.shares * price, before.cost, gain);
+      } else if (gain > 0) {
+        // A negative ACB is a deemed capital gain and the ACB resets to zero
+        record(t, 0, gain, 0, gain);
+      }
+      return;
+    }
+
+    // Dividends, distributions and interest are income, not dispositions
+    if (t.type !== 'SELL') return;
+
+    const position = book[symbol] || (book[symbol] = emptyPosition());
+    const costOfSold = position.shares > 0 ? (position.cost / position.shares) * qty : 0;
+    const proceeds = qty * price;
+    const outlays = transactionFees(t);
+    let gainLoss = proceeds - costOfSold - outlays;
+    let deniedLoss = 0;
+
+    position.shares -= qty;
+    position.cost -= costOfSold;
+    if (position.shares < SHARE_EPSILON) { position.shares = 0; position.cost = 0; }
+
+    if (gainLoss < 0) {
+      const { denied, allocations } = applySuperficialLoss(t, -gainLoss, allTxs, accounts);
+      deniedLoss = denied;
+      gainLoss += denied;
+      allocations.forEach(({ transaction, amount }) => {
+        // Substitutes bought on or before the sale are already in the pool
+        if (toTime(transaction.date) <= toTime(t.date)) position.cost += amount;
+        else pendingAdjustments[transaction.id] = (pendingAdjustments[transaction.id] || 0) + amount;
+      });
+    }
+
+    record(t, qty, proceeds, costOfSold, gainLoss, deniedLoss, outlays);
+  });
+
+  return dispositions;
+};
+
+/**
+ * Builds the capital gains report for taxable accounts, one entry per tax year
+ * and currency, newest year first.
+ */
+export const buildCapitalGainsReport = (transactions: Transaction[], accounts: Account[] = []): TaxYearSummary[] => {
+  const summaries: Record<string, TaxYearSummary> = {};
+
+  Object.values(groupTransactions(transactions)).forEach(txs => {
+    computeDispositions(txs, accounts).forEach(d => {
+      const year = new Date(d.date).getUTCFullYear();
+      const key = `${year}_${d.currency}`;
+      if (!summaries[key]) {
+        summaries[key] = {
+          year,
+          currency: d.currency,
+          dispositions: [],
+          totalProceeds: 0,
+          totalAcb: 0,
+          totalOutlays: 0,
+          totalGainLoss: 0,
+          totalDeniedLoss: 0,
+        };
+      }
+      const summary = summaries[key];
+      summary.dispositions.push(d);
+      summary.totalProceeds += d.proceeds;
+      summary.totalAcb += d.acb;
+      summary.totalOutlays += d.outlays;
+      summary.totalGainLoss += d.gainLoss;
+      summary.totalDeniedLoss += d.deniedLoss;
+    });
+  });
+
+  return Object.values(summaries)
+    .map(s => ({ ...s, dispositions: s.dispositions.sort((a, b) => toTime(a.date) - toTime(b.date)) }))
+    .sort((a, b) => b.year - a.year || a.currency.localeCompare(b.currency));
+};
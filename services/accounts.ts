@@ -0,0 +1,111 @@
+import { Account, AccountSummary, AccountType, Transaction } from '../types';
+import { buildLedger } from './ledgerEngine';
+import { buildCashLedger } from './cashLedger';
+
+export const ACCOUNT_TYPES: AccountType[] = ['TFSA', 'RRSP', 'FHSA', 'RESP', 'MARGIN', 'CASH'];
+
+export const ACCOUNT_TYPE_LABELS: Record<AccountType, string> = {
+  TFSA: 'TFSA',
+  RRSP: 'RRSP',
+  FHSA: 'FHSA',
+  RESP: 'RESP',
+  MARGIN: 'Margin',
+  CASH: 'Cash (Non-Registered)',
+};
+
+export const REGISTERED_ACCOUNT_TYPES: AccountType[] = ['TFSA', 'RRSP', 'FHSA', 'RESP'];
+
+export const isRegisteredType = (type: AccountType) => REGISTERED_ACCOUNT_TYPES.includes(type);
+
+/**
+ * Comparison key for account names, so "tfsa", "TFSA " and "T.F.S.A" match.
+ */
+export const accountMatchKey = (name: string | undefined) => (name || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+export const findAccount = (name: string | undefined, accounts: Account[]): Account | undefined => {
+  const key = accountMatchKey(name);
+  return key ? accounts.find(a => accountMatchKey(a.name) === key) : undefined;
+};
+
+/**
+ * The registry spelling of an account name, or the trimmed name if unregistered.
+ */
+export const canonicalAccountName = (name: string | undefined, accounts: Account[]) =>
+  findAccount(name, accounts)?.name || (name || '').trim();
+
+export const guessAccountType = (name: string): AccountType => {
+  const key = accountMatchKey(name);
+  const registered = REGISTERED_ACCOUNT_TYPES.find(type => key.startsWith(type));
+  if (registered) return registered;
+  return key.includes('MARGIN') ? 'MARGIN' : 'CASH';
+};
+
+export const createAccount = (name: string, fields: Partial<Omit<Account, 'id' | 'name'>> = {}): Account => ({
+  id: Math.random().toString(36).substr(2, 9),
+  name: name.trim(),
+  type: fields.type || guessAccountType(name),
+  institution: fields.institution || '',
+  currency: fields.currency || 'CAD',
+});
+
+/**
+ * Account names used by transactions that match no registered account,
+ * spelled exactly as stored, with how many transactions use each.
+ */
+export const findUnregisteredAccounts = (transactions: Transaction[], accounts: Account[]): { name: string; count: number }[] => {
+  const counts: Record<string, number> = {};
+  transactions.forEach(t => {
+    if (findAccount(t.account, accounts)) return;
+    const name = (t.account || '').trim();
+    counts[name] = (counts[name] || 0) + 1;
+  });
+  return Object.entries(counts)
+    .map(([name, count]) => ({ name, count }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/**
+ * Moves every transaction recorded under an account, in any spelling, to another name.
+ */
+export const renameAccount = (transactions: Transaction[], from: string, to: string): Transaction[] => {
+  const key = accountMatchKey(from);
+  return transactions.map(t => (accountMatchKey(t.account) === key ? { ...t, account: to } : t));
+};
+
+/**
+ * Restricts the ledger to the selected account names. An empty selection means every account.
+ */
+export const filterByAccounts = (transactions: Transaction[], selected: string[]): Transaction[] => {
+  if (selected.length === 0) return transactions;
+  const keys = new Set(selected.map(accountMatchKey));
+  return transactions.filter(t => keys.has(accountMatchKey(t.account)));
+};
+
+/**
+ * Every account the user can pick: registered ones first, then names that
+ * only appear in transactions.
+ */
+export const listAccountNames = (transactions: Transaction[], accounts: Account[]): string[] => [
+  ...accounts.map(a => a.name),
+  ...findUnregisteredAccounts(transactions, accounts).map(u => u.name),
+];
+
+/**
+ * Holdings and per-currency totals for each account on its own.
+ */
+export const buildAccountSummaries = (
+  transactions: Transaction[],
+  currentPrices: Record<string, number>,
+  accounts: Account[]
+): AccountSummary[] =>
+  listAccountNames(transactions, accounts).map(name => {
+    const txs = filterByAccounts(transactions, [name]);
+    const { holdings, stats } = buildLedger(txs, currentPrices, buildCashLedger(txs).balances);
+    return {
+      name,
+      account: findAccount(name, accounts) || null,
+      transactionCount: txs.length,
+      openPositions: holdings.filter(h => !h.isCash && h.totalShares > 0).length,
+      stats,
+    };
+  });
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { AlertNotification } from '../types';
+import { emptyAlertState, mergeAlertState } from './alerts';
+
+const notification = (id: string, read = false): AlertNotification => ({
+  id,
+  ruleId: 'r1',
+  symbol: 'AAPL',
+  message: 'AAPL rose above 200',
+  price: 201,
+  triggeredAt: '2024-01-01T00:00:00.000Z',
+  read,
+});
+
+describe('mergeAlertState', () => {
+  it('keeps notifications this tab raised that the other tab has not seen', () => {
+    const announced = { ...emptyAlertState(), notifications: [notification('a')] };
+    const local = { ...announced, notifications: [notification('c'), notification('a')] };
+    const incoming = { ...announced, notifications: [notification('b'), notification('a', true)] };
+
+    const merged = mergeAlertState(local, incoming, announced);
+    expect(merged.notifications.map(n => n.id)).toEqual(['c', 'b', 'a']);
+    expect(merged.notifications[2].read).toBe(true);
+  });
+
+  it('lets the other tab clear notifications both had seen', () => {
+    const announced = { ...emptyAlertState(), notifications: [notification('a')] };
+    const incoming = emptyAlertState();
+    expect(mergeAlertState(announced, incoming, announced)).toBe(incoming);
+  });
+});
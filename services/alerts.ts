@@ -0,0 +1,135 @@
+import { AlertNotification, AlertRule, AlertRuleType, AlertState, StockSummary } from '../types';
+import { normalizeSymbol, SHARE_EPSILON } from './ledgerEngine';
+
+/**
+ * Watchlist and price alert rules, evaluated whenever fresh prices arrive.
+ */
+
+export const ALERT_RULE_TYPES: AlertRuleType[] = ['ABOVE', 'BELOW', 'MOVE_PCT', 'BELOW_COST_PCT'];
+
+export const ALERT_RULE_LABELS: Record<AlertRuleType, string> = {
+  ABOVE: 'Price rises above',
+  BELOW: 'Price falls below',
+  MOVE_PCT: 'Moves by % since last refresh',
+  BELOW_COST_PCT: 'Falls % below average cost',
+};
+
+/** Oldest notifications are dropped past this many. */
+export const MAX_NOTIFICATIONS = 100;
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+export const emptyAlertState = (): AlertState => ({ watchlist: [], rules: [], notifications: [], browserNotifications: false });
+
+export const isPercentRule = (type: AlertRuleType) => type === 'MOVE_PCT' || type === 'BELOW_COST_PCT';
+
+export const createAlertRule = (symbol: string, type: AlertRuleType, threshold: number): AlertRule => ({
+  id: generateId(),
+  symbol: normalizeSymbol(symbol),
+  type,
+  threshold,
+  enabled: true,
+  isTriggered: false,
+});
+
+export const describeRule = (rule: AlertRule): string => {
+  switch (rule.type) {
+    case 'ABOVE': return `${rule.symbol} above ${rule.threshold}`;
+    case 'BELOW': return `${rule.symbol} below ${rule.threshold}`;
+    case 'MOVE_PCT': return `${rule.symbol} moves ${rule.threshold}% between refreshes`;
+    case 'BELOW_COST_PCT': return `${rule.symbol} ${rule.threshold}% below average cost`;
+  }
+};
+
+/**
+ * Symbols that need quotes for the watchlist and alerts, held or not.
+ */
+export const alertSymbols = (state: AlertState): string[] =>
+  Array.from(new Set([...state.watchlist, ...state.rules.filter(r => r.enabled).map(r => r.symbol)].map(normalizeSymbol)));
+
+/**
+ * The condition of one rule at a price, with the message to show when it holds.
+ */
+const checkRule = (rule: AlertRule, price: number, previousPrice: number | undefined, holdings: StockSummary[]): string | null => {
+  switch (rule.type) {
+    case 'ABOVE':
+      return price > rule.threshold ? `${rule.symbol} is at ${price.toFixed(2)}, above ${rule.threshold}.` : null;
+    case 'BELOW':
+      return price < rule.threshold ? `${rule.symbol} is at ${price.toFixed(2)}, below ${rule.threshold}.` : null;
+    case 'MOVE_PCT': {
+      if (!previousPrice) return null;
+      const move = (price / previousPrice - 1) * 100;
+      return Math.abs(move) >= rule.threshold
+        ? `${rule.symbol} ${move >= 0 ? 'rose' : 'fell'} ${Math.abs(move).toFixed(2)}% to ${price.toFixed(2)} since the last refresh.`
+        : null;
+    }
+    case 'BELOW_COST_PCT': {
+      const held = holdings.find(h => !h.isCash && normalizeSymbol(h.symbol) === rule.symbol && h.totalShares > SHARE_EPSILON && h.avgCost > 0);
+      if (!held) return null;
+      const belowCost = (1 - price / held.avgCost) * 100;
+      return belowCost >= rule.threshold
+        ? `${rule.symbol} is at ${price.toFixed(2)}, ${belowCost.toFixed(2)}% below your average cost of ${held.avgCost.toFixed(2)}.`
+        : null;
+    }
+  }
+};
+
+/**
+ * Checks every enabled rule whose symbol has a fresh price. Threshold rules fire
+ * once when their condition starts to hold and re-arm when it stops; move
+ * rules compare against the price before this refresh, so they can fire on
+ * every refresh.
+ */
+export const evaluateAlerts = (
+  rules: AlertRule[],
+  previousPrices: Record<string, number>,
+  prices: Record<string, number>,
+  holdings: StockSummary[],
+  now = new Date()
+): { rules: AlertRule[]; notifications: AlertNotification[] } => {
+  const notifications: AlertNotification[] = [];
+  const nextRules = rules.map(rule => {
+    const price = prices[rule.symbol];
+    if (!rule.enabled || !price) return rule;
+    const message = checkRule(rule, price, previousPrices[rule.symbol], holdings);
+    const isTriggered = message !== null && rule.type !== 'MOVE_PCT';
+    if (message && (!rule.isTriggered || rule.type === 'MOVE_PCT')) {
+      notifications.push({ id: generateId(), ruleId: rule.id, symbol: rule.symbol, message, price, triggeredAt: now.toISOString(), read: false });
+    }
+    return isTriggered === rule.isTriggered ? rule : { ...rule, isTriggered };
+  });
+  return { rules: nextRules, notifications };
+};
+
+/**
+ * Newest first, trimmed to the most recent MAX_NOTIFICATIONS.
+ */
+export const addNotifications = (existing: AlertNotification[], added: AlertNotification[]): AlertNotification[] =>
+  [...added, ...existing].slice(0, MAX_NOTIFICATIONS);
+
+/**
+ * Takes another tab's alert state, keeping notifications this tab raised that
+ * neither it nor the announced copy has seen.
+ */
+export const mergeAlertState = (state: AlertState, incoming: AlertState, announced: AlertState): AlertState => {
+  const seen = new Set([...incoming.notifications, ...announced.notifications].map(n => n.id));
+  const pending = state.notifications.filter(n => !seen.has(n.id));
+  return pending.length === 0 ? incoming : { ...incoming, notifications: addNotifications(incoming.notifications, pending) };
+};
+
+export const browserNotificationsSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+/**
+ * Asks for permission to show system notifications. Resolves to whether they are allowed.
+ */
+export const requestBrowserNotifications = async (): Promise<boolean> => {
+  if (!browserNotificationsSupported()) return false;
+  if (Notification.permission === 'granted') return true;
+  if (Notification.permission === 'denied') return false;
+  return (await Notification.requestPermission()) === 'granted';
+};
+
+export const showBrowserNotifications = (notifications: AlertNotification[]) => {
+  if (!browserNotificationsSupported() || Notification.permission !== 'granted') return;
+  notifications.forEach(n => new Notification(`TradeTrack alert: ${n.symbol}`, { body: n.message, tag: n.ruleId }));
+};
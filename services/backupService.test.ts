@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { parseBackup } from './backupService';
+import { wrapBackup } from './schema';
+
+const row = (id: string, fields: Record<string, unknown> = {}) => ({
+  id,
+  date: '2024-01-01',
+  type: 'BUY',
+  account: 'TFSA',
+  exchange: 'NASDAQ',
+  symbol: 'AAPL',
+  shares: 10,
+  price: 100,
+  currency: 'USD',
+  ...fields,
+});
+
+describe('parseBackup', () => {
+  it('reports malformed rows and keeps the rest', () => {
+    const parsed = parseBackup(JSON.stringify(wrapBackup([row('a'), row('b', { type: 'FEE' })])));
+    expect(parsed.transactions.map(t => t.id)).toEqual(['a']);
+    expect(parsed.errors).toEqual([{ index: 1, message: 'Unknown type "FEE"' }]);
+  });
+
+  it('reports a row that reuses an earlier id instead of letting storage drop one', () => {
+    const parsed = parseBackup(JSON.stringify(wrapBackup([row('a'), row('b'), row('a', { shares: 5 })])));
+    expect(parsed.transactions.map(t => [t.id, t.shares])).toEqual([['a', 10], ['b', 10]]);
+    expect(parsed.errors).toEqual([{ index: 2, message: 'Duplicate id "a", already used by row 1' }]);
+  });
+
+  it('throws on a file that is not JSON', () => {
+    expect(() => parseBackup('not json')).toThrow(/not valid JSON/);
+  });
+});
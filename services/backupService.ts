@@ -0,0 +1,148 @@
+import { Transaction, TransactionType } from '../types';
+import { normalizeSymbol, normalizeCurrency, isCorporateAction, TRANSACTION_TYPES } from './ledgerEngine';
+import { unwrapBackup, wrapBackup } from './schema';
+
+export const BACKUP_FILE_NAME = 'tradetrack_backup.json';
+
+export type RestoreMode = 'replace' | 'merge';
+
+export interface BackupRowError {
+  index: number;
+  message: string;
+}
+
+export interface ParsedBackup {
+  transactions: Transaction[];
+  errors: BackupRowError[];
+}
+
+export interface MergeResult {
+  transactions: Transaction[];
+  added: number;
+  skipped: number;
+}
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+/**
+ * Checks one backup row against the Transaction shape.
+ * Returns the normalized transaction or a description of what is wrong.
+ */
+export const validateTransaction = (raw: any): { transaction?: Transaction; error?: string } => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return { error: 'Row is not an object' };
+
+  const missing = ['date', 'type', 'symbol', 'shares', 'price'].filter(field => raw[field] === undefined || raw[field] === null || raw[field] === '');
+  if (missing.length > 0) return { error: `Missing ${missing.join(', ')}` };
+
+  const type = String(raw.type).toUpperCase().trim() as TransactionType;
+  if (!TRANSACTION_TYPES.includes(type)) return { error: `Unknown type "${raw.type}"` };
+
+  if (isNaN(new Date(raw.date).getTime())) return { error: `Invalid date "${raw.date}"` };
+
+  const shares = Number(raw.shares), price = Number(raw.price);
+  if (isNaN(shares) || shares < 0 || (shares === 0 && !isCorporateAction(type))) return { error: `Invalid shares "${raw.shares}"` };
+  if (isNaN(price) || price < 0) return { error: `Invalid price "${raw.price}"` };
+
+  const ratio = raw.ratio !== undefined && raw.ratio !== null && raw.ratio !== '' ? Number(raw.ratio) : undefined;
+  if (ratio !== undefined && (isNaN(ratio) || ratio < 0)) return { error: `Invalid ratio "${raw.ratio}"` };
+  if (type === 'SPLIT' && !(ratio! > 0)) return { error: 'Split is missing its ratio' };
+  if (type === 'SYMBOL_CHANGE' && !raw.newSymbol) return { error: 'Symbol change is missing the new symbol' };
+
+  const fee = Number(raw.fee ?? 0), fxFee = Number(raw.fxFee ?? 0);
+  if (isNaN(fee) || fee < 0) return { error: `Invalid fee "${raw.fee}"` };
+  if (isNaN(fxFee) || fxFee < 0) return { error: `Invalid FX fee "${raw.fxFee}"` };
+
+  const symbol = normalizeSymbol(raw.symbol);
+  return {
+    transaction: {
+      id: typeof raw.id === 'string' && raw.id ? raw.id : generateId(),
+      date: String(raw.date),
+      type,
+      account: raw.account ? String(raw.account) : 'TFSA',
+      exchange: (raw.exchange ? String(raw.exchange) : 'UNKNOWN').toUpperCase().trim(),
+      symbol,
+      name: raw.name ? String(raw.name) : symbol,
+      shares,
+      price,
+      currency: normalizeCurrency(raw.currency),
+      ...(ratio !== undefined ? { ratio } : {}),
+      ...(raw.newSymbol ? { newSymbol: normalizeSymbol(raw.newSymbol) } : {}),
+      ...(fee > 0 ? { fee } : {}),
+      ...(fxFee > 0 ? { fxFee } : {}),
+    },
+  };
+};
+
+/**
+ * Parses the text of a backup file, upgrading older schema versions first.
+ * Malformed rows are reported, not fatal; an unreadable file throws. A row
+ * reusing an earlier row's id is reported too, since storage keeps one row per id.
+ */
+export const parseBackup = (text: string): ParsedBackup => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error('The file is not valid JSON.');
+  }
+  const { transactions: rows } = unwrapBackup(data);
+
+  const transactions: Transaction[] = [];
+  const errors: BackupRowError[] = [];
+  const seen = new Map<string, number>(); // Id to the row that first used it
+  rows.forEach((raw, index) => {
+    const { transaction, error } = validateTransaction(raw);
+    if (!transaction) return errors.push({ index, message: error || 'Invalid row' });
+    const first = seen.get(transaction.id);
+    if (first !== undefined) return errors.push({ index, message: `Duplicate id "${transaction.id}", already used by row ${first + 1}` });
+    seen.set(transaction.id, index);
+    transactions.push(transaction);
+  });
+  return { transactions, errors };
+};
+
+/**
+ * Identity of a transaction's content, ignoring its id and cosmetic fields.
+ */
+export const contentKey = (t: Transaction) => [
+  t.date,
+  t.type,
+  normalizeSymbol(t.symbol),
+  Number(t.shares),
+  Number(t.price),
+  (t.account || '').toUpperCase().trim(),
+  normalizeCurrency(t.currency),
+  t.ratio ?? '',
+  t.newSymbol ? normalizeSymbol(t.newSymbol) : '',
+].join('|');
+
+/**
+ * Adds incoming transactions that are not already present by id or by content.
+ */
+export const mergeTransactions = (existing: Transaction[], incoming: Transaction[]): MergeResult => {
+  const ids = new Set(existing.map(t => t.id));
+  const contents = new Set(existing.map(contentKey));
+  const merged = [...existing];
+  let skipped = 0;
+
+  incoming.forEach(t => {
+    const key = contentKey(t);
+    if (ids.has(t.id) || contents.has(key)) {
+      skipped++;
+      return;
+    }
+    ids.add(t.id);
+    contents.add(key);
+    merged.push(t);
+  });
+
+  return { transactions: merged, added: merged.length - existing.length, skipped };
+};
+
+export const downloadBackup = (transactions: Transaction[]) => {
+  const blob = new Blob([JSON.stringify(wrapBackup(transactions), null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url; a.download = BACKUP_FILE_NAME;
+  a.click();
+};
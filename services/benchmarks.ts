@@ -0,0 +1,92 @@
+import { BaseCurrency, Benchmark, BenchmarkComparison, FxRateHistory, PriceHistory, Transaction } from '../types';
+import { applyToBook, compareByDate, isCashEntry, normalizeCurrency, normalizeSymbol, PositionBook } from './ledgerEngine';
+import { createCloseCursor, todayISO } from './priceHistory';
+import { convertAmount, fxRateOn } from './fxRates';
+import { externalFlow, xirr } from './returns';
+
+/**
+ * "What if" comparisons against index funds: every dollar that went into the
+ * holdings buys the benchmark instead, on the same day, and every dollar taken
+ * out sells it.
+ */
+
+export const SUGGESTED_BENCHMARKS: Benchmark[] = [
+  { symbol: 'XIU.TO', currency: 'CAD' },
+  { symbol: 'VFV.TO', currency: 'CAD' },
+  { symbol: 'SPY', currency: 'USD' },
+];
+
+/**
+ * Dates with a stored benchmark close, so the chart has a point for each.
+ */
+export const benchmarkDates = (benchmarks: Benchmark[], history: PriceHistory): string[] =>
+  Array.from(new Set(benchmarks.flatMap(b => Object.keys(history[normalizeSymbol(b.symbol)] || {})))).sort();
+
+/**
+ * Simulates holding the benchmark with the ledger's cash flows in one currency
+ * and values it on each requested date. Flows before the first stored close
+ * use that close.
+ */
+export const compareWithBenchmark = (
+  transactions: Transaction[],
+  history: PriceHistory,
+  currentPrices: Record<string, number>,
+  benchmark: Benchmark,
+  currency: BaseCurrency,
+  fxRates: FxRateHistory,
+  dates: string[],
+  today = todayISO()
+): BenchmarkComparison => {
+  const symbol = normalizeSymbol(benchmark.symbol);
+  const closes = history[symbol] || {};
+  const firstClose = Object.keys(closes).sort()[0];
+  const cursor = createCloseCursor(closes);
+
+  const txs = transactions
+    .filter(t => normalizeCurrency(t.currency) === currency && !isCashEntry(t) && t.date && t.date <= today)
+    .sort(compareByDate);
+
+  const priceOn = (date: string, isToday = false) => {
+    const native = (isToday ? currentPrices[symbol] : undefined) ?? cursor(date) ?? (firstClose ? closes[firstClose] : null);
+    return native === null ? null : convertAmount(native, benchmark.currency, currency, fxRateOn(fxRates, date));
+  };
+
+  const book: PositionBook = {};
+  const cashFlows: { date: string; amount: number }[] = [];
+  const values: Record<string, number> = {};
+  let units = 0;
+  let index = 0;
+  let firstPrice: number | null = null;
+  let lastPrice: number | null = null;
+
+  const allDates = Array.from(new Set([...dates, ...txs.map(t => t.date)])).filter(d => d <= today).sort();
+  allDates.forEach(date => {
+    const price = priceOn(date);
+    while (index < txs.length && txs[index].date === date) {
+      const t = txs[index++];
+      const flow = externalFlow(t, book[normalizeSymbol(t.symbol)]?.shares || 0);
+      applyToBook(book, t);
+      if (flow === 0) continue;
+      cashFlows.push({ date, amount: -flow });
+      if (price && price > 0) units = Math.max(0, units + flow / price);
+    }
+    if (price !== null) {
+      if (firstPrice === null && units > 0) firstPrice = price;
+      lastPrice = price;
+    }
+    values[date] = price !== null ? units * price : 0;
+  });
+
+  const endPrice = priceOn(today, true) ?? lastPrice;
+  const endValue = endPrice !== null ? units * endPrice : 0;
+  cashFlows.push({ date: today, amount: endValue });
+
+  return {
+    symbol,
+    values,
+    endValue,
+    xirr: firstClose ? xirr(cashFlows) : null,
+    twr: firstPrice && endPrice ? endPrice / firstPrice - 1 : null,
+    hasHistory: Boolean(firstClose),
+  };
+};
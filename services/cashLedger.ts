@@ -0,0 +1,94 @@
+import { Transaction, CashBalance, CashLedger } from '../types';
+import { applyToBook, compareByDate, isCashTransfer, isIncomeType, normalizeCurrency, normalizeSymbol, transactionFees, PositionBook } from './ledgerEngine';
+
+/**
+ * Cash held in each account, per currency.
+ *
+ * Only accounts with at least one deposit or withdrawal are tracked: an
+ * account without them has no starting balance, so its buys would otherwise
+ * show up as an ever-growing overdraft.
+ */
+
+export const cashAccountKey = (account: string | undefined, currency: string | undefined) =>
+  `${(account || '').toUpperCase().trim()}|${normalizeCurrency(currency)}`;
+
+export const trackedCashAccounts = (transactions: Transaction[]): Set<string> =>
+  new Set(transactions.filter(t => isCashTransfer(t.type)).map(t => cashAccountKey(t.account, t.currency)));
+
+const grossCashFlow = (t: Transaction): number => {
+  const amount = Number(t.shares) * Number(t.price);
+  if (isNaN(amount)) return 0;
+  switch (t.type) {
+    case 'BUY':
+    case 'WITHDRAWAL':
+      return -amount;
+    case 'SELL':
+    case 'DEPOSIT':
+    case 'ROC':
+      return amount;
+    default:
+      // DRIP pays in shares, not cash
+      return isIncomeType(t.type) && t.type !== 'DRIP' ? amount : 0;
+  }
+};
+
+/**
+ * Cash moved by one transaction in its own account, net of fees. Mergers are
+ * handled separately because their cash depends on the shares held.
+ */
+export const cashImpact = (t: Transaction): number => grossCashFlow(t) - transactionFees(t);
+
+/**
+ * Replays the ledger account by account and returns each tracked account's
+ * cash balance plus the balance after every transaction that moved it.
+ */
+export const buildCashLedger = (transactions: Transaction[]): CashLedger => {
+  const tracked = trackedCashAccounts(transactions);
+  const balances: Record<string, CashBalance> = {};
+  const books: Record<string, PositionBook> = {};
+  const running: Record<string, number> = {};
+
+  const balanceFor = (t: Pick<Transaction, 'account' | 'currency'>) => {
+    const key = cashAccountKey(t.account, t.currency);
+    if (!balances[key]) {
+      balances[key] = { account: (t.account || '').toUpperCase().trim(), currency: normalizeCurrency(t.currency), balance: 0, deposits: 0, withdrawals: 0 };
+    }
+    return balances[key];
+  };
+
+  [...transactions].sort(compareByDate).forEach(t => {
+    if (t.type === 'SPLIT' || t.type === 'SYMBOL_CHANGE' || t.type === 'MERGER') {
+      // Corporate actions reach every account holding the security
+      Object.entries(books).forEach(([key, book]) => {
+        if (!key.endsWith(`|${normalizeCurrency(t.currency)}`)) return;
+        const held = book[normalizeSymbol(t.symbol)]?.shares || 0;
+        if (held <= 0) return;
+        if (t.type === 'MERGER' && tracked.has(key)) {
+          const [account] = key.split('|');
+          const balance = balanceFor({ account, currency: t.currency });
+          balance.balance += held * Number(t.price || 0);
+          running[t.id] = balance.balance;
+        }
+        applyToBook(book, t);
+      });
+      return;
+    }
+
+    const key = cashAccountKey(t.account, t.currency);
+    if (!books[key]) books[key] = {};
+    applyToBook(books[key], t);
+
+    if (!tracked.has(key)) return;
+    const balance = balanceFor(t);
+    const impact = cashImpact(t);
+    balance.balance += impact;
+    if (t.type === 'DEPOSIT') balance.deposits += impact;
+    if (t.type === 'WITHDRAWAL') balance.withdrawals -= impact;
+    running[t.id] = balance.balance;
+  });
+
+  return {
+    balances: Object.values(balances).sort((a, b) => a.account.localeCompare(b.account) || a.currency.localeCompare(b.currency)),
+    running,
+  };
+};
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { ChangeLog, Transaction } from '../types';
+import { changeLogUpdate, emptyChangeLog, MAX_CHANGE_BATCHES, mergeChangeLog, pruneChangeLog, recordChanges, undoLast } from './changeLog';
+
+const tx = (id: string, fields: Partial<Transaction> = {}): Transaction => ({
+  id,
+  date: '2024-01-01',
+  type: 'BUY',
+  account: 'TFSA',
+  exchange: 'NASDAQ',
+  symbol: 'AAPL',
+  name: 'Apple',
+  shares: 10,
+  price: 100,
+  currency: 'USD',
+  ...fields,
+});
+
+const at = (minute: number) => new Date(Date.UTC(2024, 0, 1, 0, minute));
+
+const record = (log: ChangeLog, before: Transaction[], after: Transaction[], minute: number) =>
+  recordChanges(log, before, after, 'manual', `Edit ${minute}`, at(minute));
+
+describe('changeLogUpdate', () => {
+  it('carries only the batches added since, with the current stacks', () => {
+    const shared = record(emptyChangeLog(), [], [tx('a')], 1);
+    const next = record(shared, [tx('a')], [tx('a'), tx('b')], 2);
+    const update = changeLogUpdate(shared, next)!;
+    expect(update.added).toEqual([next.batches[1]]);
+    expect(update.undoStack).toEqual(next.undoStack);
+  });
+
+  it('is empty when nothing changed', () => {
+    const shared = record(emptyChangeLog(), [], [tx('a')], 1);
+    expect(changeLogUpdate(shared, { ...shared })).toBeNull();
+  });
+});
+
+describe('mergeChangeLog', () => {
+  it('adds the other tab\'s batches and follows its stacks', () => {
+    const shared = record(emptyChangeLog(), [], [tx('a')], 1);
+    const incoming = record(shared, [tx('a')], [tx('a'), tx('b')], 2);
+    expect(mergeChangeLog(shared, changeLogUpdate(shared, incoming)!, shared)).toEqual(incoming);
+  });
+
+  it('keeps edits both tabs made at once, in time order', () => {
+    const shared = record(emptyChangeLog(), [], [tx('a')], 1);
+    const local = record(shared, [tx('a')], [tx('a'), tx('c')], 3);
+    const incoming = record(shared, [tx('a')], [tx('a'), tx('b')], 2);
+
+    const merged = mergeChangeLog(local, changeLogUpdate(shared, incoming)!, shared);
+    expect(merged.batches.map(b => b.label)).toEqual(['Edit 1', 'Edit 2', 'Edit 3']);
+    expect(merged.undoStack).toEqual([...incoming.undoStack, local.undoStack[1]]);
+  });
+
+  it('follows an undo made in the other tab', () => {
+    const shared = record(emptyChangeLog(), [], [tx('a')], 1);
+    const incoming = undoLast(shared, [tx('a')], at(2))!.log;
+    const merged = mergeChangeLog(shared, changeLogUpdate(shared, incoming)!, shared);
+    expect(merged.undoStack).toEqual([]);
+    expect(merged.redoStack).toEqual(shared.undoStack);
+  });
+});
+
+describe('pruneChangeLog', () => {
+  it('drops batches older than the retention period and their stack entries', () => {
+    const log = record(record(emptyChangeLog(), [], [tx('a')], 1), [tx('a')], [], 60 * 24 * 40);
+    const pruned = pruneChangeLog(log, 30, at(60 * 24 * 41));
+    expect(pruned.batches.map(b => b.label)).toEqual([`Edit ${60 * 24 * 40}`]);
+    expect(pruned.undoStack).toEqual([log.undoStack[1]]);
+  });
+
+  it('keeps everything within the period', () => {
+    const log = record(emptyChangeLog(), [], [tx('a')], 1);
+    expect(pruneChangeLog(log, 30, at(2))).toBe(log);
+  });
+
+  it('caps the number of batches even without an age limit', () => {
+    let log = emptyChangeLog();
+    let rows: Transaction[] = [];
+    for (let i = 0; i <= MAX_CHANGE_BATCHES; i++) {
+      const next = [...rows, tx(`t${i}`)];
+      log = record(log, rows, next, i);
+      rows = next;
+    }
+    const pruned = pruneChangeLog(log, 0, at(MAX_CHANGE_BATCHES + 1));
+    expect(pruned.batches).toHaveLength(MAX_CHANGE_BATCHES);
+    expect(pruned.batches[0].label).toBe('Edit 1');
+    expect(pruned.undoStack).toHaveLength(MAX_CHANGE_BATCHES);
+  });
+});
@@ -0,0 +1,234 @@
+import { ChangeBatch, ChangeLog, ChangeSource, LedgerChange, Transaction } from '../types';
+import { applySyncPatch, sameTransaction } from './syncClient';
+
+/**
+ * Append-only history of ledger edits. Every user action that changes the
+ * ledger is recorded as a batch with each row before and after. Undo, redo and
+ * reverting an older batch replay those rows and are recorded as batches too.
+ *
+ * A row changed again since the batch being replayed is left alone, so undoing
+ * an import never throws away an edit made to one of its rows afterwards.
+ *
+ * Batches never change once recorded, so storage and other tabs are only sent
+ * the ones added since. Old batches are pruned by age and count.
+ */
+
+export const CHANGE_SOURCE_LABELS: Record<ChangeSource, string> = {
+  manual: 'Manual',
+  'ai-parse': 'AI Parse',
+  'file-import': 'File Import',
+  restore: 'Restore',
+  cleanup: 'Cleanup',
+};
+
+// What one tab tells the others: the batches it added and its current stacks
+export interface ChangeLogUpdate {
+  added: ChangeBatch[];
+  undoStack: string[];
+  redoStack: string[];
+}
+
+export interface ReplayResult {
+  log: ChangeLog;
+  transactions: Transaction[];
+  skipped: string[]; // Ids of rows changed since, which were left as they are
+}
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RETENTION_KEY = 'tradetrack_history_retention_days';
+
+// Days of history to keep; 0 keeps batches until the count limit
+export const HISTORY_RETENTION_OPTIONS = [30, 90, 365, 0];
+export const DEFAULT_HISTORY_RETENTION_DAYS = 365;
+export const MAX_CHANGE_BATCHES = 1000;
+
+export const loadHistoryRetention = (): number => {
+  const stored = localStorage.getItem(RETENTION_KEY);
+  return stored !== null && HISTORY_RETENTION_OPTIONS.includes(Number(stored)) ? Number(stored) : DEFAULT_HISTORY_RETENTION_DAYS;
+};
+
+export const saveHistoryRetention = (days: number) => {
+  localStorage.setItem(RETENTION_KEY, String(days));
+};
+
+export const emptyChangeLog = (): ChangeLog => ({ batches: [], undoStack: [], redoStack: [] });
+
+export const describeTransaction = (t: Transaction) => `${t.type} ${t.symbol}${t.date ? ` on ${t.date}` : ''}`;
+
+/**
+ * Row-level differences between two versions of the ledger. Reordering alone
+ * is not a change.
+ */
+export const diffLedger = (before: Transaction[], after: Transaction[]): LedgerChange[] => {
+  const previous = new Map<string, Transaction>(before.map(t => [t.id, t]));
+  const afterIds = new Set(after.map(t => t.id));
+  const changes: LedgerChange[] = [];
+  after.forEach(t => {
+    const old = previous.get(t.id);
+    if (!old) changes.push({ transactionId: t.id, action: 'create', before: null, after: t });
+    else if (old !== t && !sameTransaction(old, t)) changes.push({ transactionId: t.id, action: 'update', before: old, after: t });
+  });
+  before.forEach(t => {
+    if (!afterIds.has(t.id)) changes.push({ transactionId: t.id, action: 'delete', before: t, after: null });
+  });
+  return changes;
+};
+
+export const applyLedgerChanges = (transactions: Transaction[], changes: LedgerChange[]): Transaction[] =>
+  applySyncPatch(transactions, {
+    upserts: changes.filter(c => c.after).map(c => c.after!),
+    deletes: changes.filter(c => !c.after).map(c => c.transactionId),
+  });
+
+/**
+ * Adds an edit to the history. A new edit cannot be redone past, so it clears
+ * the redo stack.
+ */
+export const recordChanges = (
+  log: ChangeLog,
+  before: Transaction[],
+  after: Transaction[],
+  source: ChangeSource,
+  label: string,
+  now = new Date()
+): ChangeLog => {
+  const changes = diffLedger(before, after);
+  if (changes.length === 0) return log;
+  const batch: ChangeBatch = { id: generateId(), timestamp: now.toISOString(), source, kind: 'edit', label, changes };
+  return { batches: [...log.batches, batch], undoStack: [...log.undoStack, batch.id], redoStack: [] };
+};
+
+/**
+ * Replays a batch backwards (undo) or forwards (redo) for the rows that are
+ * still as the batch left or found them.
+ */
+const replay = (transactions: Transaction[], target: ChangeBatch, direction: 'back' | 'forward') => {
+  const current = new Map<string, Transaction>(transactions.map(t => [t.id, t]));
+  const applied: LedgerChange[] = [];
+  const skipped: string[] = [];
+  target.changes.forEach(c => {
+    const from = direction === 'back' ? c.after : c.before;
+    const to = direction === 'back' ? c.before : c.after;
+    if (!sameTransaction(current.get(c.transactionId) || null, from)) {
+      skipped.push(c.transactionId);
+      return;
+    }
+    applied.push({ transactionId: c.transactionId, action: !from ? 'create' : !to ? 'delete' : 'update', before: from, after: to });
+  });
+  return { applied, skipped };
+};
+
+const replayBatch = (
+  log: ChangeLog,
+  transactions: Transaction[],
+  target: ChangeBatch,
+  direction: 'back' | 'forward',
+  kind: ChangeBatch['kind'],
+  label: string,
+  now: Date
+) => {
+  const { applied, skipped } = replay(transactions, target, direction);
+  // Nothing left to replay is not worth a history entry
+  const batches = applied.length === 0
+    ? log.batches
+    : [...log.batches, { id: generateId(), timestamp: now.toISOString(), source: target.source, kind, label, changes: applied, revertsBatchId: target.id }];
+  return { batches, transactions: applyLedgerChanges(transactions, applied), skipped };
+};
+
+const findBatch = (log: ChangeLog, id: string | undefined) => (id ? log.batches.find(b => b.id === id) : undefined);
+
+export const canUndo = (log: ChangeLog) => log.undoStack.length > 0;
+export const canRedo = (log: ChangeLog) => log.redoStack.length > 0;
+
+export const undoLast = (log: ChangeLog, transactions: Transaction[], now = new Date()): ReplayResult | null => {
+  const target = findBatch(log, log.undoStack[log.undoStack.length - 1]);
+  if (!target) return null;
+  const result = replayBatch(log, transactions, target, 'back', 'undo', `Undo: ${target.label}`, now);
+  return {
+    log: { batches: result.batches, undoStack: log.undoStack.slice(0, -1), redoStack: [...log.redoStack, target.id] },
+    transactions: result.transactions,
+    skipped: result.skipped,
+  };
+};
+
+export const redoLast = (log: ChangeLog, transactions: Transaction[], now = new Date()): ReplayResult | null => {
+  const target = findBatch(log, log.redoStack[log.redoStack.length - 1]);
+  if (!target) return null;
+  const result = replayBatch(log, transactions, target, 'forward', 'redo', `Redo: ${target.label}`, now);
+  return {
+    log: { batches: result.batches, undoStack: [...log.undoStack, target.id], redoStack: log.redoStack.slice(0, -1) },
+    transactions: result.transactions,
+    skipped: result.skipped,
+  };
+};
+
+/**
+ * Undoes any earlier batch, such as a whole import, as a new edit that can
+ * itself be undone.
+ */
+export const revertBatch = (log: ChangeLog, transactions: Transaction[], batchId: string, now = new Date()): ReplayResult | null => {
+  const target = findBatch(log, batchId);
+  if (!target) return null;
+  const result = replayBatch(log, transactions, target, 'back', 'revert', `Revert: ${target.label}`, now);
+  const added = result.batches.length > log.batches.length ? result.batches[result.batches.length - 1].id : null;
+  return {
+    log: { batches: result.batches, undoStack: added ? [...log.undoStack, added] : log.undoStack, redoStack: added ? [] : log.redoStack },
+    transactions: result.transactions,
+    skipped: result.skipped,
+  };
+};
+
+const byTimestamp = (a: ChangeBatch, b: ChangeBatch) => a.timestamp.localeCompare(b.timestamp);
+
+/**
+ * Drops batches older than the retention period, then all but the newest
+ * MAX_CHANGE_BATCHES, along with their places on the undo and redo stacks.
+ */
+export const pruneChangeLog = (log: ChangeLog, retentionDays: number, now = new Date()): ChangeLog => {
+  const cutoff = retentionDays > 0 ? new Date(now.getTime() - retentionDays * DAY_MS).toISOString() : '';
+  const kept = log.batches.filter(b => b.timestamp >= cutoff).slice(-MAX_CHANGE_BATCHES);
+  if (kept.length === log.batches.length) return log;
+  const ids = new Set(kept.map(b => b.id));
+  return { batches: kept, undoStack: log.undoStack.filter(id => ids.has(id)), redoStack: log.redoStack.filter(id => ids.has(id)) };
+};
+
+const sameStack = (a: string[], b: string[]) => a.length === b.length && a.every((id, i) => id === b[i]);
+
+/**
+ * The batches added since an earlier copy of the log, with the current stacks.
+ * Null when nothing changed.
+ */
+export const changeLogUpdate = (previous: ChangeLog, next: ChangeLog): ChangeLogUpdate | null => {
+  const known = new Set(previous.batches.map(b => b.id));
+  const added = next.batches.filter(b => !known.has(b.id));
+  if (added.length === 0 && sameStack(previous.undoStack, next.undoStack) && sameStack(previous.redoStack, next.redoStack)) return null;
+  return { added, undoStack: next.undoStack, redoStack: next.redoStack };
+};
+
+/**
+ * Applies another tab's update. Its stacks win, but batches this tab recorded
+ * that have not been announced and that the update does not carry stay on top,
+ * so two tabs editing at once both keep their history.
+ */
+export const mergeChangeLog = (log: ChangeLog, update: ChangeLogUpdate, announced: ChangeLog): ChangeLog => {
+  const have = new Set(log.batches.map(b => b.id));
+  const added = update.added.filter(b => !have.has(b.id));
+  const batches = added.length === 0 ? log.batches : [...log.batches, ...added].sort(byTimestamp);
+  const seen = new Set([...announced.batches, ...update.added].map(b => b.id));
+  const pending = new Set(log.batches.filter(b => !seen.has(b.id)).map(b => b.id));
+  const ids = new Set(batches.map(b => b.id));
+  const stack = (incoming: string[], local: string[]) => [...incoming.filter(id => ids.has(id)), ...local.filter(id => pending.has(id))];
+  return { batches, undoStack: stack(update.undoStack, log.undoStack), redoStack: stack(update.redoStack, log.redoStack) };
+};
+
+/**
+ * Whether a batch is currently undone or reverted, going by the latest batch
+ * that replayed it.
+ */
+export const batchStatus = (log: ChangeLog, batchId: string): 'undone' | 'reverted' | null => {
+  const latest = [...log.batches].reverse().find(b => b.revertsBatchId === batchId);
+  if (!latest || latest.kind === 'redo') return null;
+  return latest.kind === 'revert' ? 'reverted' : 'undone';
+};
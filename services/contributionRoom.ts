@@ -0,0 +1,156 @@
+import { Account, ContributionPlan, ContributionRoomReport, ContributionRoomSettings, ContributionRoomYear, FxRateHistory, Transaction } from '../types';
+import { findAccount, guessAccountType } from './accounts';
+import { convertAmount, fxRateOn } from './fxRates';
+
+/**
+ * Contribution room for Canadian registered plans, projected from a starting
+ * figure the user copies once from CRA My Account.
+ *
+ * Only DEPOSIT and WITHDRAWAL transactions count. Room is tracked in CAD by
+ * calendar year, so RRSP contributions made in the first 60 days of a year
+ * land in that year rather than the previous tax year.
+ */
+
+export const CONTRIBUTION_PLANS: ContributionPlan[] = ['TFSA', 'RRSP', 'FHSA'];
+
+// New TFSA room by year. Later years repeat the last announced limit.
+export const TFSA_ANNUAL_LIMITS: Record<number, number> = {
+  2009: 5000, 2010: 5000, 2011: 5000, 2012: 5000,
+  2013: 5500, 2014: 5500, 2015: 10000,
+  2016: 5500, 2017: 5500, 2018: 5500,
+  2019: 6000, 2020: 6000, 2021: 6000, 2022: 6000,
+  2023: 6500, 2024: 7000, 2025: 7000, 2026: 7000,
+};
+
+export const FHSA_ANNUAL_LIMIT = 8000;
+export const FHSA_CARRY_FORWARD_LIMIT = 8000;
+export const FHSA_LIFETIME_LIMIT = 40000;
+export const RRSP_OVERCONTRIBUTION_BUFFER = 2000;
+
+const tfsaLimit = (year: number) => {
+  const known = Object.keys(TFSA_ANNUAL_LIMITS).map(Number);
+  if (year < Math.min(...known)) return 0;
+  return TFSA_ANNUAL_LIMITS[year] ?? TFSA_ANNUAL_LIMITS[Math.max(...known)];
+};
+
+export const defaultRoomSettings = (plan: ContributionPlan): ContributionRoomSettings => ({
+  startYear: new Date().getFullYear(),
+  startingRoom: plan === 'FHSA' ? FHSA_ANNUAL_LIMIT : 0,
+  annualRoom: {},
+  ...(plan === 'FHSA' ? { priorContributions: 0 } : {}),
+});
+
+/**
+ * The plan a transaction's account belongs to, from the registry or, for
+ * unregistered names, from the name itself.
+ */
+export const planForAccount = (account: string | undefined, accounts: Account[]): ContributionPlan | null => {
+  const type = findAccount(account, accounts)?.type ?? guessAccountType(account || '');
+  return (CONTRIBUTION_PLANS as string[]).includes(type) ? type as ContributionPlan : null;
+};
+
+/**
+ * Plans that have deposits or withdrawals in the ledger.
+ */
+export const plansInUse = (transactions: Transaction[], accounts: Account[]): ContributionPlan[] => {
+  const plans = new Set<ContributionPlan>();
+  transactions.forEach(t => {
+    if (t.type !== 'DEPOSIT' && t.type !== 'WITHDRAWAL') return;
+    const plan = planForAccount(t.account, accounts);
+    if (plan) plans.add(plan);
+  });
+  return CONTRIBUTION_PLANS.filter(p => plans.has(p));
+};
+
+const formatCad = (value: number) => `C$${value.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+
+/**
+ * Replays one plan's deposits and withdrawals year by year from the starting room.
+ */
+export const buildContributionRoom = (
+  plan: ContributionPlan,
+  settings: ContributionRoomSettings,
+  transactions: Transaction[],
+  accounts: Account[],
+  fxRates: FxRateHistory,
+  throughYear = new Date().getFullYear()
+): ContributionRoomReport => {
+  const flows: Record<number, { contributions: number; withdrawals: number }> = {};
+  let unconverted = 0;
+
+  transactions.forEach(t => {
+    if (t.type !== 'DEPOSIT' && t.type !== 'WITHDRAWAL') return;
+    if (planForAccount(t.account, accounts) !== plan) return;
+    const year = new Date(t.date).getUTCFullYear();
+    if (isNaN(year) || year < settings.startYear) return;
+    const amount = convertAmount(Number(t.shares) * Number(t.price), t.currency, 'CAD', fxRateOn(fxRates, t.date));
+    if (amount === null || isNaN(amount)) {
+      unconverted += Number(t.shares) * Number(t.price) || 0;
+      return;
+    }
+    const bucket = flows[year] || (flows[year] = { contributions: 0, withdrawals: 0 });
+    if (t.type === 'DEPOSIT') bucket.contributions += amount;
+    else bucket.withdrawals += amount;
+  });
+
+  const lastYear = Math.max(throughYear, ...Object.keys(flows).map(Number));
+  const years: ContributionRoomYear[] = [];
+  const warnings: string[] = [];
+  let lifetime = settings.priorContributions || 0;
+
+  for (let year = settings.startYear; year <= lastYear; year++) {
+    const previous = years[years.length - 1];
+    const { contributions, withdrawals } = flows[year] || { contributions: 0, withdrawals: 0 };
+    const override = settings.annualRoom[year];
+    let openingRoom = previous ? previous.closingRoom : settings.startingRoom;
+    let newRoom = 0;
+    let restoredRoom = 0;
+
+    if (previous) {
+      if (plan === 'TFSA') {
+        newRoom = override ?? tfsaLimit(year);
+        // Withdrawals come back as room on January 1 of the following year
+        restoredRoom = previous.withdrawals;
+      } else if (plan === 'RRSP') {
+        newRoom = override ?? 0;
+        if (override === undefined) warnings.push(`No RRSP room entered for ${year}. Add the new room from your notice of assessment.`);
+      } else {
+        // Unused FHSA room carries forward up to $8,000, within the $40,000 lifetime limit
+        if (openingRoom > 0) openingRoom = Math.min(openingRoom, FHSA_CARRY_FORWARD_LIMIT);
+        const lifetimeLeft = Math.max(0, FHSA_LIFETIME_LIMIT - lifetime);
+        newRoom = Math.max(0, Math.min(override ?? FHSA_ANNUAL_LIMIT, lifetimeLeft - Math.max(0, openingRoom)));
+      }
+    }
+
+    const closingRoom = openingRoom + newRoom + restoredRoom - contributions;
+    const overContribution = Math.max(0, -closingRoom);
+    lifetime += contributions;
+    years.push({ year, openingRoom, newRoom, restoredRoom, contributions, withdrawals, closingRoom, overContribution });
+
+    if (overContribution > 0) {
+      if (plan === 'RRSP') {
+        warnings.push(overContribution > RRSP_OVERCONTRIBUTION_BUFFER
+          ? `${year}: over-contributed by ${formatCad(overContribution)}, ${formatCad(overContribution - RRSP_OVERCONTRIBUTION_BUFFER)} beyond the $2,000 buffer. CRA charges 1% per month on the excess.`
+          : `${year}: ${formatCad(overContribution)} over the limit, within the $2,000 RRSP buffer.`);
+      } else {
+        warnings.push(`${year}: over-contributed by ${formatCad(overContribution)}. CRA charges 1% per month on the excess until it is withdrawn.`);
+      }
+    }
+  }
+
+  if (plan === 'FHSA' && lifetime > FHSA_LIFETIME_LIMIT) {
+    warnings.push(`Lifetime FHSA contributions of ${formatCad(lifetime)} exceed the ${formatCad(FHSA_LIFETIME_LIMIT)} limit.`);
+  }
+  if (unconverted > 0) {
+    warnings.push('Some USD deposits were skipped because no USD/CAD rate is stored.');
+  }
+
+  const current = years.find(y => y.year === throughYear) || years[years.length - 1];
+  return {
+    plan,
+    years,
+    availableRoom: current ? current.closingRoom : settings.startingRoom,
+    unconverted,
+    warnings,
+  };
+};
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { BrokerProfile } from '../types';
+import { applyProfile, BUILT_IN_PROFILES, detectProfile, parseCsvDate } from './csvImport';
+
+describe('parseCsvDate', () => {
+  it('reads year-first, compact and written-out dates', () => {
+    expect(parseCsvDate('2024-03-05', 'YMD')).toBe('2024-03-05');
+    expect(parseCsvDate('2024/3/5 09:30', 'YMD')).toBe('2024-03-05');
+    expect(parseCsvDate('20240305', 'YMD')).toBe('2024-03-05');
+    // Kept as written rather than shifted by the time zone
+    expect(parseCsvDate('Mar 5, 2024', 'YMD')).toBe('2024-03-05');
+  });
+
+  it('orders day and month by the profile format', () => {
+    expect(parseCsvDate('05/03/24', 'DMY')).toBe('2024-03-05');
+    expect(parseCsvDate('03/05/2024', 'MDY')).toBe('2024-03-05');
+  });
+
+  it('refuses dates that do not exist', () => {
+    expect(parseCsvDate('2024-02-31', 'YMD')).toBeNull();
+    expect(parseCsvDate('2023-02-29', 'YMD')).toBeNull();
+    expect(parseCsvDate('2024-02-29', 'YMD')).toBe('2024-02-29');
+    expect(parseCsvDate('13/01/2024', 'MDY')).toBeNull();
+    expect(parseCsvDate('20241301', 'YMD')).toBeNull();
+    expect(parseCsvDate('not a date', 'YMD')).toBeNull();
+  });
+});
+
+describe('detectProfile', () => {
+  it('matches each layout to its own broker', () => {
+    const questrade = ['Transaction Date', 'Action', 'Symbol', 'Quantity', 'Price', 'Net Amount'];
+    const ibkr = ['TradeDate', 'Buy/Sell', 'Symbol', 'Quantity', 'TradePrice', 'IBCommission'];
+    expect(detectProfile(questrade, BUILT_IN_PROFILES)?.id).toBe('questrade');
+    expect(detectProfile(ibkr, BUILT_IN_PROFILES)?.id).toBe('ibkr');
+    expect(detectProfile(['When', 'What'], BUILT_IN_PROFILES)).toBeNull();
+  });
+});
+
+describe('applyProfile', () => {
+  const profile: BrokerProfile = {
+    id: 'test',
+    name: 'Test',
+    columns: { date: 'Date', action: 'Action', symbol: 'Symbol', quantity: 'Quantity', price: 'Price' },
+    dateFormat: 'YMD',
+    defaultCurrency: 'USD',
+    defaultAccount: 'TFSA',
+  };
+  const table = (quantities: string[]) => ({
+    headers: ['Date', 'Action', 'Symbol', 'Quantity', 'Price'],
+    rows: quantities.map(q => ['2024-03-05', '', 'AAPL', q, '100']),
+  });
+
+  it('takes the side of a row without an action from the sign of its quantity', () => {
+    const { transactions } = applyProfile(table(['10', '-10', '(10)', '10-', '10 sh - est.']), profile);
+    expect(transactions.map(t => [t.type, t.shares])).toEqual([['BUY', 10], ['SELL', 10], ['SELL', 10], ['SELL', 10], ['BUY', 10]]);
+  });
+});
@@ -0,0 +1,261 @@
+import { Transaction, TransactionType, BrokerProfile, CsvField, CsvDateFormat } from '../types';
+import { normalizeSymbol, normalizeCurrency, parseTransactionType, isIncomeType, isCashTransfer, CASH_SYMBOL } from './ledgerEngine';
+
+const PROFILES_KEY = 'tradetrack_broker_profiles';
+
+export const REQUIRED_CSV_FIELDS: CsvField[] = ['date', 'symbol', 'quantity', 'price'];
+export const CSV_FIELDS: CsvField[] = ['date', 'action', 'symbol', 'quantity', 'price', 'amount', 'fee', 'currency', 'account', 'exchange', 'name'];
+
+export interface CsvTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface CsvRowError {
+  row: number; // 1-based, excluding the header line
+  message: string;
+}
+
+export interface CsvImportResult {
+  transactions: Omit<Transaction, 'id'>[];
+  errors: CsvRowError[];
+}
+
+export const BUILT_IN_PROFILES: BrokerProfile[] = [
+  {
+    id: 'wealthsimple',
+    name: 'Wealthsimple',
+    builtIn: true,
+    columns: { date: 'transaction_date', action: 'activity_sub_type', symbol: 'symbol', quantity: 'quantity', price: 'unit_price', amount: 'net_cash_amount', currency: 'currency', account: 'account_type', name: 'name' },
+    dateFormat: 'YMD',
+    defaultCurrency: 'CAD',
+    defaultAccount: 'TFSA',
+  },
+  {
+    id: 'questrade',
+    name: 'Questrade',
+    builtIn: true,
+    columns: { date: 'Transaction Date', action: 'Action', symbol: 'Symbol', quantity: 'Quantity', price: 'Price', amount: 'Net Amount', fee: 'Commission', currency: 'Currency', account: 'Account Type', name: 'Description' },
+    dateFormat: 'YMD',
+    defaultCurrency: 'CAD',
+    defaultAccount: 'TFSA',
+  },
+  {
+    id: 'ibkr',
+    name: 'Interactive Brokers',
+    builtIn: true,
+    columns: { date: 'TradeDate', action: 'Buy/Sell', symbol: 'Symbol', quantity: 'Quantity', price: 'TradePrice', fee: 'IBCommission', currency: 'CurrencyPrimary', exchange: 'ListingExchange', name: 'Description' },
+    dateFormat: 'YMD',
+    defaultCurrency: 'USD',
+    defaultAccount: 'Margin',
+  },
+];
+
+/**
+ * Splits CSV text into rows, honouring quoted fields with embedded commas,
+ * newlines and doubled quotes. Blank lines are dropped.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') inQuotes = false;
+      else field += char;
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field); field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field); field = '';
+      rows.push(row); row = [];
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+
+  return rows
+    .map(r => r.map(cell => cell.trim()))
+    .filter(r => r.some(cell => cell !== ''));
+};
+
+export const parseCsvTable = (text: string): CsvTable => {
+  const [headers = [], ...rows] = parseCsv(text);
+  return { headers, rows };
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const findHeader = (headers: string[], name: string | undefined) =>
+  name ? headers.find(h => normalizeHeader(h) === normalizeHeader(name)) : undefined;
+
+/**
+ * Picks the first profile whose required columns all exist in the headers.
+ */
+export const detectProfile = (headers: string[], profiles: BrokerProfile[]): BrokerProfile | null =>
+  profiles.find(p => REQUIRED_CSV_FIELDS.every(field => findHeader(headers, p.columns[field]))) || null;
+
+const HEADER_HINTS: Record<CsvField, string[]> = {
+  date: ['tradedate', 'transactiondate', 'date', 'settlementdate'],
+  action: ['action', 'type', 'side', 'buysell', 'activitysubtype', 'transactiontype'],
+  symbol: ['symbol', 'ticker', 'security'],
+  quantity: ['quantity', 'shares', 'qty', 'units'],
+  price: ['price', 'tradeprice', 'unitprice'],
+  amount: ['amount', 'netamount', 'netcashamount', 'total'],
+  fee: ['commission', 'commissions', 'fee', 'fees', 'ibcommission'],
+  currency: ['currency', 'currencyprimary'],
+  account: ['account', 'accounttype'],
+  exchange: ['exchange', 'listingexchange', 'market'],
+  name: ['name', 'description', 'securityname'],
+};
+
+/**
+ * Best-effort column mapping for an unknown layout, used as the starting
+ * point of the mapping step.
+ */
+export const guessColumns = (headers: string[]): Partial<Record<CsvField, string>> => {
+  const columns: Partial<Record<CsvField, string>> = {};
+  CSV_FIELDS.forEach(field => {
+    for (const hint of HEADER_HINTS[field]) {
+      const match = headers.find(h => normalizeHeader(h) === hint);
+      if (match) { columns[field] = match; break; }
+    }
+  });
+  return columns;
+};
+
+const parseNumber = (value: string | undefined): number => {
+  if (!value) return NaN;
+  // Negative as "(5)", "-5", "-$5" or "5-"; a hyphen elsewhere is not a sign
+  const trimmed = value.trim();
+  const negative = /^\(.*\)$/.test(trimmed) || /^[^0-9]*-/.test(trimmed) || trimmed.endsWith('-');
+  const parsed = parseFloat(value.replace(/[^0-9.]/g, ''));
+  return negative ? -parsed : parsed;
+};
+
+/**
+ * Converts a broker date string to YYYY-MM-DD, or null if it cannot be read.
+ */
+export const parseCsvDate = (value: string | undefined, format: CsvDateFormat): string | null => {
+  if (!value) return null;
+  const trimmed = value.trim();
+
+  const compact = trimmed.match(/^(\d{4})(\d{2})(\d{2})/);
+  const iso = trimmed.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  const other = trimmed.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})/);
+
+  let year: number, month: number, day: number;
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (compact) {
+    [year, month, day] = [Number(compact[1]), Number(compact[2]), Number(compact[3])];
+  } else if (other) {
+    const [a, b, y] = [Number(other[1]), Number(other[2]), Number(other[3])];
+    year = y < 100 ? 2000 + y : y;
+    [month, day] = format === 'DMY' ? [b, a] : [a, b];
+  } else {
+    // Written-out dates such as "Mar 5, 2024". The local parts are what was written;
+    // converting to UTC could move the date by a day.
+    const parsed = new Date(trimmed);
+    if (isNaN(parsed.getTime())) return null;
+    [year, month, day] = [parsed.getFullYear(), parsed.getMonth() + 1, parsed.getDate()];
+  }
+
+  // Day 0 of the next month is the last day of this one, so 2024-02-31 is refused
+  if (month < 1 || month > 12 || day < 1 || day > new Date(year, month, 0).getDate()) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+const parseAction = (value: string | undefined, quantity: number): TransactionType | null => {
+  if (!value) return quantity < 0 ? 'SELL' : 'BUY';
+  return parseTransactionType(value);
+};
+
+/**
+ * Turns CSV rows into transactions using a column mapping. Rows that are not
+ * trades, income or cash movements (fees, journals) or are missing data are
+ * reported as errors. Income, deposit and withdrawal rows without a per-share
+ * amount are stored as one unit of the net amount.
+ */
+export const applyProfile = (table: CsvTable, profile: BrokerProfile): CsvImportResult => {
+  const indexOf = (field: CsvField) => {
+    const header = findHeader(table.headers, profile.columns[field]);
+    return header ? table.headers.indexOf(header) : -1;
+  };
+  const indexes = CSV_FIELDS.reduce((acc, field) => ({ ...acc, [field]: indexOf(field) }), {} as Record<CsvField, number>);
+  const cell = (row: string[], field: CsvField) => (indexes[field] >= 0 ? row[indexes[field]] : undefined);
+
+  const transactions: Omit<Transaction, 'id'>[] = [];
+  const errors: CsvRowError[] = [];
+
+  table.rows.forEach((row, i) => {
+    const rowNumber = i + 1;
+    let quantity = parseNumber(cell(row, 'quantity'));
+    let price = parseNumber(cell(row, 'price'));
+    const date = parseCsvDate(cell(row, 'date'), profile.dateFormat);
+    const type = parseAction(cell(row, 'action'), quantity);
+    const symbol = type && isCashTransfer(type) ? CASH_SYMBOL : cell(row, 'symbol');
+
+    if (!type) return errors.push({ row: rowNumber, message: `Not a trade or income: "${cell(row, 'action')}"` });
+    if ((isCashTransfer(type) || (isIncomeType(type) && type !== 'DRIP')) && (isNaN(quantity) || quantity === 0 || isNaN(price) || price === 0)) {
+      const amount = parseNumber(cell(row, 'amount'));
+      if (!isNaN(amount) && amount !== 0) { quantity = 1; price = amount; }
+    }
+    if (!date) return errors.push({ row: rowNumber, message: `Unreadable date "${cell(row, 'date') || ''}"` });
+    if (!symbol) return errors.push({ row: rowNumber, message: 'Missing symbol' });
+    if (isNaN(quantity) || quantity === 0) return errors.push({ row: rowNumber, message: `Invalid quantity "${cell(row, 'quantity') || ''}"` });
+    if (isNaN(price)) return errors.push({ row: rowNumber, message: `Invalid price "${cell(row, 'price') || ''}"` });
+
+    const normalized = normalizeSymbol(symbol);
+    // Brokers report commissions as negative cash; the sign carries no meaning here
+    const fee = Math.abs(parseNumber(cell(row, 'fee')));
+    transactions.push({
+      date,
+      type,
+      symbol: normalized,
+      name: cell(row, 'name') || normalized,
+      shares: Math.abs(quantity),
+      price: Math.abs(price),
+      currency: normalizeCurrency(cell(row, 'currency') || profile.defaultCurrency),
+      account: cell(row, 'account') || profile.defaultAccount,
+      exchange: (cell(row, 'exchange') || (normalized.endsWith('.TO') ? 'TSX' : 'UNKNOWN')).toUpperCase(),
+      ...(fee > 0 ? { fee } : {}),
+    });
+  });
+
+  return { transactions, errors };
+};
+
+export const loadBrokerProfiles = (): BrokerProfile[] => {
+  try {
+    const saved: BrokerProfile[] = JSON.parse(localStorage.getItem(PROFILES_KEY) || '[]');
+    return [...saved, ...BUILT_IN_PROFILES];
+  } catch (e) {
+    return BUILT_IN_PROFILES;
+  }
+};
+
+/**
+ * Saves a user profile, replacing any saved profile with the same name.
+ */
+export const saveBrokerProfile = (profile: BrokerProfile): BrokerProfile[] => {
+  const saved = loadBrokerProfiles().filter(p => !p.builtIn && p.name.toLowerCase() !== profile.name.toLowerCase());
+  const next = [{ ...profile, builtIn: false }, ...saved];
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(next));
+  return [...next, ...BUILT_IN_PROFILES];
+};
+
+export const deleteBrokerProfile = (id: string): BrokerProfile[] => {
+  const next = loadBrokerProfiles().filter(p => !p.builtIn && p.id !== id);
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(next));
+  return [...next, ...BUILT_IN_PROFILES];
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { Transaction } from '../types';
+import { findDuplicateGroups, mergeGroup, resolveDuplicates } from './duplicateDetection';
+
+const tx = (id: string, fields: Partial<Transaction> = {}): Transaction => ({
+  id,
+  date: '2024-01-01',
+  type: 'BUY',
+  account: 'TFSA',
+  exchange: 'NASDAQ',
+  symbol: 'AAPL',
+  name: 'Apple',
+  shares: 10,
+  price: 100,
+  currency: 'USD',
+  ...fields,
+});
+
+describe('mergeGroup', () => {
+  it('collapses identical copies into one row without adding up shares', () => {
+    const merged = mergeGroup([tx('a'), tx('b')]);
+    expect(merged.id).toBe('a');
+    expect(merged.shares).toBe(10);
+    expect(merged.price).toBe(100);
+  });
+
+  it('fills in fields the first row lacks from the others', () => {
+    const merged = mergeGroup([tx('a', { exchange: 'UNKNOWN', name: '' }), tx('b', { fee: 4.95, name: '' }), tx('c', { fee: 9.99, name: 'Apple Inc.' })]);
+    expect(merged.exchange).toBe('NASDAQ');
+    expect(merged.name).toBe('Apple Inc.');
+    expect(merged.fee).toBe(4.95);
+  });
+
+  it('keeps the first row\'s own values', () => {
+    const merged = mergeGroup([tx('a', { fee: 1, shares: 10.001 }), tx('b', { fee: 2 })]);
+    expect(merged.fee).toBe(1);
+    expect(merged.shares).toBe(10.001);
+  });
+});
+
+describe('resolveDuplicates', () => {
+  it('leaves one row of the original size for a statement imported twice', () => {
+    const transactions = [tx('a'), tx('b'), tx('c', { symbol: 'MSFT' })];
+    const groups = findDuplicateGroups(transactions);
+    expect(groups).toHaveLength(1);
+
+    const merged = resolveDuplicates(transactions, groups, ['merge']);
+    expect(merged.map(t => t.id)).toEqual(['a', 'c']);
+    expect(merged[0].shares).toBe(10);
+
+    expect(resolveDuplicates(transactions, groups, ['ignore'])).toEqual(transactions);
+  });
+});
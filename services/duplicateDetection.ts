@@ -0,0 +1,114 @@
+import { Transaction } from '../types';
+import { normalizeSymbol, normalizeCurrency } from './ledgerEngine';
+
+/**
+ * Fuzzy duplicate detection. Broker statements and AI extraction round
+ * shares and prices differently, so exact equality misses most re-imports.
+ */
+
+// Relative tolerance for shares and price (0.5%), plus absolute floors for tiny values
+const RELATIVE_TOLERANCE = 0.005;
+const SHARES_FLOOR = 0.0001;
+const PRICE_FLOOR = 0.01;
+
+export type DuplicateResolution = 'drop' | 'merge' | 'ignore';
+
+type TransactionLike = Omit<Transaction, 'id'> & { id?: string };
+
+const normalizeAccount = (account: string | undefined) => (account || '').toUpperCase().replace(/\s+/g, '');
+
+/**
+ * Exact part of the fingerprint: fields that must match for two rows to be the same trade.
+ */
+export const fingerprintKey = (t: TransactionLike) => [
+  (t.date || '').split('T')[0],
+  normalizeSymbol(t.symbol),
+  (t.type || '').toUpperCase(),
+  normalizeAccount(t.account),
+  normalizeCurrency(t.currency),
+].join('|');
+
+const isClose = (a: number, b: number, floor: number) =>
+  Math.abs(a - b) <= Math.max(floor, Math.max(Math.abs(a), Math.abs(b)) * RELATIVE_TOLERANCE);
+
+export const isLikelyDuplicate = (a: TransactionLike, b: TransactionLike) =>
+  fingerprintKey(a) === fingerprintKey(b) &&
+  isClose(Number(a.shares), Number(b.shares), SHARES_FLOOR) &&
+  isClose(Number(a.price), Number(b.price), PRICE_FLOOR);
+
+/**
+ * Returns the first existing transaction the candidate looks like, ignoring
+ * the candidate itself when it is being edited.
+ */
+export const findDuplicateOf = (candidate: TransactionLike, existing: Transaction[]): Transaction | undefined =>
+  existing.find(t => t.id !== candidate.id && isLikelyDuplicate(candidate, t));
+
+/**
+ * Clusters the ledger into groups of two or more likely duplicates.
+ */
+export const findDuplicateGroups = (transactions: Transaction[]): Transaction[][] => {
+  const buckets: Record<string, Transaction[]> = {};
+  transactions.forEach(t => {
+    const key = fingerprintKey(t);
+    if (!buckets[key]) buckets[key] = [];
+    buckets[key].push(t);
+  });
+
+  const groups: Transaction[][] = [];
+  Object.values(buckets).forEach(bucket => {
+    const clusters: Transaction[][] = [];
+    bucket.forEach(t => {
+      const cluster = clusters.find(c => isLikelyDuplicate(c[0], t));
+      if (cluster) cluster.push(t);
+      else clusters.push([t]);
+    });
+    groups.push(...clusters.filter(c => c.length > 1));
+  });
+
+  return groups.sort((a, b) => b[0].date.localeCompare(a[0].date));
+};
+
+// Fields a duplicate may fill in when the first row of its group lacks them
+const FILLABLE_FIELDS: (keyof Transaction)[] = ['name', 'exchange', 'fee', 'fxFee', 'ratio', 'newSymbol'];
+
+const isMissing = (value: unknown) => value === undefined || value === null || value === '' || value === 'UNKNOWN';
+
+/**
+ * Collapses a group of copies of one trade into its first row. Shares and
+ * price are not added up, since the rows describe the same trade; fields the
+ * first row lacks are taken from the first duplicate that has them.
+ */
+export const mergeGroup = (group: Transaction[]): Transaction => {
+  const merged: Transaction = { ...group[0] };
+  FILLABLE_FIELDS.forEach(field => {
+    if (!isMissing(merged[field])) return;
+    const source = group.find(t => !isMissing(t[field]));
+    if (source) (merged as Record<keyof Transaction, unknown>)[field] = source[field];
+  });
+  return merged;
+};
+
+/**
+ * Applies a resolution to each duplicate group. Dropping keeps the first row
+ * of the group as it is; merging keeps it completed with details from the others.
+ */
+export const resolveDuplicates = (
+  transactions: Transaction[],
+  groups: Transaction[][],
+  resolutions: DuplicateResolution[]
+): Transaction[] => {
+  const removed = new Set<string>();
+  const replaced: Record<string, Transaction> = {};
+
+  groups.forEach((group, i) => {
+    const resolution = resolutions[i] || 'ignore';
+    if (resolution === 'ignore') return;
+    const [keep, ...rest] = group;
+    rest.forEach(t => removed.add(t.id));
+    if (resolution === 'merge') replaced[keep.id] = mergeGroup(group);
+  });
+
+  return transactions
+    .filter(t => !removed.has(t.id))
+    .map(t => replaced[t.id] || t);
+};
@@ -0,0 +1,26 @@
+import { Transaction, FeeGrouping, FeeReportRow } from '../types';
+import { normalizeCurrency, transactionFees } from './ledgerEngine';
+
+export const FEE_GROUPINGS: FeeGrouping[] = ['year', 'account'];
+
+/**
+ * Commissions and FX charges paid per year or per account, split by currency.
+ * Years are listed newest first, accounts alphabetically.
+ */
+export const buildFeeReport = (transactions: Transaction[], grouping: FeeGrouping): FeeReportRow[] => {
+  const rows: Record<string, FeeReportRow> = {};
+
+  transactions
+    .filter(t => transactionFees(t) > 0)
+    .forEach(t => {
+      const key = grouping === 'year' ? (t.date || '').slice(0, 4) : (t.account || 'UNKNOWN').toUpperCase().trim();
+      const currency = normalizeCurrency(t.currency);
+      const row = rows[key] || (rows[key] = { key, commissions: {}, fxFees: {}, trades: 0 });
+      row.commissions[currency] = (row.commissions[currency] || 0) + (Number(t.fee) || 0);
+      row.fxFees[currency] = (row.fxFees[currency] || 0) + (Number(t.fxFee) || 0);
+      row.trades += 1;
+    });
+
+  const sorted = Object.values(rows).sort((a, b) => a.key.localeCompare(b.key));
+  return grouping === 'year' ? sorted.reverse() : sorted;
+};
@@ -0,0 +1,76 @@
+import { BaseCurrency, CurrencyStats, FxRateHistory, PortfolioStats } from '../types';
+import { emptyCurrencyStats, normalizeCurrency } from './ledgerEngine';
+import { PriceProvider } from './priceProviders';
+import { todayISO } from './priceHistory';
+
+const BASE_CURRENCY_KEY = 'tradetrack_base_currency';
+
+// Quote symbol for CAD per 1 USD, understood by Gemini search and most quote APIs
+export const FX_SYMBOL = 'USDCAD=X';
+
+export const loadBaseCurrency = (): BaseCurrency =>
+  localStorage.getItem(BASE_CURRENCY_KEY) === 'USD' ? 'USD' : 'CAD';
+
+export const saveBaseCurrency = (currency: BaseCurrency) => {
+  localStorage.setItem(BASE_CURRENCY_KEY, currency);
+};
+
+export const latestFxRate = (rates: FxRateHistory): number | null => {
+  const dates = Object.keys(rates).sort();
+  return dates.length > 0 ? rates[dates[dates.length - 1]] : null;
+};
+
+/**
+ * Rate in effect on a date: the last one on or before it, or the earliest
+ * known rate for dates before any were recorded.
+ */
+export const fxRateOn = (rates: FxRateHistory, date: string): number | null => {
+  const dates = Object.keys(rates).sort();
+  if (dates.length === 0) return null;
+  const onOrBefore = dates.filter(d => d <= date);
+  return rates[onOrBefore.length > 0 ? onOrBefore[onOrBefore.length - 1] : dates[0]];
+};
+
+/**
+ * Converts between USD and CAD. Returns null when no rate is available;
+ * amounts already in the target currency pass through unchanged.
+ */
+export const convertAmount = (amount: number, from: string, to: BaseCurrency, usdCad: number | null): number | null => {
+  const source = normalizeCurrency(from);
+  if (source === to) return amount;
+  if (!usdCad || usdCad <= 0) return null;
+  if (source === 'USD' && to === 'CAD') return amount * usdCad;
+  if (source === 'CAD' && to === 'USD') return amount / usdCad;
+  return null;
+};
+
+/**
+ * Folds the per-currency buckets into one set of totals in the base currency.
+ */
+export const consolidateStats = (stats: PortfolioStats, base: BaseCurrency, usdCad: number | null): CurrencyStats | null => {
+  const total = emptyCurrencyStats();
+  for (const [currency, bucket] of Object.entries(stats)) {
+    for (const field of Object.keys(total) as (keyof CurrencyStats)[]) {
+      const converted = convertAmount(bucket[field], currency, base, usdCad);
+      if (converted === null) return null;
+      total[field] += converted;
+    }
+  }
+  return total;
+};
+
+export const setFxRate = (rates: FxRateHistory, date: string, rate: number): FxRateHistory => ({ ...rates, [date]: rate });
+
+export const removeFxRate = (rates: FxRateHistory, date: string): FxRateHistory => {
+  const { [date]: _, ...rest } = rates;
+  return rest;
+};
+
+/**
+ * Asks the active price provider for today's USD/CAD rate.
+ */
+export const fetchFxRate = async (provider: PriceProvider): Promise<{ date: string; rate: number } | null> => {
+  const { prices } = await provider.fetchPrices([FX_SYMBOL]);
+  const rate = prices[FX_SYMBOL];
+  return rate > 0 ? { date: todayISO(), rate } : null;
+};
@@ -46,19 +46,24 @@ export const parseTransactionWithAI = async (input: string): Promise<any> => {
       RULES:
       1. Map "BOUGHT" or "PURCHASED" to "BUY". 
       2. Map "SOLD" to "SELL".
-      3. Identify currency (USD or CAD). If TSX or Canadian stock, use CAD. If NASDAQ/NYSE, use USD. Default to USD if unclear.
-      4. Fields: date, type(BUY/SELL), symbol, name, shares, price, account, exchange, currency.`,
+      3. Cash dividends are "DIVIDEND", ETF/trust distributions "DISTRIBUTION", interest "INTEREST", reinvested dividends "DRIP", return of capital "ROC". For these, shares is the shares held (or 1) and price is the amount per share (or the total).
+      4. Cash contributions are "DEPOSIT" and cash taken out "WITHDRAWAL", with symbol "CASH", shares 1 and price the amount.
+      5. "fee" is the commission plus any other trading fees; "fxFee" is a separate currency conversion charge. Both are positive numbers; omit them if none are mentioned.
+      6. Identify currency (USD or CAD). If TSX or Canadian stock, use CAD. If NASDAQ/NYSE, use USD. Default to USD if unclear.
+      7. Fields: date, type(BUY/SELL/DIVIDEND/DISTRIBUTION/INTEREST/DRIP/ROC/DEPOSIT/WITHDRAWAL), symbol, name, shares, price, fee, fxFee, account, exchange, currency.`,
       config: {
         responseMimeType: "application/json",
         responseSchema: {
           type: Type.OBJECT,
           properties: {
             date: { type: Type.STRING },
-            type: { type: Type.STRING, enum: ["BUY", "SELL"] },
+            type: { type: Type.STRING, enum: ["BUY", "SELL", "DIVIDEND", "DISTRIBUTION", "INTEREST", "DRIP", "ROC", "DEPOSIT", "WITHDRAWAL"] },
             symbol: { type: Type.STRING },
             name: { type: Type.STRING },
             shares: { type: Type.NUMBER },
             price: { type: Type.NUMBER },
+            fee: { type: Type.NUMBER },
+            fxFee: { type: Type.NUMBER },
             account: { type: Type.STRING },
             exchange: { type: Type.STRING },
             currency: { type: Type.STRING, enum: ["USD", "CAD"] }
@@ -87,12 +92,13 @@ export const parseDocumentsWithAI = async (files: { mimeType: string; data: stri
     const response = await ai.models.generateContent({
       model: "gemini-3-flash-preview",
       contents: {
-        parts: [...parts, { text: `Return a JSON array of BUY/SELL transactions found in these documents. 
+        parts: [...parts, { text: `Return a JSON array of trades and investment income found in these documents. 
         MANDATORY RULES:
-        1. "type" MUST be exactly "BUY" or "SELL". (Map BOUGHT/SOLD/PURCHASED accordingly).
+        1. "type" MUST be exactly "BUY", "SELL", "DIVIDEND", "DISTRIBUTION", "INTEREST", "DRIP" (reinvested dividend), "ROC" (return of capital), "DEPOSIT" or "WITHDRAWAL". Map BOUGHT/SOLD/PURCHASED accordingly. For income rows, shares is the shares held (or 1) and price is the amount per share (or the total). Cash contributions are "DEPOSIT" and cash taken out "WITHDRAWAL", with symbol "CASH", shares 1 and price the amount.
         2. "currency" MUST be "USD" or "CAD". Look for symbols like $ vs C$ or exchange names (TSX vs NASDAQ).
         3. If exchange is missing but symbol ends in .TO, exchange is TSX and currency is CAD.
-        4. Provide: symbol, exchange, type, shares, price, name, date, currency.` }]
+        4. "fee" is the commission plus other trading fees on a confirmation; "fxFee" is a separate currency conversion charge. Both positive; omit if none.
+        5. Provide: symbol, exchange, type, shares, price, fee, fxFee, name, date, currency.` }]
       },
       config: {
         responseMimeType: "application/json",
@@ -102,11 +108,13 @@ export const parseDocumentsWithAI = async (files: { mimeType: string; data: stri
             type: Type.OBJECT,
             properties: {
               date: { type: Type.STRING },
-              type: { type: Type.STRING, enum: ["BUY", "SELL"] },
+              type: { type: Type.STRING, enum: ["BUY", "SELL", "DIVIDEND", "DISTRIBUTION", "INTEREST", "DRIP", "ROC", "DEPOSIT", "WITHDRAWAL"] },
               symbol: { type: Type.STRING },
               name: { type: Type.STRING },
               shares: { type: Type.NUMBER },
               price: { type: Type.NUMBER },
+              fee: { type: Type.NUMBER },
+              fxFee: { type: Type.NUMBER },
               account: { type: Type.STRING },
               exchange: { type: Type.STRING },
               currency: { type: Type.STRING, enum: ["USD", "CAD"] },
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { getStagingWarnings, normalizeImportedTransaction, stageTransactions, summarizeStaged } from './importStaging';
+
+const row = { date: '2024-01-02', type: 'Buy', symbol: 'aapl', exchange: 'nasdaq', account: 'TFSA', shares: '10', price: '100', currency: 'usd' };
+
+describe('normalizeImportedTransaction', () => {
+  it('recognises broker wording for the type', () => {
+    expect(normalizeImportedTransaction(row).type).toBe('BUY');
+    expect(normalizeImportedTransaction({ ...row, type: 'Dividend Reinvestment' }).type).toBe('DRIP');
+  });
+
+  it('leaves an unknown or missing type blank instead of guessing a buy', () => {
+    expect(normalizeImportedTransaction({ ...row, type: 'FEE' }).type).toBe('');
+    expect(normalizeImportedTransaction({ ...row, type: undefined }).type).toBe('');
+  });
+});
+
+describe('stageTransactions', () => {
+  it('warns about an unknown type and starts the row rejected', () => {
+    const [known, unknown] = stageTransactions([row, { ...row, type: 'FEE' }]);
+    expect(known.accepted).toBe(true);
+    expect(unknown.accepted).toBe(false);
+    expect(getStagingWarnings(unknown.data)).toContain('Unknown type');
+  });
+
+  it('warns about corporate actions missing their ratio or new symbol', () => {
+    expect(getStagingWarnings(normalizeImportedTransaction({ ...row, type: 'Split' }))).toContain('Missing split ratio');
+    expect(getStagingWarnings(normalizeImportedTransaction({ ...row, type: 'Merger', ratio: '0.5' }))).toContain('Missing new symbol');
+    expect(getStagingWarnings(normalizeImportedTransaction({ ...row, type: 'Merger', ratio: '0.5', newSymbol: 'msft' }))).not.toContain('Missing new symbol');
+  });
+
+  it('leaves rows without a type out of the summary counts', () => {
+    const staged = stageTransactions([row, { ...row, type: 'FEE' }]).map(s => ({ ...s, accepted: true }));
+    const summary = summarizeStaged(staged, []);
+    expect(summary.buys).toBe(1);
+    expect(summary.income).toBe(0);
+  });
+});
@@ -0,0 +1,88 @@
+import { Transaction, StagedTransaction, ImportedTransaction } from '../types';
+import { normalizeSymbol, normalizeCurrency, parseTransactionType, isIncomeType, isCorporateAction, SUPPORTED_CURRENCIES } from './ledgerEngine';
+import { findDuplicateOf } from './duplicateDetection';
+
+export interface StagingSummary {
+  accepted: number;
+  rejected: number;
+  buys: number;
+  sells: number;
+  income: number;
+  newSymbols: string[];
+  totalsByCurrency: Record<string, number>; // Gross trade value of accepted rows
+}
+
+/**
+ * Normalizes raw extracted rows (AI or CSV) into the shape the ledger expects.
+ * A type that cannot be recognised is left blank for the reviewer to pick.
+ */
+export const normalizeImportedTransaction = (raw: any): ImportedTransaction => ({
+  date: raw?.date ? String(raw.date) : '',
+  type: parseTransactionType(raw?.type) || '',
+  symbol: normalizeSymbol(raw?.symbol),
+  name: raw?.name ? String(raw.name) : normalizeSymbol(raw?.symbol),
+  exchange: (raw?.exchange || 'UNKNOWN').toString().toUpperCase().trim(),
+  account: raw?.account ? String(raw.account) : 'TFSA',
+  shares: Number(raw?.shares) || 0,
+  price: Number(raw?.price) || 0,
+  currency: normalizeCurrency(raw?.currency),
+  ...(Number(raw?.ratio) > 0 ? { ratio: Number(raw.ratio) } : {}),
+  ...(raw?.newSymbol ? { newSymbol: normalizeSymbol(raw.newSymbol) } : {}),
+  ...(Math.abs(Number(raw?.fee)) > 0 ? { fee: Math.abs(Number(raw.fee)) } : {}),
+  ...(Math.abs(Number(raw?.fxFee)) > 0 ? { fxFee: Math.abs(Number(raw.fxFee)) } : {}),
+});
+
+export const hasKnownType = (t: ImportedTransaction): t is Omit<Transaction, 'id'> => t.type !== '';
+
+/**
+ * Problems worth a second look before a row enters the ledger.
+ */
+export const getStagingWarnings = (t: ImportedTransaction, existing: Transaction[] = []): string[] => {
+  const warnings: string[] = [];
+  if (!t.date) warnings.push('Missing date');
+  else if (isNaN(new Date(t.date).getTime())) warnings.push('Invalid date');
+  if (!hasKnownType(t)) warnings.push('Unknown type');
+  if (!t.symbol || t.symbol === 'UNKNOWN') warnings.push('Missing symbol');
+  if (hasKnownType(t) && isCorporateAction(t.type)) {
+    if (t.type === 'SPLIT' && !(Number(t.ratio) > 0)) warnings.push('Missing split ratio');
+    if ((t.type === 'SYMBOL_CHANGE' || (t.type === 'MERGER' && Number(t.ratio) > 0)) && !t.newSymbol) warnings.push('Missing new symbol');
+  } else {
+    if (!(t.shares > 0)) warnings.push('Zero shares');
+    if (!(t.price > 0)) warnings.push('Zero price');
+  }
+  if (!SUPPORTED_CURRENCIES.includes(t.currency)) warnings.push(`Unknown currency ${t.currency}`);
+  if (hasKnownType(t) && findDuplicateOf(t, existing)) warnings.push('Possible duplicate');
+  return warnings;
+};
+
+/**
+ * Rows start accepted unless they already carry a warning. Rows without a
+ * known type cannot be accepted until one is picked.
+ */
+export const stageTransactions = (rows: any[], existing: Transaction[] = []): StagedTransaction[] =>
+  rows.map((raw, index) => {
+    const data = normalizeImportedTransaction(raw);
+    return { key: `${index}`, data, accepted: getStagingWarnings(data, existing).length === 0 };
+  });
+
+export const summarizeStaged = (staged: StagedTransaction[], existing: Transaction[]): StagingSummary => {
+  const knownSymbols = new Set(existing.map(t => normalizeSymbol(t.symbol)));
+  const accepted = staged.filter(s => s.accepted);
+  const newSymbols = new Set<string>();
+  const totalsByCurrency: Record<string, number> = {};
+
+  accepted.forEach(({ data }) => {
+    if (!knownSymbols.has(data.symbol)) newSymbols.add(data.symbol);
+    totalsByCurrency[data.currency] = (totalsByCurrency[data.currency] || 0) + data.shares * data.price;
+  });
+
+  return {
+    accepted: accepted.length,
+    rejected: staged.length - accepted.length,
+    buys: accepted.filter(s => s.data.type === 'BUY').length,
+    sells: accepted.filter(s => s.data.type === 'SELL').length,
+    income: accepted.filter(s => hasKnownType(s.data) && isIncomeType(s.data.type)).length,
+    newSymbols: Array.from(newSymbols).sort(),
+    totalsByCurrency,
+  };
+};
@@ -0,0 +1,42 @@
+import { Transaction, IncomeGrouping, IncomeReportRow, TransactionType } from '../types';
+import { incomeAmount, isIncomeType, normalizeCurrency, normalizeSymbol } from './ledgerEngine';
+
+export const INCOME_GROUPINGS: IncomeGrouping[] = ['month', 'year', 'symbol', 'account'];
+
+const groupKey = (t: Transaction, grouping: IncomeGrouping) => {
+  switch (grouping) {
+    case 'month': return t.date.slice(0, 7);
+    case 'year': return t.date.slice(0, 4);
+    case 'symbol': return normalizeSymbol(t.symbol);
+    case 'account': return (t.account || 'UNKNOWN').toUpperCase().trim();
+  }
+};
+
+/**
+ * Income received per period, symbol or account, split by currency.
+ * Periods are listed newest first; symbols and accounts alphabetically.
+ */
+export const buildIncomeReport = (transactions: Transaction[], grouping: IncomeGrouping, types?: TransactionType[]): IncomeReportRow[] => {
+  const rows: Record<string, IncomeReportRow> = {};
+
+  transactions
+    .filter(t => isIncomeType(t.type) && (!types || types.includes(t.type)) && t.date)
+    .forEach(t => {
+      const amount = incomeAmount(t);
+      if (isNaN(amount)) return;
+      const key = groupKey(t, grouping);
+      const currency = normalizeCurrency(t.currency);
+      const row = rows[key] || (rows[key] = { key, byCurrency: {}, payments: 0 });
+      row.byCurrency[currency] = (row.byCurrency[currency] || 0) + amount;
+      row.payments += 1;
+    });
+
+  const sorted = Object.values(rows).sort((a, b) => a.key.localeCompare(b.key));
+  return grouping === 'month' || grouping === 'year' ? sorted.reverse() : sorted;
+};
+
+export const totalIncomeByCurrency = (rows: IncomeReportRow[]): Record<string, number> =>
+  rows.reduce((acc, row) => {
+    Object.entries(row.byCurrency).forEach(([currency, amount]) => { acc[currency] = (acc[currency] || 0) + amount; });
+    return acc;
+  }, {} as Record<string, number>);
@@ -0,0 +1,181 @@
+import { describe, expect, it } from 'vitest';
+import { Transaction } from '../types';
+import { applyTransaction, buildLedger, emptyPosition } from './ledgerEngine';
+import { buildCashLedger } from './cashLedger';
+
+let nextId = 0;
+const tx = (fields: Partial<Transaction>): Transaction => ({
+  id: `t${++nextId}`,
+  date: '2024-01-01',
+  type: 'BUY',
+  account: 'TFSA',
+  exchange: 'NASDAQ',
+  symbol: 'AAPL',
+  name: 'Apple',
+  shares: 0,
+  price: 0,
+  currency: 'USD',
+  ...fields,
+});
+
+const holding = (transactions: Transaction[], symbol: string, prices: Record<string, number> = {}) => {
+  const found = buildLedger(transactions, prices).holdings.find(h => h.symbol === symbol);
+  if (!found) throw new Error(`No holding for ${symbol}`);
+  return found;
+};
+
+describe('applyTransaction', () => {
+  it('adds buys and their fees to the cost base', () => {
+    const position = emptyPosition();
+    applyTransaction(position, tx({ shares: 10, price: 100, fee: 5 }));
+    applyTransaction(position, tx({ shares: 10, price: 110, fxFee: 0 }));
+    expect(position.shares).toBe(20);
+    expect(position.cost).toBeCloseTo(2105);
+  });
+
+  it('realizes a partial sell against the average cost, net of fees', () => {
+    const position = { shares: 20, cost: 2105 };
+    const realized = applyTransaction(position, tx({ type: 'SELL', shares: 5, price: 120, fee: 5 }));
+    expect(realized).toBeCloseTo(600 - 5 - 5 * 105.25);
+    expect(position.shares).toBe(15);
+    expect(position.cost).toBeCloseTo(15 * 105.25);
+  });
+
+  it('realizes nothing on shares sold beyond those held', () => {
+    const none = emptyPosition();
+    expect(applyTransaction(none, tx({ type: 'SELL', shares: 10, price: 5 }))).toBe(0);
+    expect(none.shares).toBe(0);
+    expect(none.cost).toBe(0);
+
+    const some = { shares: 5, cost: 50 };
+    expect(applyTransaction(some, tx({ type: 'SELL', shares: 10, price: 15, fee: 10 }))).toBeCloseTo(5 * 15 - 5 - 50);
+    expect(some.shares).toBe(0);
+    expect(some.cost).toBe(0);
+  });
+
+  it('ignores rows with non-numeric amounts', () => {
+    const position = { shares: 1, cost: 10 };
+    expect(applyTransaction(position, tx({ shares: NaN, price: 10 }))).toBe(0);
+    expect(position).toEqual({ shares: 1, cost: 10 });
+  });
+});
+
+describe('buildLedger', () => {
+  it('books no realized P/L for a sell with no buys', () => {
+    expect(holding([tx({ type: 'SELL', shares: 10, price: 5 })], 'AAPL').realizedPL).toBe(0);
+  });
+
+  it('starts a buy after an oversell from an empty position', () => {
+    const h = holding([
+      tx({ shares: 10, price: 10 }),
+      tx({ date: '2024-02-01', type: 'SELL', shares: 15, price: 12 }),
+      tx({ date: '2024-03-01', shares: 10, price: 20 }),
+    ], 'AAPL');
+    expect(h.totalShares).toBe(10);
+    expect(h.avgCost).toBeCloseTo(20);
+    expect(h.totalInvested).toBeCloseTo(200);
+  });
+
+  it('averages the cost of several buys', () => {
+    const h = holding([tx({ shares: 10, price: 100, fee: 5 }), tx({ date: '2024-02-01', shares: 10, price: 110 })], 'AAPL', { AAPL: 120 });
+    expect(h.totalShares).toBe(20);
+    expect(h.avgCost).toBeCloseTo(105.25);
+    expect(h.totalInvested).toBeCloseTo(2105);
+  });
+
+  it('keeps the remaining cost after a partial sell and reports realized P/L', () => {
+    const transactions = [
+      tx({ shares: 10, price: 100, fee: 5 }),
+      tx({ date: '2024-02-01', shares: 10, price: 110 }),
+      tx({ date: '2024-03-01', type: 'SELL', shares: 5, price: 120, fee: 5 }),
+    ];
+    const result = buildLedger(transactions, { AAPL: 130 });
+    const h = result.holdings[0];
+    expect(h.totalShares).toBe(15);
+    expect(h.totalInvested).toBeCloseTo(1578.75);
+    expect(h.realizedPL).toBeCloseTo(68.75);
+    expect(result.stats.USD.totalUnrealizedPL).toBeCloseTo(15 * 130 - 1578.75);
+    expect(result.runningState[transactions[2].id].sharesHeld).toBe(15);
+  });
+
+  it('closes a position left with float dust after selling everything', () => {
+    const h = holding([tx({ shares: 0.1, price: 10 }), tx({ shares: 0.2, price: 10 }), tx({ date: '2024-02-01', type: 'SELL', shares: 0.3, price: 12 })], 'AAPL');
+    expect(h.totalShares).toBe(0);
+    expect(h.totalInvested).toBe(0);
+    expect(h.avgCost).toBe(0);
+    expect(h.realizedPL).toBeCloseTo(0.6);
+  });
+
+  it('adds reinvested dividends as shares and income', () => {
+    const h = holding([tx({ shares: 10, price: 10 }), tx({ date: '2024-02-01', type: 'DRIP', shares: 1, price: 12 })], 'AAPL');
+    expect(h.totalShares).toBe(11);
+    expect(h.totalInvested).toBeCloseTo(112);
+    expect(h.incomeReceived).toBeCloseTo(12);
+  });
+
+  it('lowers the cost base on return of capital and realizes what exceeds it', () => {
+    const transactions = [tx({ shares: 10, price: 10 }), tx({ date: '2024-02-01', type: 'ROC', shares: 10, price: 1 })];
+    expect(holding(transactions, 'AAPL').totalInvested).toBeCloseTo(90);
+
+    const excess = holding([...transactions, tx({ date: '2024-03-01', type: 'ROC', shares: 10, price: 10 })], 'AAPL');
+    expect(excess.totalInvested).toBe(0);
+    expect(excess.realizedPL).toBeCloseTo(10);
+    expect(excess.totalShares).toBe(10);
+  });
+
+  it('applies splits and reverse splits without changing the cost base', () => {
+    const split = holding([tx({ shares: 10, price: 100 }), tx({ date: '2024-02-01', type: 'SPLIT', ratio: 4 })], 'AAPL');
+    expect(split.totalShares).toBe(40);
+    expect(split.avgCost).toBeCloseTo(25);
+
+    const reverse = holding([tx({ shares: 100, price: 1 }), tx({ date: '2024-02-01', type: 'SPLIT', ratio: 0.1 })], 'AAPL');
+    expect(reverse.totalShares).toBeCloseTo(10);
+    expect(reverse.totalInvested).toBeCloseTo(100);
+  });
+
+  it('carries a renamed holding over to its new symbol', () => {
+    const result = buildLedger([
+      tx({ symbol: 'FB', shares: 10, price: 10 }),
+      tx({ date: '2024-02-01', type: 'SYMBOL_CHANGE', symbol: 'FB', newSymbol: 'META' }),
+      tx({ date: '2024-03-01', symbol: 'META', shares: 10, price: 20 }),
+    ], {});
+    expect(result.holdings.map(h => h.symbol)).toEqual(['META']);
+    expect(result.holdings[0].totalShares).toBe(20);
+    expect(result.holdings[0].totalInvested).toBeCloseTo(300);
+  });
+
+  it('converts shares in a merger and takes cash out of the cost base', () => {
+    const h = holding([
+      tx({ symbol: 'OLD', shares: 10, price: 10 }),
+      tx({ date: '2024-02-01', type: 'MERGER', symbol: 'OLD', newSymbol: 'NEW', ratio: 0.5, price: 2 }),
+    ], 'NEW');
+    expect(h.totalShares).toBe(5);
+    expect(h.totalInvested).toBeCloseTo(80);
+    expect(h.realizedPL).toBe(0);
+  });
+
+  it('realizes the whole position in an all-cash takeover', () => {
+    const h = holding([
+      tx({ symbol: 'OLD', shares: 10, price: 10 }),
+      tx({ date: '2024-02-01', type: 'MERGER', symbol: 'OLD', price: 15 }),
+    ], 'OLD');
+    expect(h.totalShares).toBe(0);
+    expect(h.realizedPL).toBeCloseTo(50);
+  });
+
+  it('adds a cash line per currency from the cash ledger', () => {
+    const transactions = [
+      tx({ type: 'DEPOSIT', symbol: 'CASH', shares: 1000, price: 1, currency: 'CAD' }),
+      tx({ date: '2024-02-01', symbol: 'XEQT', shares: 5, price: 100, fee: 10, currency: 'CAD' }),
+      tx({ date: '2024-03-01', type: 'INTEREST', symbol: 'CASH', shares: 2, price: 1, currency: 'CAD' }),
+    ];
+    const result = buildLedger(transactions, { XEQT: 100 }, buildCashLedger(transactions).balances);
+    const cash = result.holdings.find(h => h.isCash);
+    expect(result.holdings.map(h => h.symbol)).toEqual(['XEQT', 'CASH']);
+    expect(cash?.currency).toBe('CAD');
+    expect(cash?.totalShares).toBeCloseTo(492);
+    expect(cash?.incomeReceived).toBeCloseTo(2);
+    expect(result.stats.CAD.totalCash).toBeCloseTo(492);
+    expect(result.stats.CAD.totalValue).toBeCloseTo(992);
+  });
+});
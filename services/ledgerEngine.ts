@@ -0,0 +1,412 @@
+import { Transaction, TransactionType, StockSummary, PortfolioStats, CurrencyStats, LedgerResult, TransactionRunningState, CashBalance } from '../types';
+
+/**
+ * Pure portfolio math. Nothing in here touches React, storage or the network,
+ * so every number the UI shows can be reproduced from a ledger and a price map.
+ */
+
+// Positions smaller than this are treated as fully closed (float dust from partial sells)
+export const SHARE_EPSILON = 0.000001;
+
+// Currencies with their own bucket in PortfolioStats
+export const SUPPORTED_CURRENCIES = ['USD', 'CAD'];
+
+export const TRANSACTION_TYPES: TransactionType[] = ['BUY', 'SELL', 'DIVIDEND', 'DISTRIBUTION', 'INTEREST', 'DRIP', 'ROC', 'SPLIT', 'SYMBOL_CHANGE', 'MERGER', 'DEPOSIT', 'WITHDRAWAL'];
+
+// Symbol for cash entries: deposits, withdrawals and interest earned on cash
+export const CASH_SYMBOL = 'CASH';
+
+export const TRANSACTION_TYPE_LABELS: Record<TransactionType, string> = {
+  BUY: 'Buy',
+  SELL: 'Sell',
+  DIVIDEND: 'Dividend',
+  DISTRIBUTION: 'Distribution',
+  INTEREST: 'Interest',
+  DRIP: 'DRIP (Reinvested)',
+  ROC: 'Return of Capital',
+  SPLIT: 'Split / Reverse Split',
+  SYMBOL_CHANGE: 'Symbol Change',
+  MERGER: 'Merger',
+  DEPOSIT: 'Deposit',
+  WITHDRAWAL: 'Withdrawal',
+};
+
+// Types that pay the holder; DRIP pays in shares rather than cash
+export const INCOME_TYPES: TransactionType[] = ['DIVIDEND', 'DISTRIBUTION', 'INTEREST', 'DRIP'];
+
+// Types that add shares to a position
+export const ACQUISITION_TYPES: TransactionType[] = ['BUY', 'DRIP'];
+
+// Adjust existing positions instead of trading
+export const CORPORATE_ACTION_TYPES: TransactionType[] = ['SPLIT', 'SYMBOL_CHANGE', 'MERGER'];
+
+export const isIncomeType = (type: TransactionType) => INCOME_TYPES.includes(type);
+export const isCorporateAction = (type: TransactionType) => CORPORATE_ACTION_TYPES.includes(type);
+export const isCashTransfer = (type: TransactionType) => type === 'DEPOSIT' || type === 'WITHDRAWAL';
+
+// Entries that belong to the cash ledger rather than a security
+export const isCashEntry = (t: Pick<Transaction, 'type' | 'symbol'>) => isCashTransfer(t.type) || normalizeSymbol(t.symbol) === CASH_SYMBOL;
+export const isAcquisitionType = (type: TransactionType) => ACQUISITION_TYPES.includes(type);
+
+export const incomeAmount = (t: Transaction) => isIncomeType(t.type) ? Number(t.shares) * Number(t.price) : 0;
+
+// Commission plus FX charge; raises the cost of buys and lowers the proceeds of sells
+export const transactionFees = (t: Pick<Transaction, 'fee' | 'fxFee'>) => (Number(t.fee) || 0) + (Number(t.fxFee) || 0);
+
+/**
+ * Maps broker and AI wording onto a TransactionType, or null if unrecognised.
+ */
+export const parseTransactionType = (value: string | undefined): TransactionType | null => {
+  const upper = (value || '').toUpperCase().trim();
+  if (!upper) return null;
+  if (TRANSACTION_TYPES.includes(upper as TransactionType)) return upper as TransactionType;
+  if (upper.includes('SPLIT')) return 'SPLIT';
+  if (upper.includes('DEPOSIT') || upper.includes('CONTRIBUTION') || upper.includes('TRANSFER IN')) return 'DEPOSIT';
+  if (upper.includes('WITHDRAW') || upper.includes('TRANSFER OUT')) return 'WITHDRAWAL';
+  if (upper.includes('MERGER') || upper.includes('ACQUISITION')) return 'MERGER';
+  if (/(NAME|SYMBOL|TICKER) CHANGE/.test(upper)) return 'SYMBOL_CHANGE';
+  if (upper.includes('REINVEST') || upper.includes('DRIP')) return 'DRIP';
+  if (upper.includes('RETURN OF CAPITAL') || upper === 'RTC') return 'ROC';
+  if (upper.includes('DISTRIBUTION')) return 'DISTRIBUTION';
+  if (upper.includes('DIV')) return 'DIVIDEND';
+  if (upper.includes('INTEREST')) return 'INTEREST';
+  if (upper.includes('SELL') || upper.includes('SOLD') || upper === 'S') return 'SELL';
+  if (upper.includes('BUY') || upper.includes('BOUGHT') || upper.includes('PURCHASE') || upper === 'B') return 'BUY';
+  return null;
+};
+
+export const emptyCurrencyStats = (): CurrencyStats => ({
+  totalValue: 0,
+  totalCostBasis: 0,
+  totalRealizedPL: 0,
+  totalUnrealizedPL: 0,
+  totalIncome: 0,
+  totalCash: 0,
+});
+
+export const emptyPortfolioStats = (): PortfolioStats => ({
+  USD: emptyCurrencyStats(),
+  CAD: emptyCurrencyStats(),
+});
+
+export const normalizeSymbol = (symbol: string | undefined) => (symbol || 'UNKNOWN').toUpperCase().trim();
+export const normalizeCurrency = (currency: string | undefined) => (currency || 'USD').toUpperCase();
+
+// Yahoo-style suffixes of Canadian listings
+const CAD_QUOTE_SUFFIXES = ['.TO', '.V', '.NE', '.CN'];
+
+/**
+ * Best guess at the currency a symbol is quoted in, for symbols with no trades yet.
+ */
+export const guessQuoteCurrency = (symbol: string) =>
+  CAD_QUOTE_SUFFIXES.some(suffix => normalizeSymbol(symbol).endsWith(suffix)) ? 'CAD' : 'USD';
+
+export const holdingKey = (symbol: string, currency: string) => `${normalizeSymbol(symbol)}_${normalizeCurrency(currency)}`;
+
+// Trades dated on a corporate action's effective date are already post-action, so actions sort first
+export const compareByDate = (a: Transaction, b: Transaction) =>
+  new Date(a.date).getTime() - new Date(b.date).getTime() ||
+  Number(isCorporateAction(b.type)) - Number(isCorporateAction(a.type));
+
+/**
+ * Maps each renamed or acquired symbol to the symbol it continues under.
+ */
+export const buildSymbolSuccessors = (transactions: Transaction[]): Record<string, string> => {
+  const successors: Record<string, string> = {};
+  transactions.forEach(t => {
+    if ((t.type === 'SYMBOL_CHANGE' || t.type === 'MERGER') && t.newSymbol) {
+      successors[normalizeSymbol(t.symbol)] = normalizeSymbol(t.newSymbol);
+    }
+  });
+  return successors;
+};
+
+/**
+ * Follows renames and mergers to the symbol a holding trades under today.
+ */
+export const resolveSymbol = (symbol: string, successors: Record<string, string>) => {
+  let current = normalizeSymbol(symbol);
+  const seen = new Set<string>();
+  while (successors[current] && !seen.has(current)) {
+    seen.add(current);
+    current = successors[current];
+  }
+  return current;
+};
+
+/**
+ * Groups transactions by current symbol and currency, each group sorted
+ * oldest first. Rows recorded under a former ticker join their successor.
+ */
+export const groupTransactions = (transactions: Transaction[]): Record<string, Transaction[]> => {
+  const successors = buildSymbolSuccessors(transactions);
+  const groups: Record<string, Transaction[]> = {};
+  transactions.forEach(t => {
+    const key = holdingKey(resolveSymbol(t.symbol, successors), t.currency);
+    if (!groups[key]) groups[key] = [];
+    groups[key].push(t);
+  });
+  Object.values(groups).forEach(txs => txs.sort(compareByDate));
+  return groups;
+};
+
+export interface Position {
+  shares: number;
+  cost: number; // Total cost base of the shares held
+}
+
+export const emptyPosition = (): Position => ({ shares: 0, cost: 0 });
+
+// Positions keyed by symbol, for replays that cross renames and mergers
+export type PositionBook = Record<string, Position>;
+
+/**
+ * Lowers the cost base; any amount beyond it is a realized gain.
+ */
+const reduceCost = (position: Position, amount: number): number => {
+  position.cost -= amount;
+  if (position.cost >= 0) return 0;
+  const excess = -position.cost;
+  position.cost = 0;
+  return excess;
+};
+
+/**
+ * Applies one transaction to a position in place using average-cost
+ * accounting and returns the realized P/L it produced.
+ * Cash income leaves the position untouched.
+ */
+export const applyTransaction = (position: Position, t: Transaction): number => {
+  const shares = Number(t.shares), price = Number(t.price);
+  if (isNaN(shares) || isNaN(price)) return 0;
+  switch (t.type) {
+    case 'BUY':
+    case 'DRIP':
+      position.shares += shares;
+      position.cost += shares * price + transactionFees(t);
+      return 0;
+    case 'SELL': {
+      // Shares sold beyond those held have no cost to realize against. Validation
+      // flags the oversell; only the part that was held leaves the position, so
+      // later buys start from zero rather than filling a deficit.
+      const held = Math.min(shares, Math.max(position.shares, 0));
+      const avg = position.shares > 0 ? position.cost / position.shares : 0;
+      const portion = shares > 0 ? held / shares : 0;
+      position.shares -= held;
+      position.cost -= held * avg;
+      return portion * (shares * price - transactionFees(t)) - held * avg;
+    }
+    case 'ROC':
+      return reduceCost(position, shares * price);
+    case 'SPLIT': {
+      const ratio = Number(t.ratio);
+      if (ratio > 0) position.shares *= ratio;
+      return 0;
+    }
+    case 'MERGER': {
+      const ratio = Number(t.ratio) || 0;
+      const cash = position.shares * price;
+      if (ratio <= 0) {
+        // All-cash takeover disposes of the whole position
+        const realized = cash - position.cost;
+        position.shares = 0;
+        position.cost = 0;
+        return realized;
+      }
+      // Cash alongside new shares comes out of the carried-over cost base
+      position.shares *= ratio;
+      return reduceCost(position, cash);
+    }
+    default:
+      return 0;
+  }
+};
+
+/**
+ * Applies a transaction to the position of its symbol. Renames and mergers
+ * move the adjusted position over to the successor symbol.
+ */
+export const applyToBook = (book: PositionBook, t: Transaction): number => {
+  const symbol = normalizeSymbol(t.symbol);
+  const position = book[symbol] || (book[symbol] = emptyPosition());
+  const realized = applyTransaction(position, t);
+
+  const successor = t.newSymbol ? normalizeSymbol(t.newSymbol) : null;
+  if ((t.type === 'SYMBOL_CHANGE' || t.type === 'MERGER') && successor && successor !== symbol) {
+    const target = book[successor] || (book[successor] = emptyPosition());
+    target.shares += position.shares;
+    target.cost += position.cost;
+    delete book[symbol];
+  }
+  return realized;
+};
+
+/**
+ * Shares a past acquisition amounts to now, after any later splits and mergers.
+ */
+export const adjustedShares = (t: Transaction, txs: Transaction[]): number => {
+  let symbol = normalizeSymbol(t.symbol), shares = Number(t.shares);
+  txs
+    .filter(a => isCorporateAction(a.type) && compareByDate(a, t) > 0)
+    .sort(compareByDate)
+    .forEach(a => {
+      if (normalizeSymbol(a.symbol) !== symbol) return;
+      if (a.type === 'SPLIT' && Number(a.ratio) > 0) shares *= Number(a.ratio);
+      if (a.type === 'MERGER') shares *= Number(a.ratio) || 0;
+      if (a.type !== 'SPLIT' && a.newSymbol) symbol = normalizeSymbol(a.newSymbol);
+    });
+  return shares;
+};
+
+/**
+ * Short human description of a corporate action, e.g. "4:1 split".
+ */
+export const describeCorporateAction = (t: Transaction): string => {
+  const ratio = Number(t.ratio) || 0;
+  const successor = normalizeSymbol(t.newSymbol);
+  switch (t.type) {
+    case 'SPLIT':
+      return ratio >= 1 ? `${ratio}:1 split` : ratio > 0 ? `1:${Math.round(1 / ratio * 1000) / 1000} reverse split` : 'Split (no ratio)';
+    case 'SYMBOL_CHANGE':
+      return `${normalizeSymbol(t.symbol)} → ${successor}`;
+    case 'MERGER': {
+      const parts = [ratio > 0 ? `${ratio} ${successor} per share` : '', Number(t.price) > 0 ? `${Number(t.price).toFixed(2)} cash per share` : ''].filter(Boolean);
+      return `Merged${ratio > 0 ? ` into ${successor}` : ''}: ${parts.join(' + ') || 'no terms'}`;
+    }
+    default:
+      return '';
+  }
+};
+
+export const bookTotals = (book: PositionBook): Position =>
+  Object.values(book).reduce((acc, p) => ({ shares: acc.shares + p.shares, cost: acc.cost + p.cost }), emptyPosition());
+
+/**
+ * Replays one holding's transactions with average-cost accounting.
+ * The holding is reported under the symbol it trades as after any renames.
+ */
+export const replayHolding = (
+  txs: Transaction[],
+  currentPrices: Record<string, number>
+): { summary: StockSummary; runningState: TransactionRunningState[] } => {
+  const symbol = resolveSymbol(txs[0].symbol, buildSymbolSuccessors(txs));
+  const currency = txs[0].currency;
+  const runningState: TransactionRunningState[] = [];
+
+  const book: PositionBook = {};
+  let realizedPL = 0, incomeReceived = 0;
+
+  txs.forEach(t => {
+    const shares = Number(t.shares), price = Number(t.price);
+    if (isNaN(shares) || isNaN(price)) return;
+    realizedPL += applyToBook(book, t);
+    incomeReceived += incomeAmount(t);
+    const position = bookTotals(book);
+    runningState.push({
+      transactionId: t.id,
+      sharesHeld: position.shares,
+      costBasis: position.cost,
+      avgCost: position.shares > 0 ? position.cost / position.shares : 0,
+      realizedPL,
+    });
+  });
+
+  const position = bookTotals(book);
+  let sharesHeld = position.shares, totalCost = position.cost;
+  if (sharesHeld < SHARE_EPSILON) { sharesHeld = 0; totalCost = 0; }
+  const latest = [...txs].reverse().find(t => normalizeSymbol(t.symbol) === symbol && !isCorporateAction(t.type));
+
+  return {
+    summary: {
+      symbol,
+      currency,
+      name: latest?.name || symbol,
+      totalShares: sharesHeld,
+      avgCost: sharesHeld > 0 ? totalCost / sharesHeld : 0,
+      currentPrice: currentPrices[symbol] || null,
+      totalInvested: totalCost,
+      realizedPL,
+      incomeReceived,
+      transactions: txs,
+    },
+    runningState,
+  };
+};
+
+/**
+ * Adds a holding's figures to the currency bucket it belongs to.
+ * Holdings without a live price are valued at cost.
+ */
+const accumulateStats = (stats: PortfolioStats, summary: StockSummary) => {
+  const statsRef = stats[summary.currency as keyof PortfolioStats] || stats.USD;
+  if (summary.isCash) {
+    statsRef.totalValue += summary.totalShares;
+    statsRef.totalCash += summary.totalShares;
+    statsRef.totalIncome += summary.incomeReceived;
+    return;
+  }
+  statsRef.totalRealizedPL += summary.realizedPL;
+  statsRef.totalCostBasis += summary.totalInvested;
+  statsRef.totalIncome += summary.incomeReceived;
+
+  if (summary.currentPrice !== null && summary.totalShares > 0) {
+    const marketVal = summary.totalShares * summary.currentPrice;
+    statsRef.totalValue += marketVal;
+    statsRef.totalUnrealizedPL += (marketVal - summary.totalInvested);
+  } else {
+    statsRef.totalValue += summary.totalInvested;
+  }
+};
+
+/**
+ * One cash line per currency, summing the balances of every cash-tracked account.
+ */
+const buildCashHoldings = (transactions: Transaction[], cashBalances: CashBalance[]): StockSummary[] =>
+  SUPPORTED_CURRENCIES
+    .map((currency): StockSummary | null => {
+      const balances = cashBalances.filter(b => b.currency === currency);
+      if (balances.length === 0) return null;
+      const txs = transactions.filter(t => isCashEntry(t) && normalizeCurrency(t.currency) === currency).sort(compareByDate);
+      const balance = balances.reduce((sum, b) => sum + b.balance, 0);
+      return {
+        symbol: CASH_SYMBOL,
+        currency,
+        name: `Cash (${balances.map(b => b.account).join(', ')})`,
+        totalShares: balance,
+        avgCost: 1,
+        currentPrice: 1,
+        totalInvested: balance,
+        realizedPL: 0,
+        incomeReceived: txs.reduce((sum, t) => sum + incomeAmount(t), 0),
+        transactions: txs,
+        isCash: true,
+      };
+    })
+    .filter((h): h is StockSummary => h !== null);
+
+/**
+ * Computes holdings, per-currency totals and the running state after every
+ * transaction from the raw ledger and the latest known prices. Cash balances
+ * from the cash ledger, when given, are added as one cash line per currency.
+ */
+export const buildLedger = (transactions: Transaction[], currentPrices: Record<string, number>, cashBalances: CashBalance[] = []): LedgerResult => {
+  const holdings: StockSummary[] = [];
+  const stats = emptyPortfolioStats();
+  const runningState: Record<string, TransactionRunningState> = {};
+
+  Object.values(groupTransactions(transactions.filter(t => !isCashEntry(t)))).forEach(txs => {
+    const result = replayHolding(txs, currentPrices);
+    result.runningState.forEach(state => { runningState[state.transactionId] = state; });
+    accumulateStats(stats, result.summary);
+    holdings.push(result.summary);
+  });
+
+  const cashHoldings = buildCashHoldings(transactions, cashBalances);
+  cashHoldings.forEach(summary => accumulateStats(stats, summary));
+
+  return {
+    holdings: [...holdings.sort((a, b) => a.symbol.localeCompare(b.symbol)), ...cashHoldings],
+    stats,
+    runningState,
+  };
+};
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { Transaction } from '../types';
+import { localDateISO } from './priceHistory';
+import { validateTransaction } from './ledgerValidation';
+
+const tx = (id: string, fields: Partial<Transaction> = {}): Transaction => ({
+  id,
+  date: '2024-01-01',
+  type: 'BUY',
+  account: 'TFSA',
+  exchange: 'NASDAQ',
+  symbol: 'AAPL',
+  name: 'Apple',
+  shares: 10,
+  price: 100,
+  currency: 'USD',
+  ...fields,
+});
+
+const codes = (candidate: Transaction, transactions: Transaction[]) => validateTransaction(candidate, transactions).map(i => i.code);
+
+describe('validateTransaction', () => {
+  it('reports a sell of shares that are not held', () => {
+    const ledger = [tx('a', { shares: 5 })];
+    expect(codes(tx('new', { date: '2024-02-01', type: 'SELL', shares: 10 }), ledger)).toEqual(['OVERSELL']);
+  });
+
+  it('does not hold an edit to a row against a problem it already had', () => {
+    const oversell = tx('s', { date: '2024-02-01', type: 'SELL', shares: 10 });
+    const ledger = [tx('a', { shares: 5 }), oversell];
+    expect(codes({ ...oversell, fee: 9.99 }, ledger)).toEqual([]);
+  });
+
+  it('reports problems an edit causes in other rows', () => {
+    const buy = tx('a', { shares: 10 });
+    const ledger = [buy, tx('s', { date: '2024-02-01', type: 'SELL', shares: 10 })];
+    expect(validateTransaction({ ...buy, shares: 5 }, ledger).map(i => [i.transactionId, i.code])).toEqual([['s', 'OVERSELL']]);
+  });
+
+  it('rejects a transaction whose type is not known', () => {
+    expect(codes(tx('x', { type: 'FEE' as never }), [])).toEqual(['INVALID_TYPE']);
+  });
+
+  it('accepts the local date as today and refuses a later one', () => {
+    const tomorrow = new Date();
+    tomorrow.setDate(tomorrow.getDate() + 1);
+    expect(codes(tx('x', { date: localDateISO() }), [])).toEqual([]);
+    expect(codes(tx('x', { date: localDateISO(tomorrow) }), [])).toEqual(['FUTURE_DATE']);
+  });
+});
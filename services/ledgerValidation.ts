@@ -0,0 +1,157 @@
+import { Account, LedgerIssue, Transaction } from '../types';
+import {
+  applyToBook, compareByDate, isAcquisitionType, isCashEntry, isCashTransfer, isCorporateAction,
+  normalizeCurrency, normalizeSymbol, PositionBook, SHARE_EPSILON, TRANSACTION_TYPES,
+} from './ledgerEngine';
+import { accountMatchKey, findAccount } from './accounts';
+import { localDateISO } from './priceHistory';
+
+/**
+ * Integrity checks over the whole ledger. Errors describe data that cannot be
+ * right (selling shares never bought, a trade dated tomorrow); warnings
+ * describe data that is unusual but possible.
+ */
+
+const CAD_EXCHANGES = ['TSX', 'TSXV', 'TSX-V', 'CSE', 'NEO', 'CBOE CANADA', 'XTSE', 'XTSX'];
+const US_EXCHANGES = ['NYSE', 'NASDAQ', 'AMEX', 'NYSEARCA', 'NYSE ARCA', 'ARCA', 'BATS', 'OTC', 'XNYS', 'XNAS'];
+const CAD_SYMBOL_SUFFIXES = ['.TO', '.V', '.CN', '.NE'];
+
+// USD-traded units of Canadian listings, such as DLR.U or XUS.U.TO
+const isUsdUnitOnCanadianListing = (symbol: string) => /[.-]U(\.[A-Z]+)?$/.test(symbol);
+
+const bookKey = (t: Pick<Transaction, 'account' | 'currency'>) => `${accountMatchKey(t.account)}|${normalizeCurrency(t.currency)}`;
+
+// Same-day buys are replayed before sells, so day trades never look like oversells
+const compareForReplay = (a: Transaction, b: Transaction) =>
+  compareByDate(a, b) || Number(isAcquisitionType(b.type)) - Number(isAcquisitionType(a.type));
+
+const formatShares = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 6 });
+
+/**
+ * Checks that only need the transaction itself.
+ */
+const checkFields = (t: Transaction): LedgerIssue[] => {
+  const issues: LedgerIssue[] = [];
+  const add = (code: LedgerIssue['code'], severity: LedgerIssue['severity'], message: string) =>
+    issues.push({ transactionId: t.id, code, severity, message });
+
+  if (!t.date || isNaN(new Date(t.date).getTime())) add('INVALID_DATE', 'error', `Date "${t.date || ''}" is not a valid date.`);
+  else if (t.date > localDateISO()) add('FUTURE_DATE', 'error', `Dated ${t.date}, which is in the future.`);
+
+  if (!TRANSACTION_TYPES.includes(t.type)) {
+    add('INVALID_TYPE', 'error', `Type "${t.type || ''}" is not a known transaction type.`);
+    return issues;
+  }
+
+  const shares = Number(t.shares), price = Number(t.price);
+  if (isCorporateAction(t.type)) {
+    const ratio = Number(t.ratio);
+    if (t.type === 'SPLIT' && !(ratio > 0)) add('INVALID_ACTION', 'error', 'Split has no ratio.');
+    if (t.type === 'SYMBOL_CHANGE' && !t.newSymbol) add('INVALID_ACTION', 'error', 'Symbol change has no new symbol.');
+    if (t.type === 'MERGER' && ratio > 0 && !t.newSymbol) add('INVALID_ACTION', 'error', 'Merger pays shares but has no new symbol.');
+    if (t.type === 'MERGER' && !(ratio > 0) && !(price > 0)) add('INVALID_ACTION', 'error', 'Merger pays neither shares nor cash.');
+    return issues;
+  }
+
+  if (isCashTransfer(t.type)) {
+    if (!(shares * price > 0)) add('INVALID_PRICE', 'error', `${t.type === 'DEPOSIT' ? 'Deposit' : 'Withdrawal'} amount must be positive.`);
+    return issues;
+  }
+
+  if (isNaN(shares) || shares <= 0) add('INVALID_SHARES', 'error', `Share quantity ${t.shares} must be positive.`);
+  if (isNaN(price) || price <= 0) add('INVALID_PRICE', 'error', `Price ${t.price} must be positive.`);
+
+  if (!isCashEntry(t)) {
+    const symbol = normalizeSymbol(t.symbol);
+    const exchange = (t.exchange || '').toUpperCase().trim();
+    const currency = normalizeCurrency(t.currency);
+    const listedInCanada = CAD_EXCHANGES.includes(exchange) || CAD_SYMBOL_SUFFIXES.some(s => symbol.endsWith(s));
+    if (listedInCanada && currency === 'USD' && !isUsdUnitOnCanadianListing(symbol)) {
+      add('CURRENCY_MISMATCH', 'warning', `${symbol} trades on a Canadian exchange but is recorded in USD.`);
+    } else if (US_EXCHANGES.includes(exchange) && currency === 'CAD') {
+      add('CURRENCY_MISMATCH', 'warning', `${symbol} trades on ${exchange} but is recorded in CAD.`);
+    }
+  }
+
+  return issues;
+};
+
+/**
+ * Validates every transaction, replaying positions account by account to find
+ * sells of shares that were not held. Short sales in margin accounts are only warnings.
+ */
+export const validateLedger = (transactions: Transaction[], accounts: Account[] = []): LedgerIssue[] => {
+  const issues: LedgerIssue[] = transactions.flatMap(checkFields);
+  const books: Record<string, PositionBook> = {};
+  const acquired = new Set<string>();
+
+  [...transactions]
+    .filter(t => !isCashEntry(t) && !isNaN(new Date(t.date).getTime()))
+    .sort(compareForReplay)
+    .forEach(t => {
+      const symbol = normalizeSymbol(t.symbol);
+
+      if (isCorporateAction(t.type)) {
+        // Corporate actions reach every account holding the security
+        const holders = Object.values(books).filter(book => (book[symbol]?.shares || 0) > SHARE_EPSILON);
+        if (holders.length === 0) {
+          issues.push({ transactionId: t.id, code: 'NOTHING_HELD', severity: 'warning', message: `No account holds ${symbol} on ${t.date}, so this has no effect.` });
+        }
+        holders.forEach(book => applyToBook(book, t));
+        return;
+      }
+
+      const key = bookKey(t);
+      const book = books[key] || (books[key] = {});
+      const held = book[symbol]?.shares || 0;
+      const account = t.account || 'this account';
+
+      if (t.type === 'SELL') {
+        const shares = Number(t.shares);
+        if (shares > held + SHARE_EPSILON) {
+          const isShortable = findAccount(t.account, accounts)?.type === 'MARGIN';
+          const beforeFirstBuy = !acquired.has(`${key}|${symbol}`);
+          issues.push({
+            transactionId: t.id,
+            code: beforeFirstBuy ? 'SELL_BEFORE_BUY' : 'OVERSELL',
+            severity: isShortable ? 'warning' : 'error',
+            message: beforeFirstBuy
+              ? `Sells ${formatShares(shares)} ${symbol} before any were bought in ${account}.`
+              : `Sells ${formatShares(shares)} ${symbol} but only ${formatShares(Math.max(0, held))} are held in ${account}.`,
+          });
+        }
+      } else if (t.type === 'ROC' && held <= SHARE_EPSILON) {
+        issues.push({ transactionId: t.id, code: 'NOTHING_HELD', severity: 'warning', message: `Return of capital on ${symbol}, which ${account} does not hold.` });
+      }
+
+      if (isAcquisitionType(t.type)) acquired.add(`${key}|${symbol}`);
+      applyToBook(book, t);
+    });
+
+  return issues;
+};
+
+/**
+ * Issues a change would introduce: those found with the candidate in the
+ * ledger that were not there before. An existing transaction is replaced by id.
+ */
+export const validateTransaction = (
+  candidate: Transaction,
+  transactions: Transaction[],
+  accounts: Account[] = []
+): LedgerIssue[] => {
+  const issueKey = (i: LedgerIssue) => `${i.transactionId}|${i.code}`;
+  const before = new Set(validateLedger(transactions, accounts).map(issueKey));
+  const after = [...transactions.filter(t => t.id !== candidate.id), candidate];
+  // An edit to a row that was already wrong, such as the fee on an old oversell, is not blocked by it
+  return validateLedger(after, accounts).filter(i => !before.has(issueKey(i)));
+};
+
+/**
+ * Issues keyed by transaction id, for marking rows.
+ */
+export const issuesByTransaction = (issues: LedgerIssue[]): Record<string, LedgerIssue[]> =>
+  issues.reduce((acc, issue) => {
+    (acc[issue.transactionId] = acc[issue.transactionId] || []).push(issue);
+    return acc;
+  }, {} as Record<string, LedgerIssue[]>);
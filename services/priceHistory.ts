@@ -0,0 +1,129 @@
+import { Transaction, PriceHistory, ValuePoint } from '../types';
+import { parseCsvTable, parseCsvDate } from './csvImport';
+import { normalizeSymbol, normalizeCurrency, compareByDate, applyToBook, isCashEntry, transactionFees, PositionBook } from './ledgerEngine';
+
+export const todayISO = () => new Date().toISOString().split('T')[0];
+
+// The user's calendar date, which runs ahead of or behind UTC near midnight
+export const localDateISO = (date = new Date()) => date.toLocaleDateString('en-CA');
+
+/**
+ * Stores a set of prices as the close for the given day.
+ */
+export const recordPrices = (history: PriceHistory, prices: Record<string, number>, date = todayISO()): PriceHistory => {
+  const next = { ...history };
+  Object.entries(prices).forEach(([symbol, price]) => {
+    if (!(price > 0)) return;
+    next[symbol] = { ...(next[symbol] || {}), [date]: price };
+  });
+  return next;
+};
+
+export const mergePriceHistory = (base: PriceHistory, incoming: PriceHistory): PriceHistory =>
+  Object.entries(incoming).reduce((acc, [symbol, closes]) => ({ ...acc, [symbol]: { ...(acc[symbol] || {}), ...closes } }), { ...base });
+
+/**
+ * Reads daily closes from a CSV with date, symbol and close (or price)
+ * columns. Single-symbol files without a symbol column need fallbackSymbol.
+ */
+export const parsePriceHistoryCsv = (text: string, fallbackSymbol?: string): PriceHistory => {
+  const { headers, rows } = parseCsvTable(text);
+  const lower = headers.map(h => h.toLowerCase().trim());
+  const dateIdx = lower.findIndex(h => h === 'date');
+  const symbolIdx = lower.findIndex(h => h === 'symbol' || h === 'ticker');
+  const closeIdx = ['adj close', 'close', 'price'].map(name => lower.indexOf(name)).find(i => i >= 0) ?? -1;
+
+  if (dateIdx < 0 || closeIdx < 0) throw new Error('CSV needs "date" and "close" columns.');
+  if (symbolIdx < 0 && !fallbackSymbol) throw new Error('CSV has no "symbol" column; enter the symbol it belongs to.');
+
+  const history: PriceHistory = {};
+  rows.forEach(row => {
+    const date = parseCsvDate(row[dateIdx], 'YMD');
+    const close = parseFloat((row[closeIdx] || '').replace(/[^0-9.]/g, ''));
+    const symbol = normalizeSymbol(symbolIdx >= 0 ? row[symbolIdx] : fallbackSymbol);
+    if (!date || isNaN(close) || close <= 0) return;
+    if (!history[symbol]) history[symbol] = {};
+    history[symbol][date] = close;
+  });
+  return history;
+};
+
+/**
+ * Walks forward through a symbol's sorted closes, returning the last close on
+ * or before each requested date. Dates must be requested in ascending order.
+ */
+export const createCloseCursor = (closes: Record<string, number> | undefined) => {
+  const dates = Object.keys(closes || {}).sort();
+  let index = -1;
+  return (date: string): number | null => {
+    while (index + 1 < dates.length && dates[index + 1] <= date) index++;
+    return index >= 0 ? closes![dates[index]] : null;
+  };
+};
+
+/**
+ * Keeps the fallback price of a holding consistent across splits, renames and mergers.
+ */
+export const carryTradePrice = (lastTradePrice: Record<string, number>, t: Transaction) => {
+  const symbol = normalizeSymbol(t.symbol);
+  const ratio = Number(t.ratio);
+  if (lastTradePrice[symbol] === undefined) return;
+  if (t.type === 'SPLIT' && ratio > 0) lastTradePrice[symbol] /= ratio;
+  if ((t.type === 'SYMBOL_CHANGE' || t.type === 'MERGER') && t.newSymbol) {
+    const successor = normalizeSymbol(t.newSymbol);
+    const carried = t.type === 'MERGER' ? (ratio > 0 ? lastTradePrice[symbol] / ratio : 0) : lastTradePrice[symbol];
+    if (lastTradePrice[successor] === undefined) lastTradePrice[successor] = carried;
+  }
+};
+
+/**
+ * Value, cost basis and net invested for one currency on every date that has
+ * a trade or a stored close, plus any extra dates asked for. Holdings without
+ * a close yet are valued at their last trade price.
+ */
+export const buildValueSeries = (transactions: Transaction[], history: PriceHistory, currency: string, extraDates: string[] = []): ValuePoint[] => {
+  const txs = transactions
+    .filter(t => normalizeCurrency(t.currency) === currency && t.date && !isCashEntry(t))
+    .sort(compareByDate);
+  if (txs.length === 0) return [];
+
+  const symbols = Array.from(new Set(txs.flatMap(t => t.newSymbol ? [normalizeSymbol(t.symbol), normalizeSymbol(t.newSymbol)] : [normalizeSymbol(t.symbol)])));
+  const firstDate = txs[0].date;
+  const dateSet = new Set(txs.map(t => t.date));
+  symbols.forEach(s => Object.keys(history[s] || {}).forEach(d => { if (d >= firstDate) dateSet.add(d); }));
+  extraDates.forEach(d => { if (d >= firstDate) dateSet.add(d); });
+  const dates = Array.from(dateSet).sort();
+
+  const positions: PositionBook = {};
+  const lastTradePrice: Record<string, number> = {};
+  const cursors = symbols.reduce((acc, s) => ({ ...acc, [s]: createCloseCursor(history[s]) }), {} as Record<string, (date: string) => number | null>);
+
+  let netInvested = 0;
+  let txIndex = 0;
+
+  return dates.map(date => {
+    while (txIndex < txs.length && txs[txIndex].date <= date) {
+      const t = txs[txIndex++];
+      const symbol = normalizeSymbol(t.symbol);
+      const amount = Number(t.shares) * Number(t.price);
+      if (t.type === 'MERGER') netInvested -= (positions[symbol]?.shares || 0) * Number(t.price);
+      applyToBook(positions, t);
+      carryTradePrice(lastTradePrice, t);
+      // Income price fields hold the payment per share, not a share price
+      if (t.type === 'BUY' || t.type === 'SELL' || t.type === 'DRIP') lastTradePrice[symbol] = Number(t.price);
+      if (t.type === 'BUY') netInvested += amount + transactionFees(t);
+      if (t.type === 'SELL') netInvested -= amount - transactionFees(t);
+      if (t.type === 'ROC') netInvested -= amount;
+    }
+
+    let value = 0, costBasis = 0;
+    Object.entries(positions).forEach(([symbol, position]) => {
+      if (position.shares <= 0) return;
+      const close = cursors[symbol](date) ?? lastTradePrice[symbol];
+      value += position.shares * close;
+      costBasis += position.cost;
+    });
+
+    return { date, value, costBasis, netInvested };
+  });
+};
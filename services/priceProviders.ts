@@ -0,0 +1,205 @@
+import { PriceProviderId, PriceProviderSettings, PriceHistory } from '../types';
+import { fetchCurrentPrices } from './geminiService';
+import { parseCsvTable } from './csvImport';
+import { normalizeSymbol } from './ledgerEngine';
+
+const SETTINGS_KEY = 'tradetrack_price_provider';
+
+export interface PriceQuoteResult {
+  prices: Record<string, number>;
+  sources: any[]; // Grounding chunks, only populated by the Gemini provider
+}
+
+export interface PriceProvider {
+  id: PriceProviderId;
+  name: string;
+  fetchPrices: (symbols: string[]) => Promise<PriceQuoteResult>;
+  // Daily closes between two YYYY-MM-DD dates, for providers that have history
+  fetchHistory?: (symbols: string[], from: string, to: string) => Promise<PriceHistory>;
+}
+
+export const PRICE_PROVIDER_LABELS: Record<PriceProviderId, string> = {
+  gemini: 'Gemini + Google Search',
+  mock: 'Offline (Mock Prices)',
+  file: 'Local Price File',
+  http: 'HTTP Quote Endpoint',
+};
+
+export const DEFAULT_PRICE_SETTINGS: PriceProviderSettings = { providerId: 'gemini' };
+
+const toPrice = (value: unknown): number | null => {
+  const price = typeof value === 'string' ? parseFloat(value.replace(/[^0-9.]/g, '')) : value;
+  return typeof price === 'number' && !isNaN(price) && price > 0 ? price : null;
+};
+
+/**
+ * Accepts the common quote payload shapes: a {SYMBOL: price} map, the same map
+ * under a "prices" key, or a list of {symbol, price} objects.
+ */
+export const normalizePricePayload = (payload: any): Record<string, number> => {
+  const prices: Record<string, number> = {};
+  if (!payload || typeof payload !== 'object') return prices;
+
+  const body = payload.prices && typeof payload.prices === 'object' ? payload.prices : payload;
+  if (Array.isArray(body)) {
+    body.forEach(row => {
+      const price = toPrice(row?.price ?? row?.close ?? row?.last);
+      if (row?.symbol && price !== null) prices[normalizeSymbol(row.symbol)] = price;
+    });
+  } else {
+    Object.entries(body).forEach(([symbol, value]) => {
+      const price = toPrice(value);
+      if (price !== null) prices[normalizeSymbol(symbol)] = price;
+    });
+  }
+  return prices;
+};
+
+/**
+ * Reads a price file: JSON in any shape normalizePricePayload accepts, or a
+ * CSV with symbol and price (or close) columns.
+ */
+export const parsePriceFile = (text: string, fileName: string): Record<string, number> => {
+  if (fileName.toLowerCase().endsWith('.csv')) {
+    const { headers, rows } = parseCsvTable(text);
+    const lower = headers.map(h => h.toLowerCase());
+    const symbolIdx = lower.findIndex(h => h === 'symbol' || h === 'ticker');
+    const priceIdx = lower.findIndex(h => h === 'price' || h === 'close' || h === 'last');
+    if (symbolIdx < 0 || priceIdx < 0) throw new Error('CSV needs "symbol" and "price" columns.');
+    return normalizePricePayload(rows.map(r => ({ symbol: r[symbolIdx], price: r[priceIdx] })));
+  }
+  try {
+    return normalizePricePayload(JSON.parse(text));
+  } catch (e) {
+    throw new Error('Price file is not valid JSON.');
+  }
+};
+
+const pick = (prices: Record<string, number>, symbols: string[]) =>
+  symbols.reduce((acc, s) => (prices[s] !== undefined ? { ...acc, [s]: prices[s] } : acc), {} as Record<string, number>);
+
+export const geminiPriceProvider: PriceProvider = {
+  id: 'gemini',
+  name: PRICE_PROVIDER_LABELS.gemini,
+  fetchPrices: fetchCurrentPrices,
+};
+
+/**
+ * Stable pseudo-prices derived from the ticker, for offline use and tests.
+ */
+export const mockPriceFor = (symbol: string) => {
+  // Currency pairs stay near a plausible USD/CAD rate
+  if (normalizeSymbol(symbol).endsWith('=X')) return 1.36;
+  let hash = 0;
+  for (const char of normalizeSymbol(symbol)) hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  return Math.round((5 + (hash % 49500) / 100) * 100) / 100;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Smooth deterministic walk around the symbol's mock price, so the value
+ * chart has something to draw offline.
+ */
+export const mockCloseFor = (symbol: string, date: string) => {
+  const base = mockPriceFor(symbol);
+  const day = Math.floor(new Date(date).getTime() / DAY_MS);
+  const phase = base % 7;
+  return Math.round(base * (1 + 0.15 * Math.sin(day / 45 + phase) + 0.05 * Math.sin(day / 7 + phase)) * 100) / 100;
+};
+
+export const mockPriceProvider: PriceProvider = {
+  id: 'mock',
+  name: PRICE_PROVIDER_LABELS.mock,
+  fetchPrices: async (symbols) => ({
+    prices: symbols.reduce((acc, s) => ({ ...acc, [s]: mockPriceFor(s) }), {} as Record<string, number>),
+    sources: [],
+  }),
+  fetchHistory: async (symbols, from, to) => {
+    const history: PriceHistory = {};
+    symbols.forEach(symbol => {
+      history[symbol] = {};
+      for (let time = new Date(from).getTime(); time <= new Date(to).getTime(); time += DAY_MS) {
+        const date = new Date(time).toISOString().split('T')[0];
+        history[symbol][date] = mockCloseFor(symbol, date);
+      }
+    });
+    return history;
+  },
+};
+
+export const createFilePriceProvider = (filePrices: Record<string, number>): PriceProvider => ({
+  id: 'file',
+  name: PRICE_PROVIDER_LABELS.file,
+  fetchPrices: async (symbols) => ({ prices: pick(filePrices, symbols), sources: [] }),
+});
+
+/**
+ * Accepts a list of {date, close} rows or a {date: close} map.
+ */
+const normalizeHistoryPayload = (payload: any): Record<string, number> => {
+  const closes: Record<string, number> = {};
+  const body = payload?.history ?? payload?.closes ?? payload;
+  if (Array.isArray(body)) {
+    body.forEach(row => {
+      const close = toPrice(row?.close ?? row?.price);
+      if (row?.date && close !== null) closes[String(row.date).split('T')[0]] = close;
+    });
+  } else if (body && typeof body === 'object') {
+    Object.entries(body).forEach(([date, value]) => {
+      const close = toPrice(value);
+      if (close !== null) closes[date.split('T')[0]] = close;
+    });
+  }
+  return closes;
+};
+
+export const createHttpPriceProvider = (endpoint: string, historyEndpoint?: string): PriceProvider => ({
+  id: 'http',
+  name: PRICE_PROVIDER_LABELS.http,
+  fetchPrices: async (symbols) => {
+    if (!endpoint) throw new Error('No quote endpoint configured');
+    const list = encodeURIComponent(symbols.join(','));
+    const url = endpoint.includes('{symbols}')
+      ? endpoint.replace('{symbols}', list)
+      : `${endpoint}${endpoint.includes('?') ? '&' : '?'}symbols=${list}`;
+
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`Quote endpoint returned ${response.status}`);
+    return { prices: pick(normalizePricePayload(await response.json()), symbols), sources: [] };
+  },
+  fetchHistory: historyEndpoint ? async (symbols, from, to) => {
+    const history: PriceHistory = {};
+    for (const symbol of symbols) {
+      const url = historyEndpoint
+        .replace('{symbol}', encodeURIComponent(symbol))
+        .replace('{from}', from)
+        .replace('{to}', to);
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`History endpoint returned ${response.status}`);
+      history[symbol] = normalizeHistoryPayload(await response.json());
+    }
+    return history;
+  } : undefined,
+});
+
+export const createPriceProvider = (settings: PriceProviderSettings): PriceProvider => {
+  switch (settings.providerId) {
+    case 'mock': return mockPriceProvider;
+    case 'file': return createFilePriceProvider(settings.filePrices || {});
+    case 'http': return createHttpPriceProvider(settings.httpEndpoint || '', settings.httpHistoryEndpoint);
+    default: return geminiPriceProvider;
+  }
+};
+
+export const loadPriceSettings = (): PriceProviderSettings => {
+  try {
+    return { ...DEFAULT_PRICE_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}') };
+  } catch (e) {
+    return DEFAULT_PRICE_SETTINGS;
+  }
+};
+
+export const savePriceSettings = (settings: PriceProviderSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,213 @@
+import { AllocationDrift, AllocationModel, AllocationTarget, BaseCurrency, ProposedOrder, RebalanceOptions, StockSummary, Transaction } from '../types';
+import { applyToBook, compareByDate, guessQuoteCurrency, isCorporateAction, normalizeSymbol, PositionBook, SHARE_EPSILON } from './ledgerEngine';
+import { convertAmount } from './fxRates';
+import { todayISO } from './priceHistory';
+
+/**
+ * Target allocation and a rebalancing calculator. Everything is measured in
+ * the base currency; orders are priced in each symbol's own currency.
+ */
+
+export const UNCLASSIFIED = 'Unclassified';
+
+export const emptyAllocationModel = (): AllocationModel => ({ mode: 'symbol', targets: [], assetClasses: {} });
+
+export const DEFAULT_REBALANCE_OPTIONS: RebalanceOptions = {
+  newCash: 0,
+  allowSells: true,
+  minTradeSize: 100,
+  wholeShares: true,
+  defaultAccount: '',
+};
+
+export const targetKeyFor = (symbol: string, model: AllocationModel) =>
+  model.mode === 'symbol' ? normalizeSymbol(symbol) : (model.assetClasses[normalizeSymbol(symbol)] || UNCLASSIFIED);
+
+/**
+ * Symbols the model may trade, so their prices get fetched even before they are held.
+ */
+export const modelSymbols = (model: AllocationModel): string[] =>
+  model.targets.flatMap(t => model.mode === 'symbol' ? [normalizeSymbol(t.key)] : t.buySymbol ? [normalizeSymbol(t.buySymbol)] : []);
+
+interface HeldValue {
+  symbol: string;
+  currency: string;
+  price: number;
+  value: number; // Base currency
+  key: string;
+  sharesByAccount: Record<string, number>;
+}
+
+/**
+ * Shares of a holding in each account, with corporate actions applied to every account.
+ */
+const sharesByAccount = (stock: StockSummary): Record<string, number> => {
+  const books: Record<string, PositionBook> = {};
+  [...stock.transactions].sort(compareByDate).forEach(t => {
+    if (isCorporateAction(t.type)) {
+      Object.values(books).forEach(book => applyToBook(book, t));
+      return;
+    }
+    const account = (t.account || '').trim();
+    applyToBook(books[account] || (books[account] = {}), t);
+  });
+  return Object.entries(books).reduce((acc, [account, book]) => {
+    const shares = book[normalizeSymbol(stock.symbol)]?.shares || 0;
+    return shares > SHARE_EPSILON ? { ...acc, [account]: shares } : acc;
+  }, {} as Record<string, number>);
+};
+
+const heldValues = (portfolio: StockSummary[], model: AllocationModel, base: BaseCurrency, usdCad: number | null): HeldValue[] =>
+  portfolio
+    .filter(s => !s.isCash && s.totalShares > SHARE_EPSILON && s.currentPrice)
+    .map(s => ({
+      symbol: normalizeSymbol(s.symbol),
+      currency: s.currency,
+      price: s.currentPrice as number,
+      value: convertAmount(s.totalShares * (s.currentPrice as number), s.currency, base, usdCad) ?? NaN,
+      key: targetKeyFor(s.symbol, model),
+      sharesByAccount: sharesByAccount(s),
+    }))
+    .filter(h => !isNaN(h.value));
+
+/**
+ * Current against target weight for every target and every held key.
+ * Target weights are scaled to add up to 100%.
+ */
+export const computeDrift = (
+  portfolio: StockSummary[],
+  model: AllocationModel,
+  base: BaseCurrency,
+  usdCad: number | null,
+  newCash = 0
+): AllocationDrift[] => {
+  const held = heldValues(portfolio, model, base, usdCad);
+  const invested = held.reduce((sum, h) => sum + h.value, 0);
+  const total = invested + Math.max(0, newCash);
+  const weightSum = model.targets.reduce((sum, t) => sum + (t.weight > 0 ? t.weight : 0), 0);
+
+  const keys = Array.from(new Set([...model.targets.map(t => t.key), ...held.map(h => h.key)]));
+  return keys.map(key => {
+    const target = model.targets.find(t => t.key === key);
+    const currentValue = held.filter(h => h.key === key).reduce((sum, h) => sum + h.value, 0);
+    const targetWeight = target && weightSum > 0 && target.weight > 0 ? (target.weight / weightSum) * 100 : 0;
+    const currentWeight = invested > 0 ? (currentValue / invested) * 100 : 0;
+    return {
+      key,
+      currentValue,
+      currentWeight,
+      targetWeight,
+      targetValue: (total * targetWeight) / 100,
+      drift: currentWeight - targetWeight,
+    };
+  }).sort((a, b) => b.targetWeight - a.targetWeight || b.currentValue - a.currentValue);
+};
+
+/**
+ * Orders that bring the portfolio back to target. Without sells, new cash
+ * goes to the most underweight keys in proportion to how far below target
+ * they are. Trades smaller than the minimum are skipped.
+ */
+export const proposeRebalance = (
+  portfolio: StockSummary[],
+  model: AllocationModel,
+  options: RebalanceOptions,
+  currentPrices: Record<string, number>,
+  base: BaseCurrency,
+  usdCad: number | null
+): { orders: ProposedOrder[]; drift: AllocationDrift[]; unallocatedCash: number; warnings: string[] } => {
+  const drift = computeDrift(portfolio, model, base, usdCad, options.newCash);
+  const held = heldValues(portfolio, model, base, usdCad);
+  const warnings: string[] = [];
+  const orders: ProposedOrder[] = [];
+
+  const weightSum = model.targets.reduce((sum, t) => sum + (t.weight > 0 ? t.weight : 0), 0);
+  if (model.targets.length > 0 && Math.abs(weightSum - 100) > 0.01) {
+    warnings.push(`Targets add up to ${weightSum.toFixed(2)}%, so they were scaled to 100%.`);
+  }
+
+  let amounts = drift.map(d => ({ key: d.key, amount: d.targetValue - d.currentValue }));
+  if (!options.allowSells) {
+    const deficit = amounts.reduce((sum, a) => sum + Math.max(0, a.amount), 0);
+    const scale = deficit > 0 ? Math.min(1, Math.max(0, options.newCash) / deficit) : 0;
+    amounts = amounts.map(a => ({ key: a.key, amount: Math.max(0, a.amount) * scale }));
+  }
+
+  const addOrder = (type: ProposedOrder['type'], symbol: string, currency: string, price: number, baseAmount: number, account: string, targetKey: string) => {
+    const nativeAmount = convertAmount(baseAmount, base, currency as BaseCurrency, usdCad);
+    if (nativeAmount === null) {
+      warnings.push(`No USD/CAD rate to size the ${symbol} order.`);
+      return 0;
+    }
+    const rawShares = nativeAmount / price;
+    const shares = options.wholeShares ? Math.floor(rawShares + SHARE_EPSILON) : Math.round(rawShares * 10000) / 10000;
+    if (shares <= 0) return 0;
+    const amount = convertAmount(shares * price, currency, base, usdCad) ?? 0;
+    orders.push({ type, symbol, shares, price, currency, amount, account, targetKey });
+    return amount;
+  };
+
+  amounts.forEach(({ key, amount }) => {
+    if (Math.abs(amount) < Math.max(options.minTradeSize, 0.01)) return;
+    const target: AllocationTarget | undefined = model.targets.find(t => t.key === key);
+    const members = held.filter(h => h.key === key).sort((a, b) => b.value - a.value);
+
+    if (amount > 0) {
+      const symbol = normalizeSymbol(model.mode === 'symbol' ? key : target?.buySymbol || members[0]?.symbol || '');
+      if (!symbol || symbol === 'UNKNOWN') {
+        warnings.push(`Choose a fund to buy for ${key}.`);
+        return;
+      }
+      const holding = held.find(h => h.symbol === symbol);
+      const price = holding?.price ?? currentPrices[symbol];
+      if (!price) {
+        warnings.push(`No price for ${symbol}. Refresh prices before rebalancing.`);
+        return;
+      }
+      const account = target?.account || options.defaultAccount || Object.keys(holding?.sharesByAccount || {})[0] || '';
+      addOrder('BUY', symbol, holding?.currency || guessQuoteCurrency(symbol), price, amount, account, key);
+      return;
+    }
+
+    // Sell from the largest holdings first, and within each from the account holding the most
+    let remaining = -amount;
+    for (const member of members) {
+      for (const [account, shares] of Object.entries(member.sharesByAccount).sort((a, b) => b[1] - a[1])) {
+        if (remaining < Math.max(options.minTradeSize, 0.01)) break;
+        const available = convertAmount(shares * member.price, member.currency, base, usdCad) ?? 0;
+        remaining -= addOrder('SELL', member.symbol, member.currency, member.price, Math.min(remaining, available), account, key);
+      }
+    }
+  });
+
+  const spent = orders.reduce((sum, o) => sum + (o.type === 'BUY' ? o.amount : -o.amount), 0);
+  return {
+    orders: orders.sort((a, b) => (a.type === b.type ? b.amount - a.amount : a.type === 'SELL' ? -1 : 1)),
+    drift,
+    unallocatedCash: options.newCash - spent,
+    warnings,
+  };
+};
+
+/**
+ * Orders as CSV, in the column layout the CSV importer recognises.
+ */
+export const ordersToCsv = (orders: ProposedOrder[], date = todayISO()): string => {
+  const rows = orders.map(o => [date, o.type, o.symbol, o.shares, o.price, o.account, o.currency].join(','));
+  return ['date,type,symbol,shares,price,account,currency', ...rows].join('\n');
+};
+
+/**
+ * An order as a transaction to record once it has been filled.
+ */
+export const orderToTransaction = (order: ProposedOrder, date = todayISO()): Omit<Transaction, 'id'> => ({
+  date,
+  type: order.type,
+  symbol: order.symbol,
+  name: order.symbol,
+  shares: order.shares,
+  price: order.price,
+  account: order.account,
+  exchange: '',
+  currency: order.currency,
+});
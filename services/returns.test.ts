@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { Transaction } from '../types';
+import { computeReturns, periodStartDate, xirr } from './returns';
+
+let nextId = 0;
+const tx = (fields: Partial<Transaction>): Transaction => ({
+  id: `t${++nextId}`,
+  date: '2024-01-02',
+  type: 'BUY',
+  account: 'Margin',
+  exchange: 'NASDAQ',
+  symbol: 'AAPL',
+  name: 'Apple',
+  shares: 0,
+  price: 0,
+  currency: 'USD',
+  ...fields,
+});
+
+describe('xirr', () => {
+  it('finds the annual rate of a single year', () => {
+    expect(xirr([{ date: '2023-01-01', amount: -1000 }, { date: '2024-01-01', amount: 1100 }])).toBeCloseTo(0.1, 6);
+  });
+
+  it('solves irregular flows', () => {
+    const flows = [
+      { date: '2008-01-01', amount: -10000 },
+      { date: '2008-03-01', amount: 2750 },
+      { date: '2008-10-30', amount: 4250 },
+      { date: '2009-02-15', amount: 3250 },
+      { date: '2009-04-01', amount: 2750 },
+    ];
+    expect(xirr(flows)).toBeCloseTo(0.373363, 5);
+  });
+
+  it('gives no rate without both money in and money out', () => {
+    expect(xirr([{ date: '2023-01-01', amount: -1000 }, { date: '2024-01-01', amount: -500 }])).toBeNull();
+    expect(xirr([{ date: '2023-01-01', amount: 1000 }, { date: '2024-01-01', amount: 0 }])).toBeNull();
+  });
+
+  it('gives no rate when every flow is on one day', () => {
+    expect(xirr([{ date: '2023-01-01', amount: -1000 }, { date: '2023-01-01', amount: 1100 }])).toBeNull();
+  });
+});
+
+describe('periodStartDate', () => {
+  it('never starts before the first trade', () => {
+    expect(periodStartDate('YTD', '2024-03-10', '2024-06-01')).toBe('2024-03-10');
+    expect(periodStartDate('YTD', '2022-03-10', '2024-06-01')).toBe('2024-01-01');
+    expect(periodStartDate('1Y', '2023-09-01', '2024-06-01')).toBe('2023-09-01');
+    expect(periodStartDate('1Y', '2022-01-01', '2024-06-01')).toBe('2023-06-01');
+    expect(periodStartDate('ALL', '2022-01-01', '2024-06-01')).toBe('2022-01-01');
+  });
+
+  it('moves a leap day back to the end of February', () => {
+    expect(periodStartDate('1Y', '2010-01-01', '2024-02-29')).toBe('2023-02-28');
+    expect(periodStartDate('3Y', '2010-01-01', '2024-02-29')).toBe('2021-02-28');
+  });
+});
+
+describe('computeReturns', () => {
+  const history = { AAPL: { '2024-01-02': 100, '2024-06-03': 110 } };
+  const transactions = [
+    tx({ shares: 10, price: 100 }),
+    tx({ date: '2024-06-03', shares: 10, price: 110 }),
+  ];
+
+  it('leaves money added mid-period out of the time-weighted return', () => {
+    const result = computeReturns(transactions, history, { AAPL: 121 }, 'ALL', 'USD', {}, '2024-12-31')!;
+    // 10% before the second buy, then 10% on everything held
+    expect(result.twr).toBeCloseTo(0.21);
+    expect(result.netFlows).toBeCloseTo(2100);
+    expect(result.gain).toBeCloseTo(320);
+    expect(result.xirr).toBeGreaterThan(0);
+  });
+
+  it('starts a period no earlier than the first trade', () => {
+    const result = computeReturns(transactions, history, { AAPL: 121 }, '1Y', 'USD', {}, '2024-12-31')!;
+    expect(result.start).toBe('2024-01-02');
+    expect(result.startValue).toBe(0);
+  });
+
+  it('values holdings already owned at the start of the period', () => {
+    const result = computeReturns(transactions, history, { AAPL: 121 }, 'YTD', 'USD', {}, '2025-03-01')!;
+    expect(result.start).toBe('2025-01-01');
+    expect(result.startValue).toBeCloseTo(2200);
+    expect(result.twr).toBeCloseTo(0.1);
+  });
+});
@@ -0,0 +1,250 @@
+import { Account, BaseCurrency, FxRateHistory, PriceHistory, ReturnPeriod, ReturnResult, Transaction } from '../types';
+import {
+  applyToBook, buildSymbolSuccessors, compareByDate, groupTransactions, isCashEntry, isCorporateAction, isIncomeType,
+  normalizeCurrency, normalizeSymbol, resolveSymbol, transactionFees, PositionBook,
+} from './ledgerEngine';
+import { createCloseCursor, carryTradePrice, todayISO } from './priceHistory';
+import { convertAmount, fxRateOn } from './fxRates';
+import { filterByAccounts, listAccountNames } from './accounts';
+
+/**
+ * Time-weighted and money-weighted (XIRR) returns of invested holdings.
+ *
+ * Money moving into or out of securities is an external flow: buys, sells,
+ * cash income, return of capital and merger cash. Uninvested account cash is
+ * left out, so these are returns on what was actually invested. Holdings are
+ * valued at stored closes, falling back to the last trade price, and at
+ * current prices on the final day.
+ */
+
+export const RETURN_PERIODS: ReturnPeriod[] = ['YTD', '1Y', '3Y', 'ALL'];
+
+export const RETURN_PERIOD_LABELS: Record<ReturnPeriod, string> = {
+  YTD: 'YTD',
+  '1Y': '1 Year',
+  '3Y': '3 Years',
+  ALL: 'Since Inception',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const shiftDate = (date: string, days: number) =>
+  new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().split('T')[0];
+
+const daysBetween = (from: string, to: string) =>
+  (new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / DAY_MS;
+
+// The same day some years earlier; a leap day falls back to February 28
+const yearsBefore = (date: string, years: number) => {
+  const [year, month, day] = date.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year - years, month, 0)).getUTCDate();
+  return `${year - years}-${String(month).padStart(2, '0')}-${String(Math.min(day, lastDay)).padStart(2, '0')}`;
+};
+
+/**
+ * First day of a period, never earlier than the first transaction.
+ */
+export const periodStartDate = (period: ReturnPeriod, firstDate: string, today = todayISO()): string => {
+  const start = period === 'YTD' ? `${today.slice(0, 4)}-01-01`
+    : period === '1Y' ? yearsBefore(today, 1)
+    : period === '3Y' ? yearsBefore(today, 3)
+    : firstDate;
+  return start > firstDate ? start : firstDate;
+};
+
+/**
+ * Annualized rate at which the dated cash flows have a net present value of
+ * zero. Investments are negative, withdrawals and the final value positive.
+ */
+export const xirr = (flows: { date: string; amount: number }[]): number | null => {
+  const active = flows.filter(f => f.amount !== 0);
+  if (!active.some(f => f.amount > 0) || !active.some(f => f.amount < 0)) return null;
+  const first = active.reduce((min, f) => (f.date < min ? f.date : min), active[0].date);
+  const years = active.map(f => daysBetween(first, f.date) / 365);
+  if (Math.max(...years) <= 0) return null;
+
+  const npv = (rate: number) => active.reduce((sum, f, i) => sum + f.amount / Math.pow(1 + rate, years[i]), 0);
+
+  // Newton's method from 10%, then bisection if it wanders off
+  let rate = 0.1;
+  for (let i = 0; i < 50; i++) {
+    const value = npv(rate);
+    const slope = active.reduce((sum, f, j) => sum - years[j] * f.amount / Math.pow(1 + rate, years[j] + 1), 0);
+    if (!isFinite(value) || !isFinite(slope) || slope === 0) break;
+    const next = rate - value / slope;
+    if (next <= -1 || !isFinite(next)) break;
+    if (Math.abs(next - rate) < 1e-9) return next;
+    rate = next;
+  }
+
+  let low = -0.9999, high = 100;
+  if (npv(low) * npv(high) > 0) return null;
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    if (npv(low) * npv(mid) <= 0) high = mid;
+    else low = mid;
+  }
+  return (low + high) / 2;
+};
+
+/**
+ * Cash that moves into the holding (positive) or out to the investor (negative).
+ * Mergers need the shares held just before the action.
+ */
+export const externalFlow = (t: Transaction, heldBefore: number): number => {
+  const amount = Number(t.shares) * Number(t.price);
+  if (isNaN(amount)) return 0;
+  switch (t.type) {
+    case 'BUY':
+      return amount + transactionFees(t);
+    case 'SELL':
+      return -(amount - transactionFees(t));
+    case 'ROC':
+      return -amount;
+    case 'MERGER':
+      return -heldBefore * Number(t.price || 0);
+    default:
+      // A DRIP keeps its dividend invested, so no money leaves
+      return isIncomeType(t.type) && t.type !== 'DRIP' ? -amount : 0;
+  }
+};
+
+/**
+ * Returns of one set of transactions over a period, in the target currency.
+ */
+export const computeReturns = (
+  transactions: Transaction[],
+  history: PriceHistory,
+  currentPrices: Record<string, number>,
+  period: ReturnPeriod,
+  currency: BaseCurrency,
+  fxRates: FxRateHistory = {},
+  today = todayISO()
+): ReturnResult | null => {
+  const txs = transactions
+    .filter(t => !isCashEntry(t) && t.date && !isNaN(new Date(t.date).getTime()) && t.date <= today)
+    .sort(compareByDate);
+  if (txs.length === 0) return null;
+
+  const start = periodStartDate(period, txs[0].date, today);
+  const books: Record<string, PositionBook> = {};
+  const lastTradePrice: Record<string, Record<string, number>> = {};
+  const cursors: Record<string, (date: string) => number | null> = {};
+  let missingFx = false;
+
+  const convert = (amount: number, from: string, date: string) => {
+    if (amount === 0) return 0;
+    const converted = convertAmount(amount, from, currency, fxRateOn(fxRates, date));
+    if (converted === null) missingFx = true;
+    return converted ?? 0;
+  };
+
+  const apply = (t: Transaction) => {
+    const cur = normalizeCurrency(t.currency);
+    const book = books[cur] || (books[cur] = {});
+    const prices = lastTradePrice[cur] || (lastTradePrice[cur] = {});
+    const symbol = normalizeSymbol(t.symbol);
+    const flow = externalFlow(t, book[symbol]?.shares || 0);
+    applyToBook(book, t);
+    carryTradePrice(prices, t);
+    if (t.type === 'BUY' || t.type === 'SELL' || t.type === 'DRIP') prices[symbol] = Number(t.price);
+    return convert(flow, cur, t.date);
+  };
+
+  // Dates must be valued in ascending order for the close cursors
+  const valueAt = (date: string, useCurrentPrices = false) =>
+    Object.entries(books).reduce((total, [cur, book]) => {
+      const native = Object.entries(book).reduce((sum, [symbol, position]) => {
+        if (position.shares <= 0) return sum;
+        const cursor = cursors[symbol] || (cursors[symbol] = createCloseCursor(history[symbol]));
+        const close = cursor(date);
+        const price = (useCurrentPrices ? currentPrices[symbol] : undefined) ?? close ?? lastTradePrice[cur]?.[symbol] ?? 0;
+        return sum + position.shares * price;
+      }, 0);
+      return total + convert(native, cur, date);
+    }, 0);
+
+  let index = 0;
+  while (index < txs.length && txs[index].date < start) apply(txs[index++]);
+
+  const startValue = index > 0 ? valueAt(shiftDate(start, -1)) : 0;
+  const cashFlows: { date: string; amount: number }[] = startValue > 0 ? [{ date: start, amount: -startValue }] : [];
+  let previousValue = startValue;
+  let growth = 1;
+  let netFlows = 0;
+
+  // Flows are assumed to happen at the close, so each day's return excludes them
+  while (index < txs.length) {
+    const date = txs[index].date;
+    let flow = 0;
+    while (index < txs.length && txs[index].date === date) flow += apply(txs[index++]);
+    const value = valueAt(date);
+    if (previousValue > 0) growth *= (value - flow) / previousValue;
+    else if (flow > 0) growth *= value / flow;
+    netFlows += flow;
+    cashFlows.push({ date, amount: -flow });
+    previousValue = value;
+  }
+
+  const endValue = valueAt(today, true);
+  if (previousValue > 0) growth *= endValue / previousValue;
+  cashFlows.push({ date: today, amount: endValue });
+
+  const days = daysBetween(start, today);
+  const hasReturn = growth > 0 && isFinite(growth) && (startValue > 0 || netFlows !== 0 || endValue > 0);
+
+  return {
+    start,
+    end: today,
+    startValue,
+    endValue,
+    netFlows,
+    gain: endValue - startValue - netFlows,
+    twr: hasReturn ? growth - 1 : null,
+    twrAnnualized: hasReturn && days >= 365 ? Math.pow(growth, 365 / days) - 1 : null,
+    xirr: xirr(cashFlows),
+    missingFx,
+  };
+};
+
+export interface ReturnsReport {
+  portfolio: ReturnResult | null;
+  accounts: { name: string; result: ReturnResult | null }[];
+  holdings: { symbol: string; currency: string; name: string; result: ReturnResult | null }[];
+}
+
+/**
+ * Returns for the whole set of transactions, each account in base currency,
+ * and each holding in its own currency.
+ */
+export const buildReturnsReport = (
+  transactions: Transaction[],
+  history: PriceHistory,
+  currentPrices: Record<string, number>,
+  period: ReturnPeriod,
+  accounts: Account[],
+  baseCurrency: BaseCurrency,
+  fxRates: FxRateHistory
+): ReturnsReport => {
+  const successors = buildSymbolSuccessors(transactions);
+  const holdings = Object.values(groupTransactions(transactions.filter(t => !isCashEntry(t))))
+    .map(txs => {
+      const symbol = resolveSymbol(normalizeSymbol(txs[0].symbol), successors);
+      const currency = normalizeCurrency(txs[0].currency) as BaseCurrency;
+      return {
+        symbol,
+        currency,
+        name: [...txs].reverse().find(t => !isCorporateAction(t.type))?.name || symbol,
+        result: computeReturns(txs, history, currentPrices, period, currency, fxRates),
+      };
+    })
+    .sort((a, b) => a.symbol.localeCompare(b.symbol));
+
+  return {
+    portfolio: computeReturns(transactions, history, currentPrices, period, baseCurrency, fxRates),
+    accounts: listAccountNames(transactions, accounts)
+      .map(name => ({ name, result: computeReturns(filterByAccounts(transactions, [name]), history, currentPrices, period, baseCurrency, fxRates) }))
+      .filter(a => a.result !== null),
+    holdings,
+  };
+};
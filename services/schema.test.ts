@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { Transaction } from '../types';
+import { BACKUP_FORMAT, MIGRATIONS, SCHEMA_VERSION, migrateSnapshot, unwrapBackup, wrapBackup } from './schema';
+import { parseBackup } from './backupService';
+import { createMemoryRepository, upgradeStoredData } from './storage';
+
+// One row as each schema version wrote it
+const V0_ROW = { id: 'a1', date: '2021-03-01', type: 'BUY', account: 'TFSA ', exchange: ' nasdaq', symbol: 'aapl ', name: 'Apple', shares: '10', price: '121.50', currency: '', fee: 0, fxFee: '1.25' };
+const V1_ROW = { id: 'a1', date: '2021-03-01', type: 'BUY', account: 'TFSA ', exchange: ' nasdaq', symbol: 'AAPL', name: 'Apple', shares: 10, price: 121.5, currency: 'USD', fee: 0, fxFee: '1.25' };
+const V2_ROW = { id: 'a1', date: '2021-03-01', type: 'BUY', account: 'TFSA', exchange: 'NASDAQ', symbol: 'AAPL', name: 'Apple', shares: 10, price: 121.5, currency: 'USD', fxFee: 1.25 };
+
+const snapshot = (row: object) => ({ transactions: [row], settings: {} });
+const migration = (version: number) => MIGRATIONS.find(m => m.version === version)!;
+
+describe('migrations', () => {
+  it('has one migration per version up to the current one', () => {
+    expect(MIGRATIONS.map(m => m.version).sort((a, b) => a - b)).toEqual(Array.from({ length: SCHEMA_VERSION }, (_, i) => i + 1));
+  });
+
+  it('version 1 turns text numbers into numbers and upper-cases symbol and currency', () => {
+    expect(migration(1).migrate(snapshot(V0_ROW))).toEqual(snapshot(V1_ROW));
+  });
+
+  it('version 2 trims account and exchange and drops zero fees', () => {
+    expect(migration(2).migrate(snapshot(V1_ROW))).toEqual(snapshot(V2_ROW));
+  });
+
+  it('runs the whole chain from unversioned data', () => {
+    expect(migrateSnapshot(snapshot(V0_ROW), 0)).toEqual(snapshot(V2_ROW));
+    expect(migrateSnapshot(snapshot(V1_ROW), 1)).toEqual(snapshot(V2_ROW));
+    expect(migrateSnapshot(snapshot(V2_ROW), SCHEMA_VERSION)).toEqual(snapshot(V2_ROW));
+  });
+
+  it('leaves rows that are not objects for validation to reject', () => {
+    expect(migrateSnapshot({ transactions: ['junk', null], settings: {} }, 0).transactions).toEqual(['junk', null]);
+  });
+
+  it('refuses data from a newer version', () => {
+    expect(() => migrateSnapshot(snapshot(V2_ROW), SCHEMA_VERSION + 1)).toThrow(/newer version/);
+  });
+});
+
+describe('backups', () => {
+  it('reads a bare array as an unversioned backup', () => {
+    expect(unwrapBackup([V0_ROW])).toEqual({ transactions: [V2_ROW], schemaVersion: 0 });
+  });
+
+  it('upgrades an enveloped backup from the version it records', () => {
+    const envelope = { format: BACKUP_FORMAT, schemaVersion: 1, exportedAt: '2024-01-01T00:00:00.000Z', data: { transactions: [V1_ROW] } };
+    expect(unwrapBackup(envelope)).toEqual({ transactions: [V2_ROW], schemaVersion: 1 });
+  });
+
+  it('rejects files that are not backups', () => {
+    expect(() => unwrapBackup({ transactions: [] })).toThrow(/list of transactions/);
+    expect(() => unwrapBackup(null)).toThrow(/list of transactions/);
+    expect(() => unwrapBackup({ format: BACKUP_FORMAT, schemaVersion: SCHEMA_VERSION + 1, data: { transactions: [] } })).toThrow(/newer version/);
+  });
+
+  it('restores what it exported', () => {
+    const envelope = wrapBackup([V2_ROW], '2024-01-01T00:00:00.000Z');
+    expect(envelope.schemaVersion).toBe(SCHEMA_VERSION);
+    const parsed = parseBackup(JSON.stringify(envelope));
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.transactions).toEqual([V2_ROW]);
+  });
+
+  it('restores an old bare-array backup through the migrations', () => {
+    const parsed = parseBackup(JSON.stringify([V0_ROW]));
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.transactions).toEqual([V2_ROW]);
+  });
+});
+
+describe('upgradeStoredData', () => {
+  it('upgrades saved data on load and records the version', async () => {
+    const repository = createMemoryRepository({ transactions: [V0_ROW as unknown as Transaction] });
+    await upgradeStoredData(repository);
+    expect(await repository.loadTransactions()).toEqual([V2_ROW]);
+    expect(await repository.loadSetting('schemaVersion')).toBe(SCHEMA_VERSION);
+  });
+
+  it('leaves current data alone', async () => {
+    const row = { ...V2_ROW, exchange: ' left as is' } as unknown as Transaction;
+    const repository = createMemoryRepository({ transactions: [row], settings: { schemaVersion: SCHEMA_VERSION } });
+    await upgradeStoredData(repository);
+    expect(await repository.loadTransactions()).toEqual([row]);
+  });
+});
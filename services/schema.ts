@@ -0,0 +1,109 @@
+/**
+ * Versioning for everything TradeTrack saves or exports. Stored data records
+ * the schema version it was written with, and backups carry it in their
+ * envelope. Older data is upgraded by running each migration after its
+ * version in turn.
+ *
+ * Migrations are frozen once released: they work on plain JSON and must not
+ * call into the ledger code, which keeps changing.
+ */
+
+export const SCHEMA_VERSION = 2;
+
+export const BACKUP_FORMAT = 'tradetrack-backup';
+
+/** Everything a migration may need to rewrite. Old data has no known shape, so rows stay unknown until checked. */
+export interface SchemaSnapshot {
+  transactions: unknown[];
+  settings: Record<string, unknown>;
+}
+
+export interface SchemaMigration {
+  version: number; // The version this migration produces
+  description: string;
+  migrate: (snapshot: SchemaSnapshot) => SchemaSnapshot;
+}
+
+export interface BackupEnvelope {
+  format: typeof BACKUP_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  data: { transactions: unknown[] };
+}
+
+type Row = Record<string, unknown>;
+
+const isRow = (value: unknown): value is Row => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Rewrites the rows that are objects; anything else is left for validation to reject
+const mapRows = (snapshot: SchemaSnapshot, migrate: (row: Row) => Row): SchemaSnapshot => ({
+  ...snapshot,
+  transactions: snapshot.transactions.map(t => (isRow(t) ? migrate(t) : t)),
+});
+
+const toNumber = (value: unknown) => (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value)) ? Number(value) : value);
+
+export const MIGRATIONS: SchemaMigration[] = [
+  {
+    version: 1,
+    description: 'Unversioned data: numbers saved as text become numbers, symbols and currencies are upper case',
+    migrate: snapshot => mapRows(snapshot, t => ({
+      ...t,
+      symbol: typeof t.symbol === 'string' ? t.symbol.toUpperCase().trim() : t.symbol,
+      currency: typeof t.currency === 'string' && t.currency ? t.currency.toUpperCase().trim() : 'USD',
+      shares: toNumber(t.shares),
+      price: toNumber(t.price),
+    })),
+  },
+  {
+    version: 2,
+    description: 'Account and exchange names are trimmed, and zero fees are dropped',
+    migrate: snapshot => mapRows(snapshot, t => {
+      const { fee, fxFee, ...rest } = t;
+      return {
+        ...rest,
+        account: typeof t.account === 'string' ? t.account.trim() : t.account,
+        exchange: typeof t.exchange === 'string' ? t.exchange.toUpperCase().trim() : t.exchange,
+        ...(Number(fee) > 0 ? { fee: Number(fee) } : {}),
+        ...(Number(fxFee) > 0 ? { fxFee: Number(fxFee) } : {}),
+      };
+    }),
+  },
+];
+
+/**
+ * Upgrades a snapshot written with an older schema to the current one.
+ * Data from a newer version of the app cannot be read safely and throws.
+ */
+export const migrateSnapshot = (snapshot: SchemaSnapshot, fromVersion: number): SchemaSnapshot => {
+  if (fromVersion > SCHEMA_VERSION) {
+    throw new Error(`This data was saved by a newer version of TradeTrack (schema ${fromVersion}). Update the app to open it.`);
+  }
+  return MIGRATIONS
+    .filter(m => m.version > fromVersion)
+    .sort((a, b) => a.version - b.version)
+    .reduce((current, m) => m.migrate(current), snapshot);
+};
+
+export const wrapBackup = (transactions: unknown[], exportedAt = new Date().toISOString()): BackupEnvelope => ({
+  format: BACKUP_FORMAT,
+  schemaVersion: SCHEMA_VERSION,
+  exportedAt,
+  data: { transactions },
+});
+
+/**
+ * The transactions in a parsed backup file, upgraded to the current schema.
+ * Bare arrays are backups from before the envelope existed.
+ */
+export const unwrapBackup = (parsed: unknown): { transactions: unknown[]; schemaVersion: number } => {
+  if (Array.isArray(parsed)) {
+    return { transactions: migrateSnapshot({ transactions: parsed, settings: {} }, 0).transactions, schemaVersion: 0 };
+  }
+  const data = isRow(parsed) && isRow(parsed.data) ? parsed.data.transactions : undefined;
+  if (!isRow(parsed) || parsed.format !== BACKUP_FORMAT || !Array.isArray(data)) {
+    throw new Error('The file does not contain a list of transactions.');
+  }
+  const version = Number(parsed.schemaVersion) || 0;
+  return { transactions: migrateSnapshot({ transactions: data, settings: {} }, version).transactions, schemaVersion: version };
+};
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { Transaction } from '../types';
+import { createLocalStorageRepository, createMemoryRepository, diffTransactions, legacyKey, migrateFromLocalStorage } from './storage';
+
+const tx = (id: string, fields: Partial<Transaction> = {}): Transaction => ({
+  id,
+  date: '2024-01-01',
+  type: 'BUY',
+  account: 'TFSA',
+  exchange: 'NASDAQ',
+  symbol: 'AAPL',
+  name: 'Apple',
+  shares: 10,
+  price: 100,
+  currency: 'USD',
+  ...fields,
+});
+
+// In-memory stand-in for window.localStorage
+const fakeStorage = (entries: Record<string, string> = {}): Storage => {
+  const items = new Map(Object.entries(entries));
+  return {
+    get length() { return items.size; },
+    key: index => Array.from(items.keys())[index] ?? null,
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => { items.set(key, String(value)); },
+    removeItem: key => { items.delete(key); },
+    clear: () => items.clear(),
+  };
+};
+
+describe('diffTransactions', () => {
+  it('finds rows added, replaced and removed', () => {
+    const a = tx('a'), b = tx('b'), c = tx('c');
+    const edited = { ...b, shares: 20 };
+    const changes = diffTransactions([a, b, c], [a, edited, tx('d')]);
+    expect(changes.upserts.map(t => t.id)).toEqual(['b', 'd']);
+    expect(changes.deletes).toEqual(['c']);
+    expect(changes.orderChanged).toBe(true);
+  });
+
+  it('reports nothing for the same rows in the same order', () => {
+    const rows = [tx('a'), tx('b')];
+    expect(diffTransactions(rows, [...rows])).toEqual({ upserts: [], deletes: [], orderChanged: false });
+  });
+
+  it('notices a reorder without any row changing', () => {
+    const a = tx('a'), b = tx('b');
+    expect(diffTransactions([a, b], [b, a])).toEqual({ upserts: [], deletes: [], orderChanged: true });
+  });
+});
+
+describe('migrateFromLocalStorage', () => {
+  it('moves data saved under the old keys and removes them', async () => {
+    const storage = fakeStorage({
+      [legacyKey('transactions', 'u1')]: JSON.stringify([tx('a')]),
+      [legacyKey('prices', 'u1')]: JSON.stringify({ AAPL: 190 }),
+      [legacyKey('accounts', 'u1')]: JSON.stringify([{ id: 'x', name: 'TFSA' }]),
+      [legacyKey('transactions', 'u2')]: JSON.stringify([tx('other')]),
+    });
+    const repository = createMemoryRepository();
+
+    expect(await migrateFromLocalStorage('u1', repository, storage)).toBe(true);
+    expect(await repository.loadTransactions()).toEqual([tx('a')]);
+    expect(await repository.loadPrices()).toEqual({ AAPL: 190 });
+    expect(await repository.loadSetting('accounts')).toEqual([{ id: 'x', name: 'TFSA' }]);
+    expect(storage.getItem(legacyKey('transactions', 'u1'))).toBeNull();
+    // Another user's data is left alone
+    expect(storage.getItem(legacyKey('transactions', 'u2'))).not.toBeNull();
+  });
+
+  it('keeps what the repository already has', async () => {
+    const storage = fakeStorage({
+      [legacyKey('transactions', 'u1')]: JSON.stringify([tx('old')]),
+      [legacyKey('benchmarks', 'u1')]: JSON.stringify(['SPY']),
+    });
+    const repository = createMemoryRepository({ transactions: [tx('new')], settings: { benchmarks: ['XIU.TO'] } });
+
+    await migrateFromLocalStorage('u1', repository, storage);
+    expect(await repository.loadTransactions()).toEqual([tx('new')]);
+    expect(await repository.loadSetting('benchmarks')).toEqual(['XIU.TO']);
+  });
+
+  it('does nothing when there is nothing to move', async () => {
+    const repository = createMemoryRepository();
+    expect(await migrateFromLocalStorage('u1', repository, fakeStorage())).toBe(false);
+    expect(await repository.loadTransactions()).toEqual([]);
+  });
+});
+
+describe('createLocalStorageRepository', () => {
+  it('reads back what it saved under the old keys', async () => {
+    const storage = fakeStorage();
+    const repository = createLocalStorageRepository('u1', storage);
+    const log = { batches: [], undoStack: [], redoStack: [] };
+    await repository.saveTransactions([tx('a')]);
+    await repository.saveChangeLog(log);
+
+    expect(JSON.parse(storage.getItem(legacyKey('transactions', 'u1'))!)).toEqual([tx('a')]);
+    expect(await repository.loadChangeLog()).toEqual(log);
+
+    await repository.clear();
+    expect(storage.length).toBe(0);
+  });
+});
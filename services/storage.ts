@@ -0,0 +1,312 @@
+import { ChangeBatch, ChangeLog, Transaction } from '../types';
+import { migrateSnapshot, SCHEMA_VERSION } from './schema';
+
+/**
+ * Per-user persistence for the ledger, quotes and settings. App code talks to a
+ * PortfolioRepository and never to a storage API directly, so large ledgers
+ * can live in IndexedDB while tests use the in-memory version.
+ */
+
+export type SettingKey =
+  | 'priceHistory'
+  | 'fxRates'
+  | 'accounts'
+  | 'contributionRoom'
+  | 'benchmarks'
+  | 'allocationModel'
+  | 'alerts'
+  | 'schemaVersion'
+  | 'sync'
+  | 'changeLog'; // Only localStorage keeps the change log as one value; see saveChangeLog
+
+export const SETTING_KEYS: SettingKey[] = ['priceHistory', 'fxRates', 'accounts', 'contributionRoom', 'benchmarks', 'allocationModel', 'alerts', 'schemaVersion', 'sync', 'changeLog'];
+
+export type StorageKind = 'indexedDB' | 'localStorage' | 'memory';
+
+export interface PortfolioRepository {
+  readonly kind: StorageKind;
+  loadTransactions(): Promise<Transaction[]>;
+  /** Writes only what changed since the last load or save. */
+  saveTransactions(transactions: Transaction[]): Promise<void>;
+  loadPrices(): Promise<Record<string, number>>;
+  savePrices(prices: Record<string, number>): Promise<void>;
+  loadSetting<T>(key: SettingKey): Promise<T | undefined>;
+  saveSetting<T>(key: SettingKey, value: T): Promise<void>;
+  loadChangeLog(): Promise<ChangeLog | undefined>;
+  /** Writes only the batches added or pruned since the last load or save, where the storage allows. */
+  saveChangeLog(log: ChangeLog): Promise<void>;
+  /** Removes everything stored for the user. */
+  clear(): Promise<void>;
+}
+
+export interface TransactionChanges {
+  upserts: Transaction[];
+  deletes: string[];
+  orderChanged: boolean;
+}
+
+/**
+ * Transactions added, replaced or removed between two snapshots. State updates
+ * always replace an edited transaction object, so an identity check is enough.
+ */
+export const diffTransactions = (previous: Transaction[], next: Transaction[]): TransactionChanges => {
+  const before = new Map<string, Transaction>(previous.map(t => [t.id, t]));
+  const nextIds = new Set(next.map(t => t.id));
+  const upserts = next.filter(t => before.get(t.id) !== t);
+  const deletes = previous.filter(t => !nextIds.has(t.id)).map(t => t.id);
+  const orderChanged = previous.length !== next.length || next.some((t, i) => previous[i].id !== t.id);
+  return { upserts, deletes, orderChanged };
+};
+
+/**
+ * Keys the app used before the repository existed, e.g. `transactions_${userId}`.
+ */
+export const legacyKey = (name: 'transactions' | 'prices' | SettingKey, userId: string) => `${name}_${userId}`;
+
+const readJson = <T>(storage: Storage, key: string): T | undefined => {
+  const raw = storage.getItem(key);
+  return raw === null ? undefined : JSON.parse(raw);
+};
+
+/**
+ * The original layout: one JSON value per key. Every save rewrites the whole
+ * ledger, so this is only used where IndexedDB is missing.
+ */
+export const createLocalStorageRepository = (userId: string, storage: Storage = localStorage): PortfolioRepository => ({
+  kind: 'localStorage',
+  loadTransactions: async () => readJson<Transaction[]>(storage, legacyKey('transactions', userId)) || [],
+  saveTransactions: async transactions => storage.setItem(legacyKey('transactions', userId), JSON.stringify(transactions)),
+  loadPrices: async () => readJson<Record<string, number>>(storage, legacyKey('prices', userId)) || {},
+  savePrices: async prices => storage.setItem(legacyKey('prices', userId), JSON.stringify(prices)),
+  loadSetting: async <T>(key: SettingKey) => readJson<T>(storage, legacyKey(key, userId)),
+  saveSetting: async <T>(key: SettingKey, value: T) => storage.setItem(legacyKey(key, userId), JSON.stringify(value)),
+  loadChangeLog: async () => readJson<ChangeLog>(storage, legacyKey('changeLog', userId)),
+  saveChangeLog: async log => storage.setItem(legacyKey('changeLog', userId), JSON.stringify(log)),
+  clear: async () => {
+    (['transactions', 'prices', ...SETTING_KEYS] as const).forEach(name => storage.removeItem(legacyKey(name, userId)));
+  },
+});
+
+/**
+ * Keeps everything in memory, for tests and throwaway sessions.
+ */
+export const createMemoryRepository = (seed: { transactions?: Transaction[]; prices?: Record<string, number>; settings?: Partial<Record<SettingKey, unknown>> } = {}): PortfolioRepository => {
+  let transactions = [...(seed.transactions || [])];
+  let prices = { ...(seed.prices || {}) };
+  let settings: Partial<Record<SettingKey, unknown>> = { ...(seed.settings || {}) };
+  return {
+    kind: 'memory',
+    loadTransactions: async () => [...transactions],
+    saveTransactions: async next => { transactions = [...next]; },
+    loadPrices: async () => ({ ...prices }),
+    savePrices: async next => { prices = { ...next }; },
+    loadSetting: async <T>(key: SettingKey) => settings[key] as T | undefined,
+    saveSetting: async <T>(key: SettingKey, value: T) => { settings[key] = value; },
+    loadChangeLog: async () => settings.changeLog as ChangeLog | undefined,
+    saveChangeLog: async log => { settings.changeLog = log; },
+    clear: async () => { transactions = []; prices = {}; settings = {}; },
+  };
+};
+
+/**
+ * Copies data saved under the old localStorage keys into the repository, then
+ * removes the old keys to free their space. Returns whether anything moved.
+ * Existing repository data wins, so running it twice is harmless.
+ */
+export const migrateFromLocalStorage = async (userId: string, repository: PortfolioRepository, storage: Storage = localStorage): Promise<boolean> => {
+  if (repository.kind === 'localStorage') return false;
+  const legacy = createLocalStorageRepository(userId, storage);
+  const names = ['transactions', 'prices', ...SETTING_KEYS] as const;
+  if (!names.some(name => storage.getItem(legacyKey(name, userId)) !== null)) return false;
+
+  if ((await repository.loadTransactions()).length === 0) {
+    await repository.saveTransactions(await legacy.loadTransactions());
+  }
+  if (Object.keys(await repository.loadPrices()).length === 0) {
+    await repository.savePrices(await legacy.loadPrices());
+  }
+  for (const key of SETTING_KEYS) {
+    const value = await legacy.loadSetting(key);
+    if (value !== undefined && (await repository.loadSetting(key)) === undefined) await repository.saveSetting(key, value);
+  }
+  await legacy.clear();
+  return true;
+};
+
+const DB_VERSION = 2;
+const TRANSACTIONS_STORE = 'transactions';
+const CHANGE_BATCHES_STORE = 'changeBatches';
+const VALUES_STORE = 'values';
+const ORDER_KEY = 'transactionOrder';
+const PRICES_KEY = 'prices';
+const CHANGE_STACKS_KEY = 'changeLogStacks';
+const LEGACY_CHANGE_LOG_KEY: SettingKey = 'changeLog';
+
+export const indexedDbAvailable = () => typeof indexedDB !== 'undefined';
+
+const requestResult = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const openDatabase = (name: string) =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(name, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(TRANSACTIONS_STORE)) db.createObjectStore(TRANSACTIONS_STORE, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(VALUES_STORE)) db.createObjectStore(VALUES_STORE);
+      if (!db.objectStoreNames.contains(CHANGE_BATCHES_STORE)) db.createObjectStore(CHANGE_BATCHES_STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * One database per user. Each transaction is its own record, so a save only
+ * touches the rows that changed; the ledger order is kept as a list of ids.
+ * Change log batches are records too, with the undo and redo stacks beside them.
+ */
+export const createIndexedDbRepository = async (userId: string): Promise<PortfolioRepository> => {
+  const db = await openDatabase(`tradetrack_${userId}`);
+  let saved: Transaction[] = [];
+  let savedBatchIds = new Set<string>();
+  let savedStacks = '';
+  let hasLegacyChangeLog = false;
+  // Writes run one at a time so an older save can never land after a newer one
+  let queue: Promise<void> = Promise.resolve();
+  const enqueue = (work: () => Promise<void>) => (queue = queue.then(work, work));
+
+  const getValue = async <T>(key: string): Promise<T | undefined> =>
+    requestResult(db.transaction(VALUES_STORE, 'readonly').objectStore(VALUES_STORE).get(key));
+
+  const putValue = (key: string, value: unknown) => enqueue(() => {
+    const tx = db.transaction(VALUES_STORE, 'readwrite');
+    tx.objectStore(VALUES_STORE).put(value, key);
+    return transactionDone(tx);
+  });
+
+  return {
+    kind: 'indexedDB',
+    loadTransactions: async () => {
+      const tx = db.transaction([TRANSACTIONS_STORE, VALUES_STORE], 'readonly');
+      const [records, order] = await Promise.all([
+        requestResult(tx.objectStore(TRANSACTIONS_STORE).getAll() as IDBRequest<Transaction[]>),
+        requestResult(tx.objectStore(VALUES_STORE).get(ORDER_KEY) as IDBRequest<string[] | undefined>),
+      ]);
+      const position = new Map<string, number>((order || []).map((id, i) => [id, i]));
+      saved = records.sort((a, b) => (position.get(a.id) ?? records.length) - (position.get(b.id) ?? records.length));
+      return [...saved];
+    },
+    saveTransactions: transactions => enqueue(async () => {
+      const changes = diffTransactions(saved, transactions);
+      if (changes.upserts.length === 0 && changes.deletes.length === 0 && !changes.orderChanged) return;
+      const tx = db.transaction([TRANSACTIONS_STORE, VALUES_STORE], 'readwrite');
+      const store = tx.objectStore(TRANSACTIONS_STORE);
+      changes.upserts.forEach(t => store.put(t));
+      changes.deletes.forEach(id => store.delete(id));
+      if (changes.orderChanged) tx.objectStore(VALUES_STORE).put(transactions.map(t => t.id), ORDER_KEY);
+      await transactionDone(tx);
+      saved = transactions;
+    }),
+    loadPrices: async () => (await getValue<Record<string, number>>(PRICES_KEY)) || {},
+    savePrices: prices => putValue(PRICES_KEY, prices),
+    loadSetting: <T>(key: SettingKey) => getValue<T>(key),
+    saveSetting: (key, value) => putValue(key, value),
+    loadChangeLog: async () => {
+      const tx = db.transaction([CHANGE_BATCHES_STORE, VALUES_STORE], 'readonly');
+      const [batches, stacks, legacy] = await Promise.all([
+        requestResult(tx.objectStore(CHANGE_BATCHES_STORE).getAll() as IDBRequest<ChangeBatch[]>),
+        requestResult(tx.objectStore(VALUES_STORE).get(CHANGE_STACKS_KEY) as IDBRequest<Pick<ChangeLog, 'undoStack' | 'redoStack'> | undefined>),
+        requestResult(tx.objectStore(VALUES_STORE).get(LEGACY_CHANGE_LOG_KEY) as IDBRequest<ChangeLog | undefined>),
+      ]);
+      // A log saved whole by an earlier version is split into records on the next save
+      hasLegacyChangeLog = legacy !== undefined;
+      if (batches.length === 0) return legacy;
+      savedBatchIds = new Set(batches.map(b => b.id));
+      savedStacks = JSON.stringify(stacks);
+      return {
+        batches: batches.sort((a, b) => a.timestamp.localeCompare(b.timestamp)),
+        undoStack: (stacks?.undoStack || []).filter(id => savedBatchIds.has(id)),
+        redoStack: (stacks?.redoStack || []).filter(id => savedBatchIds.has(id)),
+      };
+    },
+    saveChangeLog: log => enqueue(async () => {
+      const ids = new Set(log.batches.map(b => b.id));
+      const added = log.batches.filter(b => !savedBatchIds.has(b.id));
+      const pruned = Array.from(savedBatchIds).filter(id => !ids.has(id));
+      const stacks = JSON.stringify({ undoStack: log.undoStack, redoStack: log.redoStack });
+      if (added.length === 0 && pruned.length === 0 && stacks === savedStacks && !hasLegacyChangeLog) return;
+      const tx = db.transaction([CHANGE_BATCHES_STORE, VALUES_STORE], 'readwrite');
+      const store = tx.objectStore(CHANGE_BATCHES_STORE);
+      added.forEach(b => store.put(b));
+      pruned.forEach(id => store.delete(id));
+      tx.objectStore(VALUES_STORE).put({ undoStack: log.undoStack, redoStack: log.redoStack }, CHANGE_STACKS_KEY);
+      if (hasLegacyChangeLog) tx.objectStore(VALUES_STORE).delete(LEGACY_CHANGE_LOG_KEY);
+      await transactionDone(tx);
+      savedBatchIds = ids;
+      savedStacks = stacks;
+      hasLegacyChangeLog = false;
+    }),
+    clear: () => enqueue(async () => {
+      const tx = db.transaction([TRANSACTIONS_STORE, CHANGE_BATCHES_STORE, VALUES_STORE], 'readwrite');
+      tx.objectStore(TRANSACTIONS_STORE).clear();
+      tx.objectStore(CHANGE_BATCHES_STORE).clear();
+      tx.objectStore(VALUES_STORE).clear();
+      await transactionDone(tx);
+      saved = [];
+      savedBatchIds = new Set();
+      savedStacks = '';
+    }),
+  };
+};
+
+/**
+ * Runs schema migrations over stored data written by an older version and
+ * records the current version. Data without a version predates versioning.
+ */
+export const upgradeStoredData = async (repository: PortfolioRepository): Promise<void> => {
+  const version = (await repository.loadSetting<number>('schemaVersion')) ?? 0;
+  if (version === SCHEMA_VERSION) return;
+  const settingKeys = SETTING_KEYS.filter(key => key !== 'schemaVersion');
+  const settings: Record<string, unknown> = {};
+  for (const key of settingKeys) settings[key] = await repository.loadSetting(key);
+
+  const upgraded = migrateSnapshot({ transactions: await repository.loadTransactions(), settings }, version);
+  // Stored rows were written by the app itself, so once upgraded they have the current shape
+  await repository.saveTransactions(upgraded.transactions as Transaction[]);
+  for (const key of settingKeys) {
+    if (upgraded.settings[key] !== settings[key] && upgraded.settings[key] !== undefined) await repository.saveSetting(key, upgraded.settings[key]);
+  }
+  await repository.saveSetting('schemaVersion', SCHEMA_VERSION);
+};
+
+/**
+ * IndexedDB where the browser has it, else localStorage. Old localStorage data
+ * is moved across on first open.
+ */
+export const openRepository = async (userId: string): Promise<PortfolioRepository> => {
+  let repository: PortfolioRepository;
+  if (!indexedDbAvailable()) {
+    repository = createLocalStorageRepository(userId);
+  } else {
+    try {
+      repository = await createIndexedDbRepository(userId);
+      await migrateFromLocalStorage(userId, repository);
+    } catch (err) {
+      // Private browsing modes can refuse to open a database
+      console.warn('IndexedDB unavailable, using localStorage', err);
+      repository = createLocalStorageRepository(userId);
+    }
+  }
+  await upgradeStoredData(repository);
+  return repository;
+};
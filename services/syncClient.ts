@@ -0,0 +1,216 @@
+import { SyncConflict, SyncPullResponse, SyncPushRequest, SyncPushResponse, SyncRecord, SyncState, Transaction } from '../types';
+
+/**
+ * Offline-first sync of the ledger with the server in /server.
+ *
+ * The sync state keeps a shadow copy of every transaction as last agreed with
+ * the server. Whatever differs between the ledger and the shadow is a local
+ * change waiting to be pushed, so edits made offline need no separate queue.
+ * When the same transaction changed on both sides, the two versions are merged
+ * field by field against the shadow; fields both devices changed keep this
+ * device's value and are reported as a conflict.
+ */
+
+export interface SyncApi {
+  pull: (since: number) => Promise<SyncPullResponse>;
+  push: (request: SyncPushRequest) => Promise<SyncPushResponse>;
+}
+
+export interface SyncPatch {
+  upserts: Transaction[];
+  deletes: string[];
+}
+
+export interface SyncResult {
+  patch: SyncPatch; // Remote changes to apply to the ledger
+  state: SyncState;
+  /** Some pushes were rejected because the server moved on; sync again to merge them. */
+  retry: boolean;
+  pushed: number;
+}
+
+export type SyncStatus = 'disabled' | 'idle' | 'syncing' | 'offline' | 'error';
+
+export const SYNC_INTERVAL_MS = 60 * 1000;
+export const SYNC_DEBOUNCE_MS = 2000;
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+export const syncConfig = () => ({
+  url: (process.env.VITE_SYNC_URL || '').replace(/\/$/, ''),
+  devAuth: process.env.VITE_SYNC_DEV_AUTH === 'true',
+});
+
+export const isSyncEnabled = () => Boolean(syncConfig().url);
+
+export const emptySyncState = (): SyncState => ({ deviceId: generateId(), lastSeq: 0, revs: {}, shadow: {}, conflicts: [] });
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * Transactions whose fields differ, ignoring key order.
+ */
+export const sameTransaction = (a: Transaction | null | undefined, b: Transaction | null | undefined) => {
+  if (!a || !b) return !a && !b;
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)] as (keyof Transaction)[]);
+  return Array.from(keys).every(key => sameValue(a[key], b[key]));
+};
+
+/**
+ * Three-way merge of one transaction. An edit beats a delete, so nothing
+ * recorded on either device is lost.
+ */
+export const mergeTransaction = (
+  base: Transaction | null,
+  local: Transaction | null,
+  remote: Transaction | null
+): { merged: Transaction | null; fields: string[] } => {
+  if (!local && !remote) return { merged: null, fields: [] };
+  if (!local) return sameTransaction(base, remote) ? { merged: null, fields: [] } : { merged: remote, fields: base ? ['deleted here'] : [] };
+  if (!remote) return sameTransaction(base, local) ? { merged: null, fields: [] } : { merged: local, fields: base ? ['deleted elsewhere'] : [] };
+
+  const merged: Partial<Record<keyof Transaction, unknown>> = {};
+  const fields: string[] = [];
+  const keys = new Set([...Object.keys(local), ...Object.keys(remote)] as (keyof Transaction)[]);
+  keys.forEach(key => {
+    const b = base?.[key];
+    const l = local[key];
+    const r = remote[key];
+    let value = l;
+    if (!sameValue(l, r)) {
+      if (sameValue(b, l)) value = r;
+      else if (!sameValue(b, r)) fields.push(key);
+    }
+    if (value !== undefined) merged[key] = value;
+  });
+  return { merged: merged as Transaction, fields };
+};
+
+/**
+ * Applies remote changes to a ledger, keeping its order and appending new rows.
+ */
+export const applySyncPatch = (transactions: Transaction[], patch: SyncPatch): Transaction[] => {
+  if (patch.upserts.length === 0 && patch.deletes.length === 0) return transactions;
+  const deletes = new Set(patch.deletes);
+  const upserts = new Map<string, Transaction>(patch.upserts.map(t => [t.id, t]));
+  const next = transactions.filter(t => !deletes.has(t.id)).map(t => upserts.get(t.id) || t);
+  const present = new Set(next.map(t => t.id));
+  return [...next, ...patch.upserts.filter(t => !present.has(t.id))];
+};
+
+/**
+ * Pulls what other devices changed, merges it into the ledger, then pushes
+ * local changes. Works on a snapshot: the returned patch is applied to the
+ * ledger as it is by then, and later edits are picked up on the next sync.
+ */
+export const syncLedger = async (transactions: Transaction[], state: SyncState, api: SyncApi): Promise<SyncResult> => {
+  const shadow = { ...state.shadow };
+  const revs = { ...state.revs };
+  let conflicts: SyncConflict[] = state.conflicts;
+  const local = new Map<string, Transaction>(transactions.map(t => [t.id, t]));
+  const patch: SyncPatch = { upserts: [], deletes: [] };
+  const detectedAt = new Date().toISOString();
+
+  const pulled = await api.pull(state.lastSeq);
+  pulled.changes.forEach((record: SyncRecord) => {
+    // Our own earlier pushes come back too
+    if ((revs[record.id] ?? 0) >= record.rev) return;
+    const base = shadow[record.id] || null;
+    const mine = local.get(record.id) || null;
+
+    let result = record.data;
+    if (!sameTransaction(base, mine)) {
+      const { merged, fields } = mergeTransaction(base, mine, record.data);
+      result = merged;
+      if (fields.length > 0) {
+        conflicts = [...conflicts.filter(c => c.id !== record.id), { id: record.id, local: mine, remote: record.data, fields, detectedAt }];
+      }
+    }
+
+    if (result) {
+      if (!sameTransaction(mine, result)) patch.upserts.push(result);
+      local.set(record.id, result);
+    } else {
+      if (mine) patch.deletes.push(record.id);
+      local.delete(record.id);
+    }
+    if (record.data) shadow[record.id] = record.data;
+    else delete shadow[record.id];
+    revs[record.id] = record.rev;
+  });
+
+  const ids = new Set([...local.keys(), ...Object.keys(shadow)]);
+  const changes = Array.from(ids)
+    .filter(id => !sameTransaction(shadow[id], local.get(id)))
+    .map(id => ({ id, data: local.get(id) || null, baseRev: revs[id] ?? 0 }));
+
+  let retry = false;
+  if (changes.length > 0) {
+    const pushed = await api.push({ deviceId: state.deviceId, changes });
+    pushed.applied.forEach(({ id, rev }) => {
+      const data = local.get(id);
+      if (data) shadow[id] = data;
+      else delete shadow[id];
+      revs[id] = rev;
+    });
+    retry = pushed.conflicts.length > 0;
+  }
+
+  // Stay at the pulled sequence: writes by other devices between our pull and push are still unseen
+  return {
+    patch,
+    state: { ...state, lastSeq: pulled.seq, revs, shadow, conflicts },
+    retry,
+    pushed: changes.length,
+  };
+};
+
+/**
+ * Local changes not yet on the server.
+ */
+export const pendingChangeCount = (transactions: Transaction[], state: SyncState): number => {
+  const local = new Map<string, Transaction>(transactions.map(t => [t.id, t]));
+  const ids = new Set([...local.keys(), ...Object.keys(state.shadow)]);
+  return Array.from(ids).filter(id => !sameTransaction(state.shadow[id], local.get(id))).length;
+};
+
+export class SyncHttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+// fetch rejects with a TypeError when the server cannot be reached at all
+export const isOfflineError = (err: unknown) => err instanceof TypeError || (typeof navigator !== 'undefined' && navigator.onLine === false);
+
+/**
+ * Talks to the sync server, asking for a fresh access token on each call.
+ */
+export const createHttpSyncApi = (baseUrl: string, getToken: () => Promise<string>): SyncApi => {
+  const request = async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+    const token = await getToken();
+    const response = await fetch(`${baseUrl}${path}`, {
+      ...init,
+      headers: { ...(init.headers || {}), Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+    });
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      throw new SyncHttpError(response.status, body.error || `Sync failed with ${response.status}`);
+    }
+    return response.json();
+  };
+  return {
+    pull: since => request<SyncPullResponse>(`/sync?since=${since}`),
+    push: body => request<SyncPushResponse>('/sync', { method: 'POST', body: JSON.stringify(body) }),
+  };
+};
+
+/**
+ * Token from the sync server's development issuer. Only works when the server
+ * runs with DEV_AUTH=true.
+ */
+export const fetchDevToken = async (baseUrl: string, userId: string): Promise<string> => {
+  const response = await fetch(`${baseUrl}/dev/token?sub=${encodeURIComponent(userId)}`);
+  if (!response.ok) throw new SyncHttpError(response.status, 'Development token request failed');
+  return (await response.json()).access_token;
+};
@@ -0,0 +1,121 @@
+import { SyncPatch, SyncStatus } from './syncClient';
+import { ChangeLogUpdate } from './changeLog';
+
+/**
+ * Keeps several open TradeTrack tabs consistent. Each tab announces its own
+ * changes on a per-user BroadcastChannel and applies what the others announce,
+ * so no tab saves over another's edits with a stale copy. Price refreshes are
+ * serialised with a Web Lock and the quota cooldown lives in localStorage,
+ * which every tab of the browser shares. Server sync runs in one tab only,
+ * the holder of a per-user Web Lock, and the others follow its status.
+ */
+
+export type SharedStateKey =
+  | 'prices'
+  | 'priceHistory'
+  | 'fxRates'
+  | 'accounts'
+  | 'contributionRoom'
+  | 'benchmarks'
+  | 'allocationModel'
+  | 'alerts'
+  | 'sync';
+
+export const SHARED_STATE_KEYS: SharedStateKey[] = ['prices', 'priceHistory', 'fxRates', 'accounts', 'contributionRoom', 'benchmarks', 'allocationModel', 'alerts', 'sync'];
+
+export type TabMessage =
+  | { type: 'transactions'; patch: SyncPatch } // Rows another tab added, edited or deleted
+  | { type: 'changeLog'; update: ChangeLogUpdate } // History batches another tab recorded
+  | { type: 'state'; key: SharedStateKey; value: unknown }
+  | { type: 'pricesRefreshed'; symbols: string[]; sources: any[]; at: string }
+  | { type: 'syncStatus'; status: SyncStatus; lastSynced: string | null } // From the tab that syncs
+  | { type: 'syncRequest' } // Asks the tab that syncs to sync now
+  | { type: 'reload' }; // Saved data was replaced wholesale, e.g. wiped
+
+export interface TabChannel {
+  post: (message: TabMessage) => void;
+  subscribe: (handler: (message: TabMessage) => void) => () => void;
+  close: () => void;
+}
+
+const PRICE_LOCK = 'tradetrack_price_refresh';
+const SYNC_LOCK = 'tradetrack_sync';
+const PRICE_COOLDOWN_KEY = 'tradetrack_price_cooldown_until';
+
+/**
+ * A channel shared by this user's tabs. Without BroadcastChannel each tab
+ * works on its own, as before.
+ */
+export const openTabChannel = (userId: string): TabChannel => {
+  if (typeof BroadcastChannel === 'undefined') {
+    return { post: () => undefined, subscribe: () => () => undefined, close: () => undefined };
+  }
+  const channel = new BroadcastChannel(`tradetrack_${userId}`);
+  return {
+    post: message => channel.postMessage(message),
+    subscribe: handler => {
+      const listener = (event: MessageEvent<TabMessage>) => handler(event.data);
+      channel.addEventListener('message', listener);
+      return () => channel.removeEventListener('message', listener);
+    },
+    close: () => channel.close(),
+  };
+};
+
+/**
+ * Runs a price refresh once no other tab is running one. Tabs that had to wait
+ * should skip what the other tab already fetched.
+ */
+export const withPriceRefreshLock = async <T>(work: () => Promise<T>): Promise<T> => {
+  const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined;
+  if (!locks) return work();
+  return locks.request(PRICE_LOCK, work);
+};
+
+/**
+ * Waits until no other tab of this user is syncing, then calls back and keeps
+ * the role until released. The next waiting tab takes over when this one
+ * closes. Without Web Locks every tab syncs on its own, as before.
+ */
+export const holdSyncLeadership = (userId: string, onLeader: () => void): (() => void) => {
+  const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined;
+  if (!locks) {
+    onLeader();
+    return () => undefined;
+  }
+  const controller = new AbortController();
+  let release: () => void = () => undefined;
+  locks.request(`${SYNC_LOCK}_${userId}`, { signal: controller.signal }, () => {
+    onLeader();
+    return new Promise<void>(resolve => { release = resolve; });
+  }).catch(() => undefined); // Released while still waiting
+  return () => {
+    controller.abort();
+    release();
+  };
+};
+
+/**
+ * Seconds left on a quota cooldown started by any tab.
+ */
+export const priceCooldownRemaining = (now = Date.now()): number => {
+  const until = Number(localStorage.getItem(PRICE_COOLDOWN_KEY)) || 0;
+  return Math.max(0, Math.ceil((until - now) / 1000));
+};
+
+export const startPriceCooldown = (seconds: number, now = Date.now()) => {
+  localStorage.setItem(PRICE_COOLDOWN_KEY, String(now + seconds * 1000));
+};
+
+/**
+ * Calls back with the seconds remaining whenever another tab starts a cooldown.
+ */
+export const onPriceCooldown = (handler: (seconds: number) => void): (() => void) => {
+  const listener = (event: StorageEvent) => {
+    if (event.key !== PRICE_COOLDOWN_KEY) return;
+    const seconds = priceCooldownRemaining();
+    if (seconds > 0) handler(seconds);
+  };
+  window.addEventListener('storage', listener);
+  return () => window.removeEventListener('storage', listener);
+};
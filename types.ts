@@ -1,5 +1,9 @@
 
-export type TransactionType = 'BUY' | 'SELL';
+// Income rows use shares x price as the payment: shares held (or 1) and the amount per share.
+// DRIP adds the reinvested shares; ROC (return of capital) lowers the cost base instead of paying income.
+// Corporate actions (SPLIT, SYMBOL_CHANGE, MERGER) apply to whatever is held on their date; shares is unused.
+// DEPOSIT and WITHDRAWAL move cash in or out of an account under the CASH symbol.
+export type TransactionType = 'BUY' | 'SELL' | 'DIVIDEND' | 'DISTRIBUTION' | 'INTEREST' | 'DRIP' | 'ROC' | 'SPLIT' | 'SYMBOL_CHANGE' | 'MERGER' | 'DEPOSIT' | 'WITHDRAWAL';
 
 export interface User {
   id: string;
@@ -17,8 +21,12 @@ export interface Transaction {
   symbol: string;
   name: string;
   shares: number;
-  price: number;
+  price: number; // MERGER: cash received per old share
   currency: string;
+  ratio?: number; // SPLIT / MERGER: new shares per old share (4 for a 4:1 split, 0.1 for 1:10 reverse)
+  newSymbol?: string; // SYMBOL_CHANGE / MERGER: ticker the holding continues under
+  fee?: number; // Commission and other trading fees, in the transaction currency
+  fxFee?: number; // Currency conversion charge, in the transaction currency
 }
 
 export interface StockSummary {
@@ -30,7 +38,9 @@ export interface StockSummary {
   currentPrice: number | null;
   totalInvested: number; // For current holdings
   realizedPL: number;
+  incomeReceived: number; // Dividends, distributions, interest and DRIP
   transactions: Transaction[];
+  isCash?: boolean; // Uninvested cash line, valued at 1 per unit
 }
 
 export interface CurrencyStats {
@@ -38,9 +48,371 @@ export interface CurrencyStats {
   totalCostBasis: number; // of currently held shares
   totalRealizedPL: number;
   totalUnrealizedPL: number;
+  totalIncome: number;
+  totalCash: number; // Part of totalValue held as uninvested cash
 }
 
 export interface PortfolioStats {
   USD: CurrencyStats;
   CAD: CurrencyStats;
 }
+
+/**
+ * Running position for a holding immediately after a transaction is applied.
+ */
+export interface TransactionRunningState {
+  transactionId: string;
+  sharesHeld: number;
+  costBasis: number;
+  avgCost: number;
+  realizedPL: number; // Cumulative for the holding up to and including this transaction
+}
+
+export interface LedgerResult {
+  holdings: StockSummary[];
+  stats: PortfolioStats;
+  runningState: Record<string, TransactionRunningState>;
+}
+
+export interface CapitalGainDisposition {
+  transactionId: string;
+  date: string;
+  symbol: string;
+  currency: string;
+  account: string;
+  shares: number;
+  proceeds: number;
+  acb: number; // Adjusted cost base of the shares disposed of
+  outlays: number; // Outlays and expenses of disposition (commissions)
+  gainLoss: number; // After any superficial loss denial
+  deniedLoss: number; // Portion of the loss denied by the superficial loss rule
+}
+
+export interface TaxYearSummary {
+  year: number;
+  currency: string;
+  dispositions: CapitalGainDisposition[];
+  totalProceeds: number;
+  totalAcb: number;
+  totalOutlays: number;
+  totalGainLoss: number;
+  totalDeniedLoss: number;
+}
+
+export type CsvField = 'date' | 'action' | 'symbol' | 'quantity' | 'price' | 'amount' | 'fee' | 'currency' | 'account' | 'exchange' | 'name';
+
+export type CsvDateFormat = 'YMD' | 'MDY' | 'DMY';
+
+export interface BrokerProfile {
+  id: string;
+  name: string;
+  builtIn?: boolean;
+  columns: Partial<Record<CsvField, string>>; // Field -> CSV header
+  dateFormat: CsvDateFormat;
+  defaultCurrency: string;
+  defaultAccount: string;
+}
+
+// An imported row under review; its type is blank when the source's was not recognised
+export type ImportedTransaction = Omit<Transaction, 'id' | 'type'> & { type: TransactionType | '' };
+
+export interface StagedTransaction {
+  key: string;
+  data: ImportedTransaction;
+  accepted: boolean;
+}
+
+export type PriceProviderId = 'gemini' | 'mock' | 'file' | 'http';
+
+export interface PriceProviderSettings {
+  providerId: PriceProviderId;
+  httpEndpoint?: string; // Quote URL; "{symbols}" is replaced with a comma-separated list
+  httpHistoryEndpoint?: string; // Daily closes URL; "{symbol}", "{from}" and "{to}" are substituted
+  filePrices?: Record<string, number>; // Prices loaded from a local JSON/CSV file
+  fileName?: string;
+}
+
+// Daily closing prices: symbol -> YYYY-MM-DD -> close
+export type PriceHistory = Record<string, Record<string, number>>;
+
+export interface ValuePoint {
+  date: string;
+  value: number; // Market value of holdings at the last known close
+  costBasis: number;
+  netInvested: number; // Cumulative buy cost minus sell proceeds
+}
+
+export type BaseCurrency = 'USD' | 'CAD';
+
+// USD/CAD rates (CAD per 1 USD) keyed by YYYY-MM-DD
+export type FxRateHistory = Record<string, number>;
+
+export type IncomeGrouping = 'month' | 'year' | 'symbol' | 'account';
+
+export interface IncomeReportRow {
+  key: string;
+  byCurrency: Record<string, number>;
+  payments: number;
+}
+
+export interface CashBalance {
+  account: string;
+  currency: string;
+  balance: number;
+  deposits: number;
+  withdrawals: number;
+}
+
+export interface CashLedger {
+  balances: CashBalance[];
+  running: Record<string, number>; // Transaction id -> account balance after it
+}
+
+export type FeeGrouping = 'year' | 'account';
+
+export interface FeeReportRow {
+  key: string;
+  commissions: Record<string, number>; // Currency -> total
+  fxFees: Record<string, number>;
+  trades: number;
+}
+
+export type AccountType = 'TFSA' | 'RRSP' | 'FHSA' | 'RESP' | 'MARGIN' | 'CASH';
+
+export interface Account {
+  id: string;
+  name: string; // Matches Transaction.account
+  type: AccountType;
+  institution: string;
+  currency: string; // Reporting currency of the account
+}
+
+export interface AccountSummary {
+  name: string;
+  account: Account | null; // Null for names only found in transactions
+  transactionCount: number;
+  openPositions: number;
+  stats: PortfolioStats;
+}
+
+export type ContributionPlan = 'TFSA' | 'RRSP' | 'FHSA';
+
+export interface ContributionRoomSettings {
+  startYear: number;
+  startingRoom: number; // Room available on January 1 of startYear, from CRA My Account
+  annualRoom: Record<string, number>; // Per-year new room overrides, e.g. the RRSP limit from each notice of assessment
+  priorContributions?: number; // FHSA contributions made before startYear, toward the lifetime limit
+}
+
+export interface ContributionRoomYear {
+  year: number;
+  openingRoom: number;
+  newRoom: number;
+  restoredRoom: number; // Prior-year withdrawals added back on January 1
+  contributions: number;
+  withdrawals: number;
+  closingRoom: number;
+  overContribution: number;
+}
+
+export interface ContributionRoomReport {
+  plan: ContributionPlan;
+  years: ContributionRoomYear[];
+  availableRoom: number;
+  unconverted: number; // Foreign-currency deposits skipped for lack of an FX rate
+  warnings: string[];
+}
+
+export type LedgerIssueCode =
+  | 'OVERSELL'
+  | 'SELL_BEFORE_BUY'
+  | 'NOTHING_HELD' // Corporate action or payment on a security not held
+  | 'FUTURE_DATE'
+  | 'INVALID_DATE'
+  | 'INVALID_TYPE'
+  | 'INVALID_SHARES'
+  | 'INVALID_PRICE'
+  | 'INVALID_ACTION' // Split without a ratio, rename without a new symbol, etc.
+  | 'CURRENCY_MISMATCH';
+
+export interface LedgerIssue {
+  transactionId: string;
+  code: LedgerIssueCode;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export type ReturnPeriod = 'YTD' | '1Y' | '3Y' | 'ALL';
+
+export interface ReturnResult {
+  start: string;
+  end: string;
+  startValue: number;
+  endValue: number;
+  netFlows: number; // Money put into holdings minus money taken out, income included
+  gain: number;
+  twr: number | null; // Cumulative time-weighted return
+  twrAnnualized: number | null; // Only for periods of a year or more
+  xirr: number | null; // Annualized money-weighted return
+  missingFx: boolean; // Some amounts could not be converted and were left out
+}
+
+export interface Benchmark {
+  symbol: string; // Quote symbol, e.g. XIU.TO or SPY
+  currency: string; // Currency its closes are quoted in
+}
+
+export interface BenchmarkComparison {
+  symbol: string;
+  values: Record<string, number>; // Simulated value by date, in the chart currency
+  endValue: number;
+  xirr: number | null;
+  twr: number | null; // Benchmark's own return over the same span
+  hasHistory: boolean;
+}
+
+export type AllocationMode = 'symbol' | 'assetClass';
+
+export interface AllocationTarget {
+  key: string; // Symbol, or asset class name
+  weight: number; // Percent of the portfolio
+  buySymbol?: string; // Asset classes only: the fund bought to add to it
+  account?: string; // Where new buys go
+}
+
+export interface AllocationModel {
+  mode: AllocationMode;
+  targets: AllocationTarget[];
+  assetClasses: Record<string, string>; // Symbol -> asset class
+}
+
+export interface RebalanceOptions {
+  newCash: number; // In base currency
+  allowSells: boolean;
+  minTradeSize: number; // In base currency
+  wholeShares: boolean;
+  defaultAccount: string;
+}
+
+export interface AllocationDrift {
+  key: string;
+  currentValue: number;
+  currentWeight: number; // Percent
+  targetWeight: number; // Percent
+  targetValue: number;
+  drift: number; // Percentage points over (+) or under (-) target
+}
+
+export interface ProposedOrder {
+  type: 'BUY' | 'SELL';
+  symbol: string;
+  shares: number;
+  price: number; // Native currency
+  currency: string;
+  amount: number; // Base currency
+  account: string;
+  targetKey: string;
+}
+
+export type AlertRuleType = 'ABOVE' | 'BELOW' | 'MOVE_PCT' | 'BELOW_COST_PCT';
+
+export interface AlertRule {
+  id: string;
+  symbol: string;
+  type: AlertRuleType;
+  threshold: number; // A price, or a percent for the percentage rules
+  enabled: boolean;
+  isTriggered: boolean; // Price rules fire once per crossing and re-arm when the condition clears
+}
+
+export interface AlertNotification {
+  id: string;
+  ruleId: string;
+  symbol: string;
+  message: string;
+  price: number;
+  triggeredAt: string; // ISO timestamp
+  read: boolean;
+}
+
+export interface AlertState {
+  watchlist: string[];
+  rules: AlertRule[];
+  notifications: AlertNotification[];
+  browserNotifications: boolean;
+}
+
+// Sync protocol shared with the server in /server. Deleted transactions are kept as records with null data.
+export interface SyncRecord {
+  id: string;
+  data: Transaction | null;
+  rev: number; // Server sequence number of the last write
+  updatedAt: string;
+  deviceId: string;
+}
+
+export interface SyncChange {
+  id: string;
+  data: Transaction | null;
+  baseRev: number; // Revision the device last saw; 0 for a new transaction
+}
+
+export interface SyncPullResponse {
+  seq: number;
+  changes: SyncRecord[];
+}
+
+export interface SyncPushRequest {
+  deviceId: string;
+  changes: SyncChange[];
+}
+
+export interface SyncPushResponse {
+  seq: number;
+  applied: { id: string; rev: number }[];
+  conflicts: SyncRecord[]; // Changed on the server since baseRev; pull and merge before retrying
+}
+
+export interface SyncConflict {
+  id: string;
+  local: Transaction | null; // This device's version, which was kept
+  remote: Transaction | null; // The other device's version
+  fields: string[];
+  detectedAt: string;
+}
+
+export interface SyncState {
+  deviceId: string;
+  lastSeq: number;
+  revs: Record<string, number>;
+  shadow: Record<string, Transaction>; // Transactions as last agreed with the server
+  conflicts: SyncConflict[];
+}
+
+export type ChangeAction = 'create' | 'update' | 'delete';
+
+export type ChangeSource = 'manual' | 'ai-parse' | 'file-import' | 'restore' | 'cleanup';
+
+export interface LedgerChange {
+  transactionId: string;
+  action: ChangeAction;
+  before: Transaction | null;
+  after: Transaction | null;
+}
+
+// One user action in the edit history. Undoing or reverting appends a new batch, so history is never rewritten.
+export interface ChangeBatch {
+  id: string;
+  timestamp: string;
+  source: ChangeSource;
+  kind: 'edit' | 'undo' | 'redo' | 'revert';
+  label: string;
+  changes: LedgerChange[];
+  revertsBatchId?: string; // The batch an undo, redo or revert acted on
+}
+
+export interface ChangeLog {
+  batches: ChangeBatch[]; // Oldest first
+  undoStack: string[]; // Batch ids, most recent last
+  redoStack: string[];
+}
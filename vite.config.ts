@@ -18,6 +18,9 @@ export default defineConfig(({ mode }) => {
         API_KEY: env.VITE_GOOGLE_API_KEY || env.API_KEY || '',
         VITE_AUTH0_DOMAIN: env.VITE_AUTH0_DOMAIN || '',
         VITE_AUTH0_CLIENT_ID: env.VITE_AUTH0_CLIENT_ID || '',
+        VITE_AUTH0_AUDIENCE: env.VITE_AUTH0_AUDIENCE || '',
+        VITE_SYNC_URL: env.VITE_SYNC_URL || '',
+        VITE_SYNC_DEV_AUTH: env.VITE_SYNC_DEV_AUTH || '',
         NODE_ENV: mode,
       })
     },